@@ -6,7 +6,7 @@ import '@openzeppelin/hardhat-upgrades'
 export const ledgerAccount = '0x23c4602e63ACfe29b930c530B19d44a84AF0d767'
 
 const balance = '100000000000000000000000'
-const accounts = [
+export const accounts = [
   'c3381a96fa2be2aae2f2798e0887272e634417710aa09ecad9328754cdc8db8a', //0x11187eff852069a33d102476b2E8A9cc9167dAde
   '33a3d35ee3408a701f0ff775390ede800f728562ed656ec0036f9e4fd96e7d5b', //0x2228bdc8584595DfefA75597C96B13c00a2D88C2
   'fd52fbad9cb1258e30e6f83d1f2ecb2f6702887c1444d968133f41f3edb3f566', //0x33375555d73620FefD26cD083c425759a259FA18
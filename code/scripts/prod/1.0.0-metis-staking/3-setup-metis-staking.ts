@@ -6,8 +6,8 @@ import {
   StakingPool,
 } from '../../../typechain-types'
 import { getContract } from '../../utils/deployment'
+import { stMetisSDLPoolFee } from './config'
 
-const stMetisSDLPoolFee = 600 // basis point fee to be paid to SDL pool
 const multisigAddress = '0xB351EC0FEaF4B99FdFD36b484d9EC90D0422493D'
 
 async function main() {
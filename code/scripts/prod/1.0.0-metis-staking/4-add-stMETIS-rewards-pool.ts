@@ -1,54 +1,17 @@
 import { SDLPoolPrimary } from '../../../typechain-types'
 import { getContract } from '../../utils/deployment'
-import hre from 'hardhat'
-import Safe from '@safe-global/protocol-kit'
-import SafeApiKit from '@safe-global/api-kit'
-import { MetaTransactionData } from '@safe-global/safe-core-sdk-types'
-import { getAccounts } from '../../utils/helpers'
+import { createSafeBatch } from '../../utils/multisig'
 
 const multisigAddress = '0xB351EC0FEaF4B99FdFD36b484d9EC90D0422493D'
 
 async function main() {
-  const { accounts } = await getAccounts()
-
-  const safeApiKit = new SafeApiKit({
-    chainId: 1n,
-    txServiceUrl: 'https://safe-transaction-mainnet.safe.global',
-  })
-  const safeSdk = await Safe.init({
-    provider: hre.network.provider,
-    signer: accounts[0],
-    safeAddress: multisigAddress,
-  })
-
   const sdlPool = (await getContract('SDLPool', true)) as SDLPoolPrimary
   const stakingPool = await getContract('METIS_StakingPool', true)
   const stMetisSDLRewardsPool = await getContract('stMETIS_SDLRewardsPool', true)
 
-  const transactions: MetaTransactionData[] = [
-    {
-      to: sdlPool.target.toString(),
-      data:
-        (
-          await sdlPool.addToken.populateTransaction(
-            stakingPool.target,
-            stMetisSDLRewardsPool.target
-          )
-        ).data || '',
-      value: '0',
-    },
-  ]
-  const safeTransaction = await safeSdk.createTransaction({ transactions })
-  const safeTxHash = await safeSdk.getTransactionHash(safeTransaction)
-  const senderSignature = await safeSdk.signHash(safeTxHash)
-
-  await safeApiKit.proposeTransaction({
-    safeAddress: multisigAddress,
-    safeTransactionData: safeTransaction.data,
-    safeTxHash,
-    senderAddress: accounts[0],
-    senderSignature: senderSignature.data,
-  })
+  const batch = createSafeBatch('Add stMETIS rewards pool', '', multisigAddress)
+  await batch.add(sdlPool, 'addToken', [stakingPool.target, stMetisSDLRewardsPool.target])
+  await batch.submit(true, 'propose')
 }
 
 main()
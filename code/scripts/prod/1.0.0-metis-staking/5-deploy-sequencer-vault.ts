@@ -1,10 +1,6 @@
 import { SequencerVCS } from '../../../typechain-types'
 import { getContract } from '../../utils/deployment'
-import hre from 'hardhat'
-import Safe from '@safe-global/protocol-kit'
-import SafeApiKit from '@safe-global/api-kit'
-import { MetaTransactionData } from '@safe-global/safe-core-sdk-types'
-import { getAccounts } from '../../utils/helpers'
+import { createSafeBatch } from '../../utils/multisig'
 
 const multisigAddress = '0xB351EC0FEaF4B99FdFD36b484d9EC90D0422493D'
 
@@ -16,45 +12,15 @@ const SequencerVaultArgs = {
 }
 
 async function main() {
-  const { accounts } = await getAccounts()
-
-  const safeApiKit = new SafeApiKit({
-    chainId: 1n,
-    txServiceUrl: 'https://safe-transaction-mainnet.safe.global',
-  })
-  const safeSdk = await Safe.init({
-    provider: hre.network.provider,
-    signer: accounts[0],
-    safeAddress: multisigAddress,
-  })
-
   const sequencerVCS = (await getContract('SequencerVCS', true)) as SequencerVCS
 
-  const transactions: MetaTransactionData[] = [
-    {
-      to: sequencerVCS.target.toString(),
-      data:
-        (
-          await sequencerVCS.addVault.populateTransaction(
-            SequencerVaultArgs.pubkey,
-            SequencerVaultArgs.signer,
-            SequencerVaultArgs.rewardsReceiver
-          )
-        ).data || '',
-      value: '0',
-    },
-  ]
-  const safeTransaction = await safeSdk.createTransaction({ transactions })
-  const safeTxHash = await safeSdk.getTransactionHash(safeTransaction)
-  const senderSignature = await safeSdk.signHash(safeTxHash)
-
-  await safeApiKit.proposeTransaction({
-    safeAddress: multisigAddress,
-    safeTransactionData: safeTransaction.data,
-    safeTxHash,
-    senderAddress: accounts[0],
-    senderSignature: senderSignature.data,
-  })
+  const batch = createSafeBatch('Deploy sequencer vault', '', multisigAddress)
+  await batch.add(sequencerVCS, 'addVault', [
+    SequencerVaultArgs.pubkey,
+    SequencerVaultArgs.signer,
+    SequencerVaultArgs.rewardsReceiver,
+  ])
+  await batch.submit(true, 'propose')
 }
 
 main()
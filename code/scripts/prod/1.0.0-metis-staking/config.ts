@@ -0,0 +1,87 @@
+import { ethers } from 'ethers'
+import {
+  DistributionOracle,
+  PriorityPool,
+  SequencerRewardsCCIPReceiver,
+  SequencerVCS,
+  StakingPool,
+} from '../../../typechain-types'
+import { ContractConfig, defineConfig } from '../../utils/config-check'
+import { toEther } from '../../utils/helpers'
+import { ref } from '../../utils/manifest'
+
+export const sequencerRewardsCCIPSenderAddress = '' // address of contract deployed on Metis
+export const ccipRouterAddress = '0x80226fc0Ee2b096224EeAc085Bb9a8cba1146f7D' // ETH mainnet CCIP router
+export const stMetisSDLPoolFee = 600 // basis point fee to be paid to SDL pool
+
+// Wrapped stMETIS
+export const WrappedSDTokenArgs = {
+  name: 'Wrapped stMETIS', // wrapped token name
+  symbol: 'wstMETIS', // wrapped token symbol
+}
+// METIS Staking Pool
+export const StakingPoolArgs = {
+  derivativeTokenName: 'Staked METIS', // METIS liquid staking token name
+  derivativeTokenSymbol: 'stMETIS', // METIS liquid staking token symbol
+  fees: [['0x23c4602e63ACfe29b930c530B19d44a84AF0d767', 300]], // fee receivers & percentage amounts in basis points
+}
+// Sequencer VCS
+export const SequencerVCSArgs = {
+  lockingInfo: '0x0fe382b74C3894B65c10E5C12ae60Bbd8FAf5b48', // address of Metis locking info contract
+  depositController: ethers.ZeroAddress, // address authorized to deposit queued tokens into vaults
+  sdlPoolFee: 600, // basis point fee to be paid to SDL pool
+  operatorRewardPercentage: 600, // basis point amount of an operator's earned rewards that they receive
+}
+// METIS Priority Pool
+export const PriorityPoolArgs = {
+  queueDepositMin: toEther(1000), // min amount of tokens neede to execute deposit
+  queueDepositMax: toEther(200000), // max amount of tokens in a single deposit tx
+}
+// PP Distribution Oracle
+export const DistributionOracleArgs = {
+  chainlinkOracle: '0x1152c76A0B3acC9856B1d8ee9EbDf2A2d0a01cC3', // address of Chainlink oracle contract
+  jobId: ethers.ZeroHash, // adapter job ID
+  fee: 0, // LINK fee for adpapter job
+  minTimeBetweenUpdates: 86400, // min time between updates in seconds
+  minDepositsSinceLastUpdate: toEther(15000), // min amount of deposits required to execute update
+  minBlockConfirmations: 75, // min number of block confirmations between initiating update and executing
+}
+
+// expected state of the METIS staking contracts after all scripts in this release have been run
+export const metisStakingConfig: ContractConfig[] = [
+  defineConfig<StakingPool>('METIS_StakingPool', {
+    owner: ref('Multisig'),
+    priorityPool: ref('METIS_PriorityPool'),
+    getStrategies: [ref('METIS_SequencerVCS')],
+    getFees: [...StakingPoolArgs.fees, [ref('stMETIS_SDLRewardsPool'), stMetisSDLPoolFee]],
+  }),
+  defineConfig<SequencerVCS>('METIS_SequencerVCS', {
+    owner: ref('Multisig'),
+    lockingInfo: SequencerVCSArgs.lockingInfo,
+    depositController: SequencerVCSArgs.depositController,
+    ccipController: ref('METIS_SequencerRewardsCCIPReceiver'),
+    operatorRewardPercentage: SequencerVCSArgs.operatorRewardPercentage,
+  }),
+  defineConfig<SequencerRewardsCCIPReceiver>('METIS_SequencerRewardsCCIPReceiver', {
+    owner: ref('Multisig'),
+    sequencerVCS: ref('METIS_SequencerVCS'),
+    stakingPool: ref('METIS_StakingPool'),
+  }),
+  defineConfig<PriorityPool>('METIS_PriorityPool', {
+    owner: ref('Multisig'),
+    stakingPool: ref('METIS_StakingPool'),
+    sdlPool: ref('SDLPool'),
+    distributionOracle: ref('METIS_PP_DistributionOracle'),
+    queueDepositMin: PriorityPoolArgs.queueDepositMin,
+    queueDepositMax: PriorityPoolArgs.queueDepositMax,
+  }),
+  defineConfig<DistributionOracle>('METIS_PP_DistributionOracle', {
+    owner: ref('Multisig'),
+    priorityPool: ref('METIS_PriorityPool'),
+    jobId: DistributionOracleArgs.jobId,
+    fee: DistributionOracleArgs.fee,
+    minTimeBetweenUpdates: DistributionOracleArgs.minTimeBetweenUpdates,
+    minDepositsSinceLastUpdate: DistributionOracleArgs.minDepositsSinceLastUpdate,
+    minBlockConfirmations: DistributionOracleArgs.minBlockConfirmations,
+  }),
+]
@@ -1,20 +1,49 @@
 import fs from 'fs'
-import { deployCore } from './modules/deploy-core'
-import { deployLINKStaking } from './modules/deploy-link-staking'
-import { deployMETISStaking } from './modules/deploy-metis-staking'
-import { deployTestContracts } from './modules/deploy-test-contracts'
+import { network } from 'hardhat'
+import { getArgs } from '../../utils/helpers'
+import { executeManifests } from '../../utils/manifest'
+import { testContractsManifest } from './manifests/test-contracts'
+import { coreManifest } from './manifests/core'
+import { linkStakingManifest } from './manifests/link-staking'
+import { metisStakingManifest } from './manifests/metis-staking'
 
-const path = './deployments/localhost.json'
+/*
+Deploys all contracts declared in the deployment manifests and runs their setup steps
+
+Contracts and steps that were already deployed/run on the network are skipped so an interrupted
+deployment can be resumed by running the script again
+
+Usage:
+npx hardhat run scripts/test/deploy/deploy.ts --network localhost
+ts-node --files scripts/test/deploy/deploy.ts --dry-run
+
+Flags:
+--reset: delete all recorded deployments for the network and deploy from scratch (test networks only)
+--dry-run: only log what would be deployed/run
+*/
+
+const productionNetworks = ['mainnet', 'metis']
 
 async function main() {
-  if (fs.existsSync(path)) {
-    fs.unlinkSync(path)
+  const args = getArgs()
+
+  if (args.reset) {
+    if (productionNetworks.includes(network.name)) {
+      throw Error(`Cannot reset deployments on ${network.name}`)
+    }
+    for (const path of [
+      `deployments/${network.name}.json`,
+      `deployments/${network.name}.manifest.json`,
+    ]) {
+      if (fs.existsSync(path)) fs.unlinkSync(path)
+    }
   }
 
-  await deployTestContracts()
-  await deployCore()
-  await deployLINKStaking()
-  await deployMETISStaking()
+  const { deployed, steps } = await executeManifests(
+    [testContractsManifest, coreManifest, linkStakingManifest, metisStakingManifest],
+    !!args['dry-run']
+  )
+  console.log(`Deployed ${deployed.length} contracts and ran ${steps.length} steps`)
 }
 
 main()
@@ -0,0 +1,87 @@
+import { LinearBoostController, SDLPoolPrimary } from '../../../../typechain-types'
+import { ContractConfig, defineConfig } from '../../../utils/config-check'
+import { Manifest, account, ref } from '../../../utils/manifest'
+
+// SDL Token
+const SDLTokenArgs = {
+  name: 'stake.link', // SDL token name
+  symbol: 'SDL', // SDL token symbol
+}
+// Linear Boost Controller
+const LinearBoostControllerArgs = {
+  minLockingDuration: 86400, // minimum locking duration
+  maxLockingDuration: 4 * 365 * 86400, // maximum locking duration
+  maxBoost: 8, // maximum boost amount
+}
+// SDL Pool Primary
+const SDLPoolPrimaryArgs = {
+  derivativeTokenName: 'Reward Escrowed SDL', // SDL staking derivative token name
+  derivativeTokenSymbol: 'reSDL', // SDL staking derivative token symbol
+}
+// Delegator Pool (deprecated)
+const DelegatorPoolArgs = {
+  derivativeTokenName: 'Staked SDL', // SDL staking derivative token name
+  derivativeTokenSymbol: 'stSDL', // SDL staking derivative token symbol
+}
+
+export const coreManifest: Manifest = {
+  contracts: [
+    {
+      name: 'SDLToken',
+      artifact: 'StakingAllowance',
+      args: [SDLTokenArgs.name, SDLTokenArgs.symbol],
+    },
+    {
+      name: 'LPLMigration',
+      artifact: 'LPLMigration',
+      args: [ref('LPLToken'), ref('SDLToken')],
+    },
+    {
+      name: 'DelegatorPool',
+      artifact: 'DelegatorPool',
+      type: 'upgradeable',
+      args: [
+        ref('SDLToken'),
+        DelegatorPoolArgs.derivativeTokenName,
+        DelegatorPoolArgs.derivativeTokenSymbol,
+        [],
+      ],
+    },
+    {
+      name: 'LinearBoostController',
+      artifact: 'LinearBoostController',
+      args: [
+        LinearBoostControllerArgs.minLockingDuration,
+        LinearBoostControllerArgs.maxLockingDuration,
+        LinearBoostControllerArgs.maxBoost,
+      ],
+    },
+    {
+      name: 'SDLPool',
+      artifact: 'SDLPoolPrimary',
+      type: 'upgradeable',
+      args: [
+        SDLPoolPrimaryArgs.derivativeTokenName,
+        SDLPoolPrimaryArgs.derivativeTokenSymbol,
+        ref('SDLToken'),
+        ref('LinearBoostController'),
+      ],
+    },
+  ],
+  steps: [{ contract: 'SDLPool', method: 'setDelegatorPool', args: [ref('DelegatorPool')] }],
+}
+
+export const coreConfig: ContractConfig[] = [
+  defineConfig<LinearBoostController>('LinearBoostController', {
+    owner: account(0),
+    minLockingDuration: LinearBoostControllerArgs.minLockingDuration,
+    maxLockingDuration: LinearBoostControllerArgs.maxLockingDuration,
+    maxBoost: LinearBoostControllerArgs.maxBoost,
+  }),
+  defineConfig<SDLPoolPrimary>('SDLPool', {
+    owner: account(0),
+    sdlToken: ref('SDLToken'),
+    boostController: ref('LinearBoostController'),
+    delegatorPool: ref('DelegatorPool'),
+  }),
+]
@@ -0,0 +1,339 @@
+import { ethers } from 'ethers'
+import {
+  CommunityVCS,
+  FundFlowController,
+  OperatorVCS,
+  PriorityPool,
+  StakingPool,
+} from '../../../../typechain-types'
+import { ContractConfig, defineConfig } from '../../../utils/config-check'
+import { toEther } from '../../../utils/helpers'
+import { Manifest, account, ref } from '../../../utils/manifest'
+import { testNetworks } from './test-contracts'
+
+// Wrapped stLINK
+const WrappedSDTokenArgs = {
+  name: 'Wrapped stLINK', // wrapped token name
+  symbol: 'wstLINK', // wrapped token symbol
+}
+// LINK Staking Pool
+const StakingPoolArgs = {
+  derivativeTokenName: 'Staked LINK', // LINK staking derivative token name
+  derivativeTokenSymbol: 'stLINK', // LINK staking derivative token symbol
+  fees: [], // fee receivers & percentage amounts in basis points
+  unusedDepositLimit: toEther(10000), // max number of tokens that can sit in the pool outside of a strategy
+}
+// LINK Priority Pool
+const PriorityPoolArgs = {
+  queueDepositMin: toEther(1000), // min amount of tokens neede to execute deposit
+  queueDepositMax: toEther(200000), // max amount of tokens in a single deposit tx
+}
+// LINK Withdrawal Pool
+const WithdrawalPoolArgs = {
+  minWithdrawalAmount: toEther(5), // min amount of LSTs that can be queued for withdrawal
+  minTimeBetweenWithdrawals: 86400, // min amount of time between execution of queued withdrawals
+}
+// Operator Vault Controller Strategy
+const OperatorVCSArgs = {
+  maxDepositSizeBP: 9000, //basis point amount of the remaing deposit room in the Chainlink staking contract that can be deposited at once
+  vaultMaxDeposits: toEther(75000), // max number of tokens that can be deposited into a vault
+  operatorRewardPercentage: 1000, // basis point amount of an operator's earned rewards that they receive
+  fees: [], // fee receivers & percentage amounts in basis points
+  numVaults: 3, // number of operator vaults to add
+}
+// Community Vault Controller Strategy
+const CommunityVCSArgs = {
+  maxDepositSizeBP: 9000, //basis point amount of the remaing deposit room in the Chainlink staking contract that can be deposited at once
+  vaultMaxDeposits: toEther(15000), // max number of tokens that can be deposited into a vault
+  vaultDeploymentThreshold: 10, // the min number of non-full vaults before a new batch is deployed
+  vaultDeploymentAmount: 10, // amount of vaults to deploy when threshold is met
+  fees: [], // fee receivers & percentage amounts in basis points
+}
+// Fund Flow Controller
+const FundFlowControllerArgs = {
+  unbondingPeriod: 28 * 86400, // unbonding period as set in Chainlink staking contract
+  claimPeriod: 7 * 86400, // claim period as set in Chainlink staking contract
+  numVaultGroups: 5, // total number of vault groups
+}
+
+// Chainlink staking pools the vault controller strategies stake into, mocks are deployed in their
+// place on test networks
+const ChainlinkStakingAddresses = {
+  operatorStakingPool: '0xA1d76A7cA72128541E9FCAcafBdA3a92EF94fDc5',
+  communityStakingPool: '0xBc10f2E862ED4502144c7d632a3459F49DFCDB5e',
+}
+
+// args for the local Chainlink staking mocks: depositMin, depositMax, maxPoolSize, unbondingPeriod, claimPeriod
+const stakingMockArgs = (depositMax: bigint) => [
+  toEther(1000),
+  depositMax,
+  toEther(10000000),
+  FundFlowControllerArgs.unbondingPeriod,
+  FundFlowControllerArgs.claimPeriod,
+]
+
+export const linkStakingManifest: Manifest = {
+  contracts: [
+    {
+      name: 'LINK_StakingPool',
+      artifact: 'StakingPool',
+      type: 'upgradeable',
+      args: [
+        ref('LINKToken'),
+        StakingPoolArgs.derivativeTokenName,
+        StakingPoolArgs.derivativeTokenSymbol,
+        StakingPoolArgs.fees,
+        StakingPoolArgs.unusedDepositLimit,
+      ],
+    },
+    {
+      name: 'LINK_PriorityPool',
+      artifact: 'PriorityPool',
+      type: 'upgradeable',
+      args: [
+        ref('LINKToken'),
+        ref('LINK_StakingPool'),
+        ref('SDLPool'),
+        PriorityPoolArgs.queueDepositMin,
+        PriorityPoolArgs.queueDepositMax,
+      ],
+    },
+    {
+      name: 'LINK_WithdrawalPool',
+      artifact: 'WithdrawalPool',
+      type: 'upgradeable',
+      args: [
+        ref('LINKToken'),
+        ref('LINK_StakingPool'),
+        ref('LINK_PriorityPool'),
+        WithdrawalPoolArgs.minWithdrawalAmount,
+        WithdrawalPoolArgs.minTimeBetweenWithdrawals,
+      ],
+    },
+    {
+      name: 'LINK_WrappedSDToken',
+      artifact: 'WrappedSDToken',
+      args: [ref('LINK_StakingPool'), WrappedSDTokenArgs.name, WrappedSDTokenArgs.symbol],
+    },
+    {
+      name: 'stLINK_SDLRewardsPool',
+      artifact: 'RewardsPoolWSD',
+      args: [ref('SDLPool'), ref('LINK_StakingPool'), ref('LINK_WrappedSDToken')],
+    },
+    {
+      name: 'LINK_OperatorStakingRewardsMock',
+      artifact: 'StakingRewardsMock',
+      args: [ref('LINKToken')],
+      networks: testNetworks,
+    },
+    {
+      name: 'LINK_OperatorStakingPool',
+      artifact: 'StakingMock',
+      args: [
+        ref('LINKToken'),
+        ref('LINK_OperatorStakingRewardsMock'),
+        ...stakingMockArgs(toEther(75000)),
+      ],
+      networks: testNetworks,
+    },
+    {
+      name: 'LINK_OperatorStakingPool',
+      artifact: 'IStaking',
+      addresses: { mainnet: ChainlinkStakingAddresses.operatorStakingPool },
+      networks: ['mainnet'],
+    },
+    {
+      name: 'LINK_PFAlertsControllerMock',
+      artifact: 'PFAlertsControllerMock',
+      args: [ref('LINKToken')],
+      networks: testNetworks,
+    },
+    {
+      name: 'LINK_CommunityStakingRewardsMock',
+      artifact: 'StakingRewardsMock',
+      args: [ref('LINKToken')],
+      networks: testNetworks,
+    },
+    {
+      name: 'LINK_CommunityStakingPool',
+      artifact: 'StakingMock',
+      args: [
+        ref('LINKToken'),
+        ref('LINK_CommunityStakingRewardsMock'),
+        ...stakingMockArgs(toEther(15000)),
+      ],
+      networks: testNetworks,
+    },
+    {
+      name: 'LINK_CommunityStakingPool',
+      artifact: 'IStaking',
+      addresses: { mainnet: ChainlinkStakingAddresses.communityStakingPool },
+      networks: ['mainnet'],
+    },
+    {
+      name: 'LINK_OperatorVaultImplementation',
+      artifact: 'OperatorVault',
+      type: 'implementation',
+    },
+    {
+      name: 'LINK_CommunityVaultImplementation',
+      artifact: 'CommunityVault',
+      type: 'implementation',
+    },
+    {
+      name: 'LINK_VaultDepositController',
+      artifact: 'VaultDepositController',
+    },
+    {
+      name: 'LINK_OperatorVCS',
+      artifact: 'OperatorVCS',
+      type: 'upgradeable',
+      unsafeAllow: ['delegatecall'],
+      args: [
+        ref('LINKToken'),
+        ref('LINK_StakingPool'),
+        ref('LINK_OperatorStakingPool'),
+        ref('LINK_OperatorVaultImplementation'),
+        OperatorVCSArgs.fees,
+        OperatorVCSArgs.maxDepositSizeBP,
+        OperatorVCSArgs.vaultMaxDeposits,
+        OperatorVCSArgs.operatorRewardPercentage,
+        ref('LINK_VaultDepositController'),
+      ],
+    },
+    {
+      name: 'LINK_CommunityVCS',
+      artifact: 'CommunityVCS',
+      type: 'upgradeable',
+      unsafeAllow: ['delegatecall'],
+      args: [
+        ref('LINKToken'),
+        ref('LINK_StakingPool'),
+        ref('LINK_CommunityStakingPool'),
+        ref('LINK_CommunityVaultImplementation'),
+        CommunityVCSArgs.fees,
+        CommunityVCSArgs.maxDepositSizeBP,
+        CommunityVCSArgs.vaultMaxDeposits,
+        CommunityVCSArgs.vaultDeploymentThreshold,
+        CommunityVCSArgs.vaultDeploymentAmount,
+        ref('LINK_VaultDepositController'),
+      ],
+    },
+    {
+      name: 'LINK_FundFlowController',
+      artifact: 'FundFlowController',
+      type: 'upgradeable',
+      args: [
+        ref('LINK_OperatorVCS'),
+        ref('LINK_CommunityVCS'),
+        FundFlowControllerArgs.unbondingPeriod,
+        FundFlowControllerArgs.claimPeriod,
+        FundFlowControllerArgs.numVaultGroups,
+      ],
+    },
+  ],
+  steps: [
+    {
+      contract: 'SDLPool',
+      method: 'addToken',
+      args: [ref('LINK_StakingPool'), ref('stLINK_SDLRewardsPool')],
+    },
+    { contract: 'LINK_StakingPool', method: 'setPriorityPool', args: [ref('LINK_PriorityPool')] },
+    {
+      contract: 'LINK_PriorityPool',
+      method: 'setWithdrawalPool',
+      args: [ref('LINK_WithdrawalPool')],
+    },
+    {
+      contract: 'LINK_PriorityPool',
+      method: 'setDistributionOracle',
+      args: [account(0)],
+      networks: testNetworks,
+    },
+    {
+      contract: 'LINKToken',
+      method: 'transfer',
+      args: [ref('LINK_OperatorStakingRewardsMock'), toEther(100000)],
+      networks: testNetworks,
+    },
+    {
+      contract: 'LINKToken',
+      method: 'transfer',
+      args: [ref('LINK_PFAlertsControllerMock'), toEther(10000)],
+      networks: testNetworks,
+    },
+    {
+      contract: 'LINKToken',
+      method: 'transfer',
+      args: [ref('LINK_CommunityStakingRewardsMock'), toEther(100000)],
+      networks: testNetworks,
+    },
+    { contract: 'LINK_StakingPool', method: 'addStrategy', args: [ref('LINK_OperatorVCS')] },
+    { contract: 'LINK_StakingPool', method: 'addStrategy', args: [ref('LINK_CommunityVCS')] },
+    ...[...Array(OperatorVCSArgs.numVaults).keys()].map((i) => ({
+      name: `LINK_OperatorVCS.addVault#${i}`,
+      contract: 'LINK_OperatorVCS',
+      method: 'addVault',
+      args: [ethers.ZeroAddress, account(0), ref('LINK_PFAlertsControllerMock')],
+      networks: testNetworks,
+    })),
+    {
+      contract: 'LINK_OperatorVCS',
+      method: 'setFundFlowController',
+      args: [ref('LINK_FundFlowController')],
+    },
+    {
+      contract: 'LINK_CommunityVCS',
+      method: 'setFundFlowController',
+      args: [ref('LINK_FundFlowController')],
+    },
+  ],
+}
+
+export const linkStakingConfig: ContractConfig[] = [
+  defineConfig<StakingPool>('LINK_StakingPool', {
+    owner: account(0),
+    priorityPool: ref('LINK_PriorityPool'),
+    getStrategies: [ref('LINK_OperatorVCS'), ref('LINK_CommunityVCS')],
+    getFees: StakingPoolArgs.fees,
+    unusedDepositLimit: StakingPoolArgs.unusedDepositLimit,
+  }),
+  defineConfig<PriorityPool>('LINK_PriorityPool', {
+    owner: account(0),
+    stakingPool: ref('LINK_StakingPool'),
+    sdlPool: ref('SDLPool'),
+    withdrawalPool: ref('LINK_WithdrawalPool'),
+    distributionOracle: account(0),
+    queueDepositMin: PriorityPoolArgs.queueDepositMin,
+    queueDepositMax: PriorityPoolArgs.queueDepositMax,
+  }),
+  defineConfig<OperatorVCS>('LINK_OperatorVCS', {
+    owner: account(0),
+    stakeController: ref('LINK_OperatorStakingPool'),
+    vaultImplementation: ref('LINK_OperatorVaultImplementation'),
+    fundFlowController: ref('LINK_FundFlowController'),
+    getFees: OperatorVCSArgs.fees,
+    maxDepositSizeBP: OperatorVCSArgs.maxDepositSizeBP,
+    vaultMaxDeposits: OperatorVCSArgs.vaultMaxDeposits,
+    operatorRewardPercentage: OperatorVCSArgs.operatorRewardPercentage,
+  }),
+  defineConfig<CommunityVCS>('LINK_CommunityVCS', {
+    owner: account(0),
+    stakeController: ref('LINK_CommunityStakingPool'),
+    vaultImplementation: ref('LINK_CommunityVaultImplementation'),
+    fundFlowController: ref('LINK_FundFlowController'),
+    getFees: CommunityVCSArgs.fees,
+    maxDepositSizeBP: CommunityVCSArgs.maxDepositSizeBP,
+    vaultMaxDeposits: CommunityVCSArgs.vaultMaxDeposits,
+    vaultDeploymentThreshold: CommunityVCSArgs.vaultDeploymentThreshold,
+    vaultDeploymentAmount: CommunityVCSArgs.vaultDeploymentAmount,
+  }),
+  defineConfig<FundFlowController>('LINK_FundFlowController', {
+    owner: account(0),
+    operatorVCS: ref('LINK_OperatorVCS'),
+    communityVCS: ref('LINK_CommunityVCS'),
+    unbondingPeriod: FundFlowControllerArgs.unbondingPeriod,
+    claimPeriod: FundFlowControllerArgs.claimPeriod,
+    numVaultGroups: FundFlowControllerArgs.numVaultGroups,
+  }),
+]
@@ -0,0 +1,151 @@
+import { PriorityPool, StakingPool } from '../../../../typechain-types'
+import { ContractConfig, defineConfig } from '../../../utils/config-check'
+import { toEther } from '../../../utils/helpers'
+import { Manifest, account, ref } from '../../../utils/manifest'
+import { testNetworks } from './test-contracts'
+
+// Wrapped stMETIS
+const WrappedSDTokenArgs = {
+  name: 'Wrapped stMETIS', // wrapped token name
+  symbol: 'wstMETIS', // wrapped token symbol
+}
+// METIS Staking Pool
+const StakingPoolArgs = {
+  derivativeTokenName: 'Staked METIS', // METIS liquid staking token name
+  derivativeTokenSymbol: 'stMETIS', // METIS liquid staking token symbol
+  fees: [], // fee receivers & percentage amounts in basis points
+  unusedDepositLimit: toEther(10000), // max number of tokens that can sit in the pool outside of a strategy
+}
+// METIS Priority Pool
+const PriorityPoolArgs = {
+  queueDepositMin: toEther(1000), // min amount of tokens neede to execute deposit
+  queueDepositMax: toEther(200000), // max amount of tokens in a single deposit tx
+}
+// METIS Withdrawal Pool
+const WithdrawalPoolArgs = {
+  minWithdrawalAmount: toEther(5), // min amount of LSTs that can be queued for withdrawal
+  minTimeBetweenWithdrawals: 86400, // min amount of time between execution of queued withdrawals
+}
+// stMETIS SDL Rewards Pool
+const SDLRewardsPoolArgs = {
+  feeBasisPoints: 1000, // basis point amount of rewards sent to SDL stakers
+}
+
+export const metisStakingManifest: Manifest = {
+  contracts: [
+    {
+      name: 'METISToken',
+      artifact: 'contracts/core/tokens/base/ERC677.sol:ERC677',
+      args: ['Metis', 'METIS', 1000000],
+      addresses: {
+        mainnet: '0x9E32b13ce7f2E80A01932B42553652E053D6ed8e',
+        metis: '0xDeadDeAddeAddEAddeadDEaDDEAdDeaDDeAD0000',
+      },
+    },
+    {
+      name: 'METIS_StakingPool',
+      artifact: 'StakingPool',
+      type: 'upgradeable',
+      args: [
+        ref('METISToken'),
+        StakingPoolArgs.derivativeTokenName,
+        StakingPoolArgs.derivativeTokenSymbol,
+        StakingPoolArgs.fees,
+        StakingPoolArgs.unusedDepositLimit,
+      ],
+    },
+    {
+      name: 'METIS_PriorityPool',
+      artifact: 'PriorityPool',
+      type: 'upgradeable',
+      args: [
+        ref('METISToken'),
+        ref('METIS_StakingPool'),
+        ref('SDLPool'),
+        PriorityPoolArgs.queueDepositMin,
+        PriorityPoolArgs.queueDepositMax,
+      ],
+    },
+    {
+      name: 'METIS_WithdrawalPool',
+      artifact: 'WithdrawalPool',
+      type: 'upgradeable',
+      args: [
+        ref('METISToken'),
+        ref('METIS_StakingPool'),
+        ref('METIS_PriorityPool'),
+        WithdrawalPoolArgs.minWithdrawalAmount,
+        WithdrawalPoolArgs.minTimeBetweenWithdrawals,
+      ],
+    },
+    {
+      name: 'METIS_WrappedSDToken',
+      artifact: 'WrappedSDToken',
+      args: [ref('METIS_StakingPool'), WrappedSDTokenArgs.name, WrappedSDTokenArgs.symbol],
+    },
+    {
+      name: 'stMETIS_SDLRewardsPool',
+      artifact: 'RewardsPoolWSD',
+      args: [ref('SDLPool'), ref('METIS_StakingPool'), ref('METIS_WrappedSDToken')],
+    },
+    {
+      name: 'METIS_SequencerVCS',
+      artifact: 'StrategyMock',
+      type: 'upgradeable',
+      args: [ref('METISToken'), ref('METIS_StakingPool'), toEther(1000), toEther(10)],
+      networks: testNetworks,
+    },
+  ],
+  steps: [
+    {
+      contract: 'METIS_StakingPool',
+      method: 'addFee',
+      args: [ref('stMETIS_SDLRewardsPool'), SDLRewardsPoolArgs.feeBasisPoints],
+    },
+    {
+      contract: 'SDLPool',
+      method: 'addToken',
+      args: [ref('METIS_StakingPool'), ref('stMETIS_SDLRewardsPool')],
+    },
+    { contract: 'METIS_StakingPool', method: 'setPriorityPool', args: [ref('METIS_PriorityPool')] },
+    {
+      contract: 'METIS_PriorityPool',
+      method: 'setWithdrawalPool',
+      args: [ref('METIS_WithdrawalPool')],
+    },
+    {
+      contract: 'METIS_PriorityPool',
+      method: 'setDistributionOracle',
+      args: [account(0)],
+      networks: testNetworks,
+    },
+    {
+      contract: 'METIS_StakingPool',
+      method: 'addStrategy',
+      args: [ref('METIS_SequencerVCS')],
+      networks: testNetworks,
+    },
+  ],
+}
+
+export const metisStakingConfig: ContractConfig[] = [
+  defineConfig<StakingPool>('METIS_StakingPool', {
+    owner: account(0),
+    priorityPool: ref('METIS_PriorityPool'),
+    getStrategies: [ref('METIS_SequencerVCS')],
+    getFees: [
+      ...StakingPoolArgs.fees,
+      [ref('stMETIS_SDLRewardsPool'), SDLRewardsPoolArgs.feeBasisPoints],
+    ],
+    unusedDepositLimit: StakingPoolArgs.unusedDepositLimit,
+  }),
+  defineConfig<PriorityPool>('METIS_PriorityPool', {
+    owner: account(0),
+    stakingPool: ref('METIS_StakingPool'),
+    sdlPool: ref('SDLPool'),
+    withdrawalPool: ref('METIS_WithdrawalPool'),
+    distributionOracle: account(0),
+    queueDepositMin: PriorityPoolArgs.queueDepositMin,
+    queueDepositMax: PriorityPoolArgs.queueDepositMax,
+  }),
+]
@@ -0,0 +1,52 @@
+import { Manifest, ref } from '../../../utils/manifest'
+
+// networks that mock and deprecated test contracts are deployed on
+export const testNetworks = ['localhost', 'hardhat', 'testnet', 'sepolia']
+
+export const testContractsManifest: Manifest = {
+  contracts: [
+    {
+      name: 'LPLToken',
+      artifact: 'contracts/core/tokens/base/ERC677.sol:ERC677',
+      args: ['LinkPool', 'LPL', 100000000],
+      addresses: { mainnet: '0x99295f1141d58a99e939f7be6bbe734916a875b8' },
+    },
+    {
+      name: 'LINKToken',
+      artifact: 'contracts/core/tokens/base/ERC677.sol:ERC677',
+      args: ['Chainlink', 'LINK', 1000000000],
+      addresses: { mainnet: '0x514910771af9ca656af840dff83e8264ecf986ca' },
+    },
+    {
+      name: 'Multicall3',
+      artifact: 'Multicall3',
+      networks: testNetworks,
+    },
+    {
+      name: 'PoolOwnersV1',
+      artifact: 'PoolOwnersV1',
+      args: [ref('LPLToken')],
+      networks: testNetworks,
+    },
+    {
+      name: 'LINK_OwnersRewardsPoolV1',
+      artifact: 'OwnersRewardsPoolV1',
+      args: [ref('PoolOwnersV1'), ref('LINKToken'), 'LinkPool Owners LINK', 'lpoLINK'],
+      networks: testNetworks,
+    },
+    {
+      name: 'PoolAllowanceV1',
+      artifact: 'PoolAllowanceV1',
+      args: ['LINK LinkPool Allowance', 'linkLPLA', ref('PoolOwnersV1')],
+      networks: testNetworks,
+    },
+  ],
+  steps: [
+    {
+      contract: 'PoolOwnersV1',
+      method: 'addRewardToken',
+      args: [ref('LINKToken'), ref('PoolAllowanceV1'), ref('LINK_OwnersRewardsPoolV1')],
+      networks: testNetworks,
+    },
+  ],
+}
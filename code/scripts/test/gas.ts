@@ -1,35 +1,72 @@
 import { ethers } from 'hardhat'
 import {
+  CommunityVCS,
   ERC677,
+  FundFlowController,
+  OperatorVCS,
   PriorityPool,
+  SDLPoolMock,
   StakingMock,
   StakingPool,
   StakingRewardsMock,
+  WithdrawalPool,
 } from '../../typechain-types'
 import { deploy, deployUpgradeable, deployImplementation } from '../utils/deployment'
-import { getAccounts, toEther } from '../utils/helpers'
+import { getAccounts, getArgs, toEther } from '../utils/helpers'
+import { createDataPlanner, estimateDepositGas } from '../utils/strategy-data'
+
+/*
+Estimates gas for PriorityPool.depositQueuedTokens using deposit data built by the strategy data planner
+
+Usage:
+npx hardhat run scripts/test/gas.ts
+ts-node --files scripts/test/gas.ts --amounts 100000,150000,200000
+*/
 
 // LINK Staking Pool
 const LINK_StakingPool = {
   derivativeTokenName: 'Staked LINK', // LINK staking derivative token name
   derivativeTokenSymbol: 'stLINK', // LINK staking derivative token symbol
   fees: [['0x6879826450e576B401c4dDeff2B7755B1e85d97c', 300]], // fee receivers & percentage amounts in basis points
+  unusedDepositLimit: toEther(10000), // max number of tokens that can sit in the pool outside of a strategy
 }
 // LINK Priority Pool
 const LINK_PriorityPool = {
   queueDepositMin: toEther(1000), // min amount of tokens neede to execute deposit
   queueDepositMax: toEther(200000), // max amount of tokens in a single deposit tx
 }
+// LINK Withdrawal Pool
+const LINK_WithdrawalPool = {
+  minWithdrawalAmount: toEther(5), // minimum withdrawal amount
+  minTimeBetweenWithdrawals: 86400, // min amount of time between execution of withdrawals
+}
+// LINK Operator VCS
+const LINK_OperatorVCS = {
+  fees: [], // fee receivers & percentage amounts in basis points
+  maxDepositSizeBP: 9000, // basis point amount of the remaing deposit room in the Chainlink staking contract that can be deposited at once
+  vaultMaxDeposits: toEther(10000), // max number of tokens that can be deposited into a vault
+  operatorRewardPercentage: 1000, // basis point amount of an operator's earned rewards that they receive
+  numVaults: 5, // number of operator vaults to add
+}
 // LINK Community VCS
 const LINK_CommunityVCS = {
   fees: [], // fee receivers & percentage amounts in basis points
   maxDepositSizeBP: 9000, // basis point amount of the remaing deposit room in the Chainlink staking contract that can be deposited at once
+  vaultMaxDeposits: toEther(10000), // max number of tokens that can be deposited into a vault
   vaultDeploymentThreshold: 10, // the min number of non-full vaults before a new batch is deployed
   vaultDeploymentAmount: 20, // amount of vaults to deploy when threshold is met
 }
+// LINK Fund Flow Controller
+const LINK_FundFlowController = {
+  unbondingPeriod: 28 * 86400, // unbonding period as set in Chainlink staking contract
+  claimPeriod: 7 * 86400, // claim period as set in Chainlink staking contract
+  numVaultGroups: 5, // total number of vault groups
+}
 
 async function main() {
   const { accounts } = await getAccounts()
+  const args = getArgs()
+  const amounts = (args.amounts || '100000,150000,200000').split(',').map((a) => toEther(a))
 
   const linkToken = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
     'Chainlink',
@@ -42,17 +79,36 @@ async function main() {
     LINK_StakingPool.derivativeTokenName,
     LINK_StakingPool.derivativeTokenSymbol,
     LINK_StakingPool.fees,
+    LINK_StakingPool.unusedDepositLimit,
   ])) as StakingPool
 
+  const sdlPool = (await deploy('SDLPoolMock')) as SDLPoolMock
+
   const priorityPool = (await deployUpgradeable('PriorityPool', [
     linkToken.target,
     stakingPool.target,
-    accounts[0],
+    sdlPool.target,
     LINK_PriorityPool.queueDepositMin,
     LINK_PriorityPool.queueDepositMax,
   ])) as PriorityPool
 
+  const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+    linkToken.target,
+    stakingPool.target,
+    priorityPool.target,
+    LINK_WithdrawalPool.minWithdrawalAmount,
+    LINK_WithdrawalPool.minTimeBetweenWithdrawals,
+  ])) as WithdrawalPool
+
   await stakingPool.setPriorityPool(priorityPool.target)
+  await priorityPool.setWithdrawalPool(withdrawalPool.target)
+
+  // tokens are queued before any strategies are added so there are queued tokens to deposit
+  await linkToken.transferAndCall(
+    priorityPool.target,
+    toEther(1000000),
+    ethers.AbiCoder.defaultAbiCoder().encode(['bool', 'bytes[]'], [true, []])
+  )
 
   const rewardsController = (await deploy('StakingRewardsMock', [
     linkToken.target,
@@ -63,42 +119,77 @@ async function main() {
     toEther(10),
     toEther(10000),
     toEther(1000000),
+    LINK_FundFlowController.unbondingPeriod,
+    LINK_FundFlowController.claimPeriod,
   ])) as StakingMock
 
-  const vaultImpAddress = await deployImplementation('CommunityVault')
+  const vaultDepositController = await deploy('VaultDepositController')
 
-  const communityVCS = await deployUpgradeable('CommunityVCS', [
-    linkToken.target,
-    stakingPool.target,
-    stakingController.target,
-    vaultImpAddress,
-    LINK_CommunityVCS.fees,
-    LINK_CommunityVCS.maxDepositSizeBP,
-    LINK_CommunityVCS.vaultDeploymentThreshold,
-    LINK_CommunityVCS.vaultDeploymentAmount,
-  ])
+  // vault controller strategies deploy vaults using delegatecall
+  const operatorVCS = (await deployUpgradeable(
+    'OperatorVCS',
+    [
+      linkToken.target,
+      stakingPool.target,
+      stakingController.target,
+      await deployImplementation('OperatorVault'),
+      LINK_OperatorVCS.fees,
+      LINK_OperatorVCS.maxDepositSizeBP,
+      LINK_OperatorVCS.vaultMaxDeposits,
+      LINK_OperatorVCS.operatorRewardPercentage,
+      vaultDepositController.target,
+    ],
+    false,
+    { unsafeAllow: ['delegatecall'] }
+  )) as OperatorVCS
 
-  await linkToken.transferAndCall(
-    priorityPool.target,
-    toEther(1000000),
-    ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
-  )
+  const communityVCS = (await deployUpgradeable(
+    'CommunityVCS',
+    [
+      linkToken.target,
+      stakingPool.target,
+      stakingController.target,
+      await deployImplementation('CommunityVault'),
+      LINK_CommunityVCS.fees,
+      LINK_CommunityVCS.maxDepositSizeBP,
+      LINK_CommunityVCS.vaultMaxDeposits,
+      LINK_CommunityVCS.vaultDeploymentThreshold,
+      LINK_CommunityVCS.vaultDeploymentAmount,
+      vaultDepositController.target,
+    ],
+    false,
+    { unsafeAllow: ['delegatecall'] }
+  )) as CommunityVCS
+
+  const fundFlowController = (await deployUpgradeable('FundFlowController', [
+    operatorVCS.target,
+    communityVCS.target,
+    LINK_FundFlowController.unbondingPeriod,
+    LINK_FundFlowController.claimPeriod,
+    LINK_FundFlowController.numVaultGroups,
+  ])) as FundFlowController
+
+  for (let i = 0; i < LINK_OperatorVCS.numVaults; i++) {
+    await operatorVCS.addVault(accounts[0], accounts[0], accounts[0])
+  }
+  await operatorVCS.setFundFlowController(fundFlowController.target)
+  await communityVCS.setFundFlowController(fundFlowController.target)
+  await stakingPool.addStrategy(operatorVCS.target)
   await stakingPool.addStrategy(communityVCS.target)
 
+  const planner = createDataPlanner(stakingPool, fundFlowController)
+
   console.log('Testing PriorityPool.depositQueuedTokens:')
 
-  console.log(
-    '10 vaults: ',
-    Number(await priorityPool.depositQueuedTokens.estimateGas(0, toEther(100000)))
-  )
-  console.log(
-    '15 vaults: ',
-    Number(await priorityPool.depositQueuedTokens.estimateGas(0, toEther(150000)))
-  )
-  console.log(
-    '20 vaults: ',
-    Number(await priorityPool.depositQueuedTokens.estimateGas(0, toEther(200000)))
-  )
+  for (const amount of amounts) {
+    const plan = await planner.planDeposit(amount)
+    const vaults = plan.strategies.map((strategy) => strategy.vaults?.length || 0)
+
+    console.log(
+      `${ethers.formatEther(amount)} LINK (${vaults.join(' + ')} vaults): `,
+      Number(await estimateDepositGas(priorityPool, plan))
+    )
+  }
 }
 
 main()
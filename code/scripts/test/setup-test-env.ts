@@ -6,6 +6,10 @@ import {
   updateDeployments,
   printDeployments,
 } from '../utils/deployment'
+import { buildDistributionFromPool } from '../utils/distribution'
+import { getClaimArgs, getDistributionProof, getUnqueueArgs } from '../utils/distribution-proofs'
+import { createLocalIPFS } from '../utils/ipfs'
+import { createDataPlanner } from '../utils/strategy-data'
 import {
   LPLMigration,
   StakingAllowance,
@@ -26,41 +30,28 @@ Accounts:
 1 - holds no tokens
 2 - holds SDL/LPL/LINK/METIS + has staked LPL + has PoolOwners LINK rewards
 3 - holds SDL/LPL/LINK/METIS + stSDL/stLINK + has DelegatorPool stLINK rewards 
-4 - holds SDL/LPL/LINK/METIS + stLINK + has queued LINK + has withdrawable stLINK in the queue
-5 - holds SDL/LPL/LINK/METIS + reSDL + has queued LINK + has SDLPool stLINK rewards
+4 - holds SDL/LPL/LINK/METIS + stLINK + has queued LINK + has a partially finalized queued withdrawal
+5 - holds SDL/LPL/LINK/METIS + reSDL + has queued LINK + has SDLPool stLINK rewards + has claimed stLINK from the queue
 6 - holds SDL/LPL/LINK/METIS + reSDL (locked) + has queued LINK + has withdrawable stLINK in the queue 
 7 - holds SDL/LPL/LINK/METIS + has queued LINK 
 8 - holds SDL/LPL/LINK/METIS + stLINK + has queued LINK + cannot withdraw full queued LINK amount 
 */
 
 /*
-Staking Queue IPFS mock data
-CID: QmV1N49KT7at9LpNxyyPnCNBLEztMFHvLXoHpdPRoUzGgz
-data:
-{
-  "merkleRoot": "0x52171b32a0a6c33f6756c5c33673790b66945c4f1c4ec4a81932e60b06b5a321",
-  "data": {
-    "0x0000000000000000000000000000000000000000": {
-      "amount": "0",
-      "sharesAmount": "0"
-    },
-    "0x555f27995D7BB56c989d7C1cA4e5e03e930ecA67": {
-      "amount": "50000000000000000000",
-      "sharesAmount": "25000000000000000000"
-    },
-    "0xccc41e903D40e13bC87eE29413219d33a1161f72": {
-      "amount": "0",
-      "sharesAmount": "0"
-    },
-    "0x65079BB3f085240f1AFCBb3E4188afE93c194b84": {
-      "amount": "150000000000000000000",
-      "sharesAmount": "75000000000000000000"
-    }
-  }
-}
+Staking Queue IPFS data
+Distribution trees are built from chain state and published to the local IPFS store (.ipfs)
 */
 
-async function main() {
+// PriorityPool deposit data for a single strategy
+const depositData = (shouldQueue: boolean) =>
+  ethers.AbiCoder.defaultAbiCoder().encode(['bool', 'bytes[]'], [shouldQueue, ['0x']])
+
+/**
+ * Populates the contracts deployed by scripts/test/deploy/deploy.ts with the account state
+ * described above
+ * @param ipfs local IPFS store distribution trees are published to
+ */
+export const setupTestEnv = async (ipfs = createLocalIPFS()) => {
   const { signers, accounts } = await getAccounts()
   const sdlToken = (await getContract('SDLToken')) as StakingAllowance
   const lplMigration = (await getContract('LPLMigration')) as LPLMigration
@@ -91,8 +82,8 @@ async function main() {
 
   // LINK Staking
 
-  await (await LINK_StakingPool.removeStrategy(0, '0x')).wait()
-  await (await LINK_StakingPool.removeStrategy(0, '0x')).wait()
+  await (await LINK_StakingPool.removeStrategy(0, '0x', '0x')).wait()
+  await (await LINK_StakingPool.removeStrategy(0, '0x', '0x')).wait()
 
   const strategyMockLINK = (await deployUpgradeable('StrategyMock', [
     linkToken.target,
@@ -146,13 +137,9 @@ async function main() {
     await tx.wait()
   }
 
-  tx = await linkToken.transferAndCall(
-    LINK_PriorityPool.target,
-    toEther(500),
-    ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [false])
-  )
+  tx = await linkToken.transferAndCall(LINK_PriorityPool.target, toEther(500), depositData(false))
   await (await METISToken.approve(METIS_PriorityPool.target, ethers.MaxUint256)).wait()
-  await (await METIS_PriorityPool.deposit(toEther(500), false)).wait()
+  await (await METIS_PriorityPool.deposit(toEther(500), false, ['0x'])).wait()
 
   // Account 2
 
@@ -199,16 +186,12 @@ async function main() {
 
   tx = await linkToken
     .connect(signers[3])
-    .transferAndCall(
-      LINK_PriorityPool.target,
-      toEther(100),
-      ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [false])
-    )
+    .transferAndCall(LINK_PriorityPool.target, toEther(100), depositData(false))
   await tx.wait()
   await (
     await METISToken.connect(signers[3]).approve(METIS_PriorityPool.target, ethers.MaxUint256)
   ).wait()
-  await (await METIS_PriorityPool.connect(signers[3]).deposit(toEther(100), false)).wait()
+  await (await METIS_PriorityPool.connect(signers[3]).deposit(toEther(100), false, ['0x'])).wait()
 
   await tx.wait()
   tx = await LINK_StakingPool.transferAndCall(delegatorPool.target, toEther(100), '0x')
@@ -220,16 +203,12 @@ async function main() {
 
   tx = await linkToken
     .connect(signers[4])
-    .transferAndCall(
-      LINK_PriorityPool.target,
-      toEther(500),
-      ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
-    )
+    .transferAndCall(LINK_PriorityPool.target, toEther(500), depositData(true))
   await tx.wait()
   await (
     await METISToken.connect(signers[4]).approve(METIS_PriorityPool.target, ethers.MaxUint256)
   ).wait()
-  await (await METIS_PriorityPool.connect(signers[4]).deposit(toEther(500), true)).wait()
+  await (await METIS_PriorityPool.connect(signers[4]).deposit(toEther(500), true, ['0x'])).wait()
 
   // Account 5
 
@@ -244,15 +223,11 @@ async function main() {
 
   tx = await linkToken
     .connect(signers[5])
-    .transferAndCall(
-      LINK_PriorityPool.target,
-      toEther(200),
-      ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
-    )
+    .transferAndCall(LINK_PriorityPool.target, toEther(200), depositData(true))
   await (
     await METISToken.connect(signers[5]).approve(METIS_PriorityPool.target, ethers.MaxUint256)
   ).wait()
-  await (await METIS_PriorityPool.connect(signers[5]).deposit(toEther(200), true)).wait()
+  await (await METIS_PriorityPool.connect(signers[5]).deposit(toEther(200), true, ['0x'])).wait()
 
   // Account 6
 
@@ -266,16 +241,12 @@ async function main() {
   await tx.wait()
   tx = await linkToken
     .connect(signers[6])
-    .transferAndCall(
-      LINK_PriorityPool.target,
-      toEther(300),
-      ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
-    )
+    .transferAndCall(LINK_PriorityPool.target, toEther(300), depositData(true))
   await tx.wait()
   await (
     await METISToken.connect(signers[6]).approve(METIS_PriorityPool.target, ethers.MaxUint256)
   ).wait()
-  await (await METIS_PriorityPool.connect(signers[6]).deposit(toEther(300), true)).wait()
+  await (await METIS_PriorityPool.connect(signers[6]).deposit(toEther(300), true, ['0x'])).wait()
 
   // Reward Distributions
 
@@ -314,32 +285,38 @@ async function main() {
   tx = await strategyMockLINK.setMaxDeposits(toEther(2200))
   await tx.wait()
 
-  tx = await LINK_PriorityPool.depositQueuedTokens(toEther(0), toEther(10000))
+  const linkPlanner = createDataPlanner(LINK_StakingPool)
+  let depositPlan = await linkPlanner.planDeposit(toEther(10000))
+  tx = await LINK_PriorityPool.depositQueuedTokens(toEther(0), toEther(10000), depositPlan.data)
   await tx.wait()
 
   tx = await LINK_PriorityPool.pauseForUpdate()
   await tx.wait()
+  const linkDistribution = await buildDistributionFromPool(LINK_PriorityPool)
   tx = await LINK_PriorityPool.updateDistribution(
-    '0x52171b32a0a6c33f6756c5c33673790b66945c4f1c4ec4a81932e60b06b5a321',
-    '0x6310F1189600F807FAC771D10706B6665628B99797054447F58F4C8A05971B83',
-    toEther(200),
-    toEther(100)
+    linkDistribution.distribution.merkleRoot,
+    ipfs.publishJSON(linkDistribution.distribution).hash,
+    linkDistribution.amountDistributed,
+    linkDistribution.sharesAmountDistributed
   )
   await tx.wait()
 
   tx = await strategyMockMETIS.setMaxDeposits(toEther(2200))
   await tx.wait()
 
-  tx = await METIS_PriorityPool.depositQueuedTokens(toEther(0), toEther(10000))
+  const metisPlanner = createDataPlanner(METIS_StakingPool)
+  depositPlan = await metisPlanner.planDeposit(toEther(10000))
+  tx = await METIS_PriorityPool.depositQueuedTokens(toEther(0), toEther(10000), depositPlan.data)
   await tx.wait()
 
   tx = await METIS_PriorityPool.pauseForUpdate()
   await tx.wait()
+  const metisDistribution = await buildDistributionFromPool(METIS_PriorityPool)
   tx = await METIS_PriorityPool.updateDistribution(
-    '0x52171b32a0a6c33f6756c5c33673790b66945c4f1c4ec4a81932e60b06b5a321',
-    '0x6310F1189600F807FAC771D10706B6665628B99797054447F58F4C8A05971B83',
-    toEther(200),
-    toEther(100)
+    metisDistribution.distribution.merkleRoot,
+    ipfs.publishJSON(metisDistribution.distribution).hash,
+    metisDistribution.amountDistributed,
+    metisDistribution.sharesAmountDistributed
   )
   await tx.wait()
 
@@ -347,11 +324,7 @@ async function main() {
 
   tx = await linkToken
     .connect(signers[7])
-    .transferAndCall(
-      LINK_PriorityPool.target,
-      toEther(100),
-      ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
-    )
+    .transferAndCall(LINK_PriorityPool.target, toEther(100), depositData(true))
   await tx.wait()
 
   // Account 8
@@ -360,16 +333,40 @@ async function main() {
   await tx.wait()
   tx = await linkToken
     .connect(signers[8])
-    .transferAndCall(
-      LINK_PriorityPool.target,
-      toEther(5000),
-      ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
-    )
+    .transferAndCall(LINK_PriorityPool.target, toEther(5000), depositData(true))
   await tx.wait()
 
   tx = await strategyMockLINK.setMaxDeposits(toEther(6200))
   await tx.wait()
-  tx = await LINK_PriorityPool.depositQueuedTokens(toEther(0), toEther(100000))
+  depositPlan = await linkPlanner.planDeposit(toEther(100000))
+  tx = await LINK_PriorityPool.depositQueuedTokens(toEther(0), toEther(100000), depositPlan.data)
+  await tx.wait()
+
+  // Withdrawals
+
+  tx = await LINK_PriorityPool.connect(signers[5]).claimLSDTokens(
+    ...getClaimArgs(getDistributionProof(linkDistribution.distribution, accounts[5]))
+  )
+  await tx.wait()
+  tx = await LINK_PriorityPool.connect(signers[8]).unqueueTokens(
+    ...getUnqueueArgs(
+      getDistributionProof(linkDistribution.distribution, accounts[8]),
+      toEther(1000)
+    )
+  )
+  await tx.wait()
+
+  // account 4 withdraws more stLINK than is queued so the rest is queued in the withdrawal pool
+  tx = await LINK_StakingPool.connect(signers[4]).transferAndCall(
+    LINK_PriorityPool.target,
+    toEther(800),
+    depositData(true)
+  )
+  await tx.wait()
+  // deposits into the priority pool finalize queued withdrawals first
+  tx = await linkToken
+    .connect(signers[9])
+    .transferAndCall(LINK_PriorityPool.target, toEther(100), depositData(true))
   await tx.wait()
 
   const vestingStart = 1695312000 // Sep 21 2023 12pm EDT
@@ -391,15 +388,20 @@ async function main() {
       SDL_Vesting_NOP1: 'Vesting',
     }
   )
+}
 
+async function main() {
+  await setupTestEnv()
   printDeployments()
 
   console.log('setup-test-env-ready')
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error)
-    process.exit(1)
-  })
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error)
+      process.exit(1)
+    })
+}
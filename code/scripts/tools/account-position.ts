@@ -0,0 +1,73 @@
+import fse from 'fs-extra'
+import { config, ethers, network } from 'hardhat'
+import { HttpNetworkConfig } from 'hardhat/types'
+import { getAccountPosition, PositionChain } from '../utils/account-position'
+import { getDeployments } from '../utils/deployment'
+import { DistributionData } from '../utils/distribution'
+import { getArgs } from '../utils/helpers'
+import { createLocalIPFS } from '../utils/ipfs'
+
+/*
+Prints the position of an account across stLINK/stMETIS, priority pool queues, withdrawal pools,
+reSDL locks and rewards pool controllers, every field includes the contract and block it was read from
+
+Usage:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/account-position.ts --account 0x...
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/account-position.ts --account 0x... --networks mainnet,metis
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/account-position.ts --account 0x... --distribution LINK_PriorityPool=tree.json
+
+--account       account address
+--networks      comma separated list of networks to combine (default: current network)
+--distribution  comma separated list of <priority pool>=<distribution file> used for queued/claimable amounts
+                (default: latest distribution in the local IPFS store)
+--ipfs          directory of the local IPFS store distributions are read from (default: .ipfs)
+--block         block to read state at on the current network (default: latest)
+--out           file to write position to (default: print to console)
+*/
+
+async function main() {
+  const args = getArgs()
+  if (!args.account || !ethers.isAddress(args.account)) throw Error('--account is required')
+
+  const distributions: { [priorityPool: string]: DistributionData } = {}
+  for (const entry of (args.distribution || '').split(',').filter((e: string) => e.length)) {
+    const [name, file] = entry.split('=')
+    distributions[name] = fse.readJSONSync(file)
+  }
+
+  const chains: PositionChain[] = (args.networks || network.name)
+    .split(',')
+    .map((name: string) => ({
+      network: name,
+      provider:
+        name == network.name
+          ? ethers.provider
+          : new ethers.JsonRpcProvider((config.networks[name] as HttpNetworkConfig).url),
+      deployments: getDeployments(name),
+      distributions,
+      ipfs: createLocalIPFS(args.ipfs),
+      blockTag: name == network.name && args.block ? Number(args.block) : undefined,
+    }))
+
+  const position = await getAccountPosition(args.account, chains)
+  const json = JSON.stringify(
+    position,
+    // unavailable values are printed as null so they are not dropped from the output
+    (_, value) => (typeof value == 'bigint' ? value.toString() : value ?? null),
+    2
+  )
+
+  if (args.out) {
+    fse.outputFileSync(args.out, json)
+    console.log(`Position written to ${args.out}`)
+  } else {
+    console.log(json)
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,73 @@
+import fse from 'fs-extra'
+import { getDeployments } from '../utils/deployment'
+import { getArgs } from '../utils/helpers'
+import { auditOwnership } from '../utils/ownership-audit'
+
+/*
+Reports who controls every contract in deployments/<network>.json: owners, pending owners,
+privileged addresses (rebaseController, distributionOracle, depositController, ccipController,
+updateInitiator, transferInitiator), multisig signers and GovernanceController roles
+
+Contracts still controlled by an EOA are flagged and the script exits with a non-zero code
+
+Usage:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/audit-ownership.ts
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/audit-ownership.ts --json > ownership.json
+
+--multisig  address expected to own all contracts (default: SAFE_ADDRESS or Multisig deployment)
+--block     block to read state at (default: latest)
+--json      print the report as JSON instead of tables
+--out       path to write the JSON report to
+*/
+
+async function main() {
+  const args = getArgs()
+  const deployments = getDeployments()
+
+  const report = await auditOwnership(
+    deployments,
+    args.multisig || process.env.SAFE_ADDRESS || deployments.Multisig?.address,
+    args.block ? Number(args.block) : 'latest'
+  )
+
+  if (args.out) fse.outputJSONSync(args.out, report, { spaces: 2 })
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    console.log(`Ownership of ${report.network} contracts at block ${report.blockNumber}`)
+    console.table(
+      report.entries.map(({ contract, role, holder, holderName, holderType }) => ({
+        contract,
+        role,
+        holder: holderName ? `${holderName} (${holder})` : holder,
+        type: holderType,
+      }))
+    )
+    if (report.roles.length) {
+      console.table(
+        report.roles.map(({ controller, name, members, functions }) => ({
+          controller,
+          role: name,
+          members: members.join(', '),
+          functions: functions.length,
+        }))
+      )
+    }
+    if (report.findings.length) {
+      console.log('Findings:')
+      console.table(report.findings)
+    } else {
+      console.log('No findings')
+    }
+  }
+
+  if (report.findings.length) process.exitCode = 1
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
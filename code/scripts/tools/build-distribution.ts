@@ -0,0 +1,73 @@
+import fse from 'fs-extra'
+import { ethers } from 'hardhat'
+import { PriorityPool } from '../../typechain-types'
+import { getContract } from '../utils/deployment'
+import { buildDistributionFromPool, DistributionData } from '../utils/distribution'
+import { fromEther, getArgs } from '../utils/helpers'
+import { createLocalIPFS } from '../utils/ipfs'
+
+/*
+Builds the next distribution tree for a priority pool
+
+Usage:
+ts-node --files scripts/tools/build-distribution.ts --pool LINK_PriorityPool --previous prev.json --out next.json
+
+--pool      deployment name of the priority pool (default: LINK_PriorityPool)
+--previous  path, CID or bytes32 hash of the latest distribution (default: the pool's current
+            ipfsHash resolved from the local IPFS store, if present)
+--out       path to write the new distribution to (default: prints to console)
+--publish   publish the new distribution to the local IPFS store
+--ipfs      directory of the local IPFS store (default: .ipfs)
+*/
+
+async function main() {
+  const args = getArgs()
+  const priorityPool = (await getContract(args.pool || 'LINK_PriorityPool')) as PriorityPool
+
+  const ipfs = createLocalIPFS(args.ipfs)
+  const ipfsHash = await priorityPool.ipfsHash()
+
+  let previous: DistributionData | undefined
+  if (args.previous && fse.existsSync(args.previous)) {
+    previous = fse.readJSONSync(args.previous)
+  } else if (args.previous) {
+    previous = ipfs.resolveJSON(args.previous)
+  } else if (ipfsHash != ethers.ZeroHash && ipfs.has(ipfsHash)) {
+    previous = ipfs.resolveJSON(ipfsHash)
+  }
+
+  if (previous && previous.merkleRoot != (await priorityPool.merkleRoot())) {
+    console.log('Warning: previous distribution does not match the current on-chain merkle root')
+  }
+
+  const { distribution, amountDistributed, sharesAmountDistributed } =
+    await buildDistributionFromPool(priorityPool, previous)
+
+  if (args.out) {
+    fse.outputJSONSync(args.out, distribution, { spaces: 2 })
+    console.log(`Distribution written to ${args.out}`)
+  } else {
+    console.log(JSON.stringify(distribution, null, 2))
+  }
+
+  if (args.publish) {
+    const { cid, hash } = ipfs.publishJSON(distribution)
+    console.log('CID: ', cid)
+    console.log('ipfsHash: ', hash)
+  }
+
+  console.log('merkleRoot: ', distribution.merkleRoot)
+  console.log('amountDistributed: ', amountDistributed.toString(), fromEther(amountDistributed))
+  console.log(
+    'sharesAmountDistributed: ',
+    sharesAmountDistributed.toString(),
+    fromEther(sharesAmountDistributed)
+  )
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,73 @@
+import fse from 'fs-extra'
+import { network } from 'hardhat'
+import { checkConfig, ContractConfig } from '../utils/config-check'
+import { getArgs } from '../utils/helpers'
+import { coreConfig } from '../test/deploy/manifests/core'
+import { linkStakingConfig } from '../test/deploy/manifests/link-staking'
+import { metisStakingConfig as localMetisStakingConfig } from '../test/deploy/manifests/metis-staking'
+import { metisStakingConfig } from '../prod/1.0.0-metis-staking/config'
+
+/*
+Reads the live configuration of deployed contracts through their getters and prints a diff against
+the declared configuration (fees, owners, linked addresses and limits)
+
+Exits with a non-zero code if any value has drifted
+
+Usage:
+check a local node seeded by deploy.ts:
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/check-config.ts
+check mainnet:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/check-config.ts --config metis-staking --all
+
+--config  comma separated list of configs to check (default: all configs declared for the network)
+--all     print matching values as well as drifted values
+--block   block to read state at (default: latest)
+--out     path to write the JSON report to
+*/
+
+// declared configs by name
+const configs: { [name: string]: ContractConfig[] } = {
+  core: coreConfig,
+  'link-staking': linkStakingConfig,
+  'metis-staking-local': localMetisStakingConfig,
+  'metis-staking': metisStakingConfig,
+}
+
+// configs checked by default on each network
+const networkConfigs: { [network: string]: string[] } = {
+  localhost: ['core', 'link-staking', 'metis-staking-local'],
+  hardhat: ['core', 'link-staking', 'metis-staking-local'],
+  mainnet: ['metis-staking'],
+}
+
+async function main() {
+  const args = getArgs()
+  const names: string[] = args.config ? args.config.split(',') : networkConfigs[network.name] || []
+
+  if (names.length == 0) throw Error(`No configs declared for ${network.name}, use --config`)
+  for (const name of names) {
+    if (!configs[name]) throw Error(`Unknown config ${name}`)
+  }
+
+  const diffs = await checkConfig(
+    names.flatMap((name) => configs[name]),
+    undefined,
+    args.block ? Number(args.block) : 'latest'
+  )
+  const drifted = diffs.filter((diff) => !diff.match)
+
+  if (args.out) fse.outputJSONSync(args.out, diffs, { spaces: 2 })
+
+  const rows = args.all ? diffs : drifted
+  if (rows.length) console.table(rows)
+  console.log(`Checked ${diffs.length} values, ${drifted.length} drifted from declared config`)
+
+  if (drifted.length) process.exitCode = 1
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,83 @@
+import http from 'http'
+import { ethers, network } from 'hardhat'
+import { getDeployments } from '../utils/deployment'
+import { DashboardState, readDashboard, renderDashboard } from '../utils/dashboard'
+import { getArgs } from '../utils/helpers'
+import { createLocalIPFS } from '../utils/ipfs'
+
+/*
+Serves a live protocol health dashboard for all contracts in deployments/<network>.json
+
+State is read again on every new block and open pages reload once it has been refreshed
+
+Usage:
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/dashboard.ts --port 8082
+
+--port  port to listen on (default: 8082)
+--ipfs  directory of the local IPFS store distributions are read from (default: .ipfs)
+
+GET /          -> HTML dashboard
+GET /state     -> dashboard state as JSON
+GET /events    -> server-sent event for every refresh
+*/
+
+const sendJSON = (res: http.ServerResponse, status: number, body: any) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body, (_, value) => (typeof value == 'bigint' ? value.toString() : value)))
+}
+
+async function main() {
+  const args = getArgs()
+  const deployments = getDeployments(network.name)
+  const port = Number(args.port || 8082)
+  const ipfs = createLocalIPFS(args.ipfs)
+  const clients = new Set<http.ServerResponse>()
+
+  let state: DashboardState = await readDashboard(deployments, network.name, 'latest', ipfs)
+  let refreshing = false
+
+  const refresh = async (blockNumber: number) => {
+    if (refreshing || blockNumber <= state.blockNumber) return
+    refreshing = true
+    try {
+      state = await readDashboard(deployments, network.name, blockNumber, ipfs)
+      clients.forEach((client) => client.write(`data: ${state.blockNumber}\n\n`))
+    } catch (error: any) {
+      console.error(`Failed to refresh at block ${blockNumber}: ${error.message}`)
+    } finally {
+      refreshing = false
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    const path = (req.url || '').split('?')[0]
+
+    if (req.method != 'GET') return sendJSON(res, 404, { error: 'Not found' })
+    if (path == '/') {
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+      return res.end(renderDashboard(state))
+    }
+    if (path == '/state') return sendJSON(res, 200, state)
+    if (path == '/events') {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      })
+      clients.add(res)
+      req.on('close', () => clients.delete(res))
+      return
+    }
+    sendJSON(res, 404, { error: 'Not found' })
+  })
+
+  await ethers.provider.on('block', refresh)
+  server.listen(port, () =>
+    console.log(`Dashboard for ${network.name} listening on http://localhost:${port}`)
+  )
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
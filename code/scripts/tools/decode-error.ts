@@ -0,0 +1,33 @@
+import { ethers } from 'hardhat'
+import { getErrorDecoder, getTransactionRevertData } from '../utils/errors'
+import { getArgs } from '../utils/helpers'
+
+/*
+Decodes revert data or the revert reason of a failed transaction using all compiled artifacts
+
+Usage:
+ts-node --files scripts/tools/decode-error.ts --data 0x...
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/decode-error.ts --tx 0x... --contract PriorityPool
+
+--data      revert data to decode
+--tx        hash of a failed transaction to replay and decode
+--contract  name of the called contract, preferred if several contracts define the error
+*/
+
+async function main() {
+  const args = getArgs()
+  if (!args.data && !args.tx) throw Error('--data or --tx is required')
+
+  const decoder = await getErrorDecoder()
+  const data = args.tx ? await getTransactionRevertData(ethers.provider, args.tx) : args.data
+  if (data == undefined) return console.log('Transaction does not revert when replayed')
+
+  console.log(decoder.format(data, args.contract))
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,101 @@
+import fse from 'fs-extra'
+import { ethers, network } from 'hardhat'
+import {
+  getDeploymentAt,
+  getDeployments,
+  migrateDeployments,
+  Deployments,
+} from '../utils/deployment'
+import { backfillDeployment } from '../utils/deployment-backfill'
+import { getArgs } from '../utils/helpers'
+
+/*
+Inspects and maintains deployments/<network>.json
+
+Usage:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/deployments.ts
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/deployments.ts --migrate --backfill
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/deployments.ts --history LINK_StakingPool
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/deployments.ts --at LINK_StakingPool --block 19000000
+
+--migrate   convert the deployments file to the current format, proxies are identified using .openzeppelin
+--backfill  rebuild deploy/upgrade history of entries without block numbers from chain (requires archive node)
+--force     rebuild history of all entries when backfilling
+--history   print the history of a deployment
+--at        print the address/implementation of a deployment at --block
+*/
+
+// OpenZeppelin network manifest names by chain id
+const openZeppelinNetworks: { [chainId: string]: string } = {
+  '1': 'mainnet',
+  '11155111': 'sepolia',
+}
+
+const getOpenZeppelinProxies = async () => {
+  const chainId = (await ethers.provider.getNetwork()).chainId.toString()
+  const path = `.openzeppelin/${openZeppelinNetworks[chainId] || `unknown-${chainId}`}.json`
+  if (!fse.existsSync(path)) return []
+  return fse.readJSONSync(path).proxies || []
+}
+
+async function main() {
+  const args = getArgs()
+  const path = `deployments/${network.name}.json`
+
+  if (args.migrate || args.backfill) {
+    let deployments: Deployments = migrateDeployments(
+      fse.readJSONSync(path),
+      args.migrate ? await getOpenZeppelinProxies() : []
+    )
+
+    if (args.backfill) {
+      for (const name of Object.keys(deployments)) {
+        try {
+          deployments[name] = await backfillDeployment(
+            ethers.provider,
+            deployments[name],
+            args.force == 'true'
+          )
+          console.log(`${name}: ${deployments[name].history.length} events`)
+        } catch (error: any) {
+          console.log(`${name}: could not backfill, ${error.message}`)
+        }
+      }
+    }
+
+    fse.outputJSONSync(path, deployments, { spaces: 2 })
+    console.log(`Updated ${path}`)
+    return
+  }
+
+  const deployments = getDeployments()
+
+  if (args.history) {
+    if (!deployments[args.history]) throw Error('Deployed contract does not exist')
+    console.table(deployments[args.history].history)
+    return
+  }
+
+  if (args.at) {
+    if (!args.block) throw Error('--block is required')
+    console.log(getDeploymentAt(args.at, Number(args.block), deployments) || 'Not deployed')
+    return
+  }
+
+  console.table(
+    Object.keys(deployments).map((name) => ({
+      name,
+      kind: deployments[name].kind || 'unknown',
+      address: deployments[name].address,
+      implementation: deployments[name].implementation || '',
+      upgrades: deployments[name].history.filter((event) => event.type == 'upgrade').length,
+    }))
+  )
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,77 @@
+import fse from 'fs-extra'
+import path from 'path'
+import { ethers, network } from 'hardhat'
+import { getDeployments } from '../utils/deployment'
+import { getArgs } from '../utils/helpers'
+import { createIndexer, getIndexedSources, SyncResult } from '../utils/indexer'
+
+/*
+Backfills protocol events from all contracts in deployments/<network>.json into a SQLite file and
+optionally keeps following new blocks
+
+Indexes StakingPool rewards/burns/donations, PriorityPool deposits/withdrawals/claims/distributions,
+WithdrawalPool queued/finalized withdrawals, SDLPool lock events and all SDL pool CCIP controller events
+
+Usage:
+yarn start
+yarn deploy && yarn setup-test-env
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/indexer.ts --follow
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/indexer.ts --db indexer/mainnet.db --from 16000000
+
+--db           SQLite file (default: indexer/<network>.db)
+--from         first block to backfill from if the store is empty (default: earliest deployment block)
+--batch-size   max blocks per getLogs call (default: 2000)
+--reorg-depth  number of recent blocks checked for reorgs (default: 64)
+--follow       keep indexing new blocks
+*/
+
+const logSync = (result: SyncResult) => {
+  if (result.reorgedFrom != undefined)
+    console.log(`Reorg detected, rolled back to block ${result.reorgedFrom}`)
+  if (result.fromBlock <= result.toBlock) {
+    console.log(`Indexed ${result.events} events in blocks ${result.fromBlock} - ${result.toBlock}`)
+  }
+}
+
+async function main() {
+  const args = getArgs()
+  const deployments = getDeployments(network.name)
+  const sources = await getIndexedSources(deployments)
+  if (sources.length == 0) throw Error('No contracts to index found')
+
+  const deploymentBlocks = Object.values(deployments)
+    .map((deployment) => deployment.blockNumber)
+    .filter((blockNumber) => blockNumber != undefined) as number[]
+  const startBlock = args.from
+    ? Number(args.from)
+    : deploymentBlocks.length
+    ? Math.min(...deploymentBlocks)
+    : 0
+  const file = args.db || `indexer/${network.name}.db`
+  if (file != ':memory:') fse.ensureDirSync(path.dirname(file))
+
+  const indexer = createIndexer({
+    file,
+    provider: ethers.provider,
+    sources,
+    startBlock,
+    batchSize: args['batch-size'] ? Number(args['batch-size']) : undefined,
+    reorgDepth: args['reorg-depth'] ? Number(args['reorg-depth']) : undefined,
+  })
+  console.log(`Indexing ${sources.map((source) => source.name).join(', ')} into ${file}`)
+
+  logSync(await indexer.sync())
+  if (!args.follow) return indexer.close()
+
+  const stop = indexer.follow(logSync)
+  process.on('SIGINT', () => {
+    stop()
+    indexer.close()
+    process.exit(0)
+  })
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
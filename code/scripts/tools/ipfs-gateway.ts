@@ -0,0 +1,62 @@
+import http from 'http'
+import { createLocalIPFS } from '../utils/ipfs'
+import { getArgs } from '../utils/helpers'
+
+/*
+Serves a local content-addressed store as a stand-in for an IPFS gateway
+
+Usage:
+ts-node --files scripts/tools/ipfs-gateway.ts --dir .ipfs --port 8081
+
+GET /ipfs/:cid  -> stored content (also accepts the bytes32 form of the hash)
+POST /ipfs      -> stores request body and returns { cid, hash }
+*/
+
+async function main() {
+  const args = getArgs()
+  const ipfs = createLocalIPFS(args.dir || '.ipfs')
+  const port = Number(args.port || 8081)
+
+  const server = http.createServer((req, res) => {
+    const path = (req.url || '')
+      .split('?')[0]
+      .split('/')
+      .filter((p) => p.length)
+
+    if (path[0] != 'ipfs') {
+      res.writeHead(404)
+      return res.end()
+    }
+
+    if (req.method == 'GET' && path.length == 2) {
+      try {
+        const content = ipfs.resolve(path[1])
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' })
+        return res.end(content)
+      } catch (error: any) {
+        res.writeHead(404, { 'Content-Type': 'application/json' })
+        return res.end(JSON.stringify({ error: error.message }))
+      }
+    }
+
+    if (req.method == 'POST' && path.length == 1) {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk) => chunks.push(chunk))
+      req.on('end', () => {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(ipfs.publish(Buffer.concat(chunks))))
+      })
+      return
+    }
+
+    res.writeHead(405)
+    res.end()
+  })
+
+  server.listen(port, () => console.log(`Local IPFS gateway listening on port ${port}`))
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,50 @@
+import fse from 'fs-extra'
+import { getDeployments } from '../utils/deployment'
+import { getAccounts, getArgs } from '../utils/helpers'
+import { createKeeper, getKeeperTargets, KeeperConfig } from '../utils/keeper'
+
+/*
+Runs upkeeps for every contract in deployments/<network>.json that implements checkUpkeep/performUpkeep
+and for every splitter of an LSTRewardsSplitterController (named <controller name>_<account>)
+
+Deposit/withdrawal data for priority/withdrawal pools is built with the fund flow controller in the
+deployments file (set fundFlowController to its deployment name if there are several)
+
+Usage:
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/keeper.ts --config keeper.json --dry-run
+
+--config   path to a keeper config (optional)
+--dry-run  simulate upkeeps without submitting transactions
+
+Config format:
+{
+  "defaults": { "interval": 60000, "gasLimit": 5000000 },
+  "targets": {
+    "LINK_PriorityPool": { "enabled": false },
+    "LINK_PPKeeper": { "interval": 30000, "gasLimit": 2000000 },
+    "LINK_WithdrawalPool": { "fundFlowController": "LINK_FundFlowController" }
+  }
+}
+*/
+
+async function main() {
+  const args = getArgs()
+  const { signers } = await getAccounts()
+  const config: KeeperConfig = args.config ? fse.readJSONSync(args.config) : {}
+
+  const targets = await getKeeperTargets(getDeployments(), signers[0], config)
+  if (targets.length == 0) throw Error('No keeper targets found')
+
+  const keeper = createKeeper(signers[0], targets, args['dry-run'] == 'true')
+  keeper.start()
+
+  process.on('SIGINT', () => {
+    keeper.stop()
+    process.exit(0)
+  })
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,49 @@
+import { ethers } from 'hardhat'
+import { DistributionOracle, Operator, PriorityPool } from '../../typechain-types'
+import { getContract } from '../utils/deployment'
+import { getAccounts, getArgs } from '../utils/helpers'
+import { createLocalIPFS } from '../utils/ipfs'
+import { createDistributionOracleNode } from '../utils/oracle-node'
+
+/*
+Runs a local Chainlink node stand-in that fulfills DistributionOracle requests
+
+Usage:
+ts-node --files scripts/tools/oracle-node.ts --oracle METIS_PP_DistributionOracle --operator 0x...
+
+--oracle         deployment name of the distribution oracle
+--operator       address of the Chainlink operator contract the oracle sends requests to
+--confirmations  blocks to wait after a request before fulfilling it (default: 0)
+--interval       ms between polls (default: 5000)
+--ipfs           directory of the local IPFS store (default: .ipfs)
+*/
+
+async function main() {
+  const args = getArgs()
+  const { signers } = await getAccounts()
+
+  const distributionOracle = (await getContract(args.oracle)) as DistributionOracle
+  const priorityPool = (await ethers.getContractAt(
+    'PriorityPool',
+    await distributionOracle.priorityPool()
+  )) as PriorityPool
+  const operator = (await ethers.getContractAt('Operator', args.operator, signers[0])) as Operator
+
+  const node = createDistributionOracleNode({
+    operator,
+    distributionOracle,
+    priorityPool,
+    ipfs: createLocalIPFS(args.ipfs),
+    confirmations: Number(args.confirmations || 0),
+    pollInterval: Number(args.interval || 5000),
+    fromBlock: await ethers.provider.getBlockNumber(),
+  })
+
+  node.start()
+  console.log('Oracle node started')
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,32 @@
+import fse from 'fs-extra'
+import { PriorityPool } from '../../typechain-types'
+import { getContract } from '../utils/deployment'
+import { DistributionData } from '../utils/distribution'
+import { createProofServer, createProofService } from '../utils/distribution-proofs'
+import { getArgs } from '../utils/helpers'
+
+/*
+Serves verified merkle proofs for a priority pool distribution
+
+Usage:
+ts-node --files scripts/tools/proof-server.ts --distribution tree.json --pool LINK_PriorityPool --port 8080
+
+GET /proof/:account  -> { account, amount, sharesAmount, merkleProof }
+GET /unclaimed       -> [{ account, sharesAmount, lsdTokens }]
+*/
+
+async function main() {
+  const args = getArgs()
+  const priorityPool = (await getContract(args.pool || 'LINK_PriorityPool')) as PriorityPool
+  const distribution = fse.readJSONSync(args.distribution) as DistributionData
+  const proofService = createProofService(priorityPool, distribution)
+  const port = Number(args.port || 8080)
+
+  const server = createProofServer(proofService)
+  server.listen(port, () => console.log(`Proof server listening on port ${port}`))
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
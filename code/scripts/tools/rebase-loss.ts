@@ -0,0 +1,136 @@
+import { ethers, network } from 'hardhat'
+import { RebaseController, StakingPool, VaultControllerStrategy } from '../../typechain-types'
+import { getContract, getDeployments } from '../utils/deployment'
+import { fromEther, getAccounts, getArgs, toEther } from '../utils/helpers'
+import {
+  buildLossClaimBatch,
+  getClaimAmount,
+  getRebaseLossStatus,
+  RebaseLossStatus,
+  slashVaults,
+} from '../utils/rebase-loss'
+
+/*
+Watches a staking pool for negative rebases and handles losses that exceed the rebase controller's
+maxRebaseLossBP
+
+Losses are reported per strategy, with --perform RebaseController.performUpkeep is called as soon as
+checkUpkeep reports a loss (signer must be the rebase bot) which either rebases the pool or closes it
+and initiates an insurance pool claim. Once a claim is in progress, --claim prepares the multisig
+batch that executes the claim (capped at the insurance pool's maxClaimAmountBP), donates the claimed
+tokens to the staking pool and reopens the pool which also resolves the claim
+
+Usage:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/rebase-loss.ts --pool LINK_StakingPool --watch
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/rebase-loss.ts --pool LINK_StakingPool --claim --mode propose --ledger
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/rebase-loss.ts --slash LINK_CommunityVCS --slash-amount 5000 --perform
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/rebase-loss.ts --claim --mode local
+
+--pool          deployment name of staking pool (default: LINK_StakingPool)
+--watch         check for losses on every new block
+--perform       call performUpkeep when checkUpkeep reports a loss
+--claim         prepare the claim batch
+--amount        amount to claim (default: total loss, capped at the max claim amount)
+--slash         deployment name of a vault controller strategy to slash through its StakingMock (local only)
+--slash-amount  amount to slash
+--mode          builder, propose or local (default: builder)
+--out           path to write the batch to in builder mode (default: batches/<network>/<batch name>.json)
+--ledger        sign proposals with a Ledger
+*/
+
+const poolStatuses = ['OPEN', 'DRAINING', 'CLOSED']
+
+const printStatus = (status: RebaseLossStatus) => {
+  console.log(
+    `Block ${status.blockNumber}: pool ${poolStatuses[status.poolStatus]}, loss ${fromEther(
+      status.totalLoss
+    )} (${status.lossBP} BP, max ${status.maxRebaseLossBP} BP), claim in progress: ${
+      status.claimInProgress
+    }`
+  )
+  if (status.totalLoss == 0n) return
+
+  console.table(
+    status.strategies
+      .filter((strategy) => strategy.loss != 0n)
+      .map((strategy) => ({
+        index: strategy.index,
+        strategy: strategy.name || strategy.address,
+        loss: fromEther(strategy.loss),
+      }))
+  )
+  console.log(
+    `Insurance pool: ${fromEther(status.insuranceDeposits)} deposited, max claim ${fromEther(
+      status.maxClaimAmount
+    )} (${status.maxClaimAmountBP} BP)`
+  )
+}
+
+async function main() {
+  const args = getArgs()
+  const { signers } = await getAccounts()
+  const deployments = getDeployments(network.name)
+  const stakingPool = (await getContract(args.pool || 'LINK_StakingPool')) as StakingPool
+
+  if (args.slash) {
+    if (!args['slash-amount']) throw Error('--slash-amount is required')
+    const strategy = (await getContract(args.slash)) as VaultControllerStrategy
+    const slashed = await slashVaults(strategy, toEther(args['slash-amount']))
+    console.log(`Slashed ${Object.keys(slashed).length} vaults of ${args.slash}`)
+  }
+
+  const check = async (blockTag: number | string = 'latest') => {
+    const status = await getRebaseLossStatus(stakingPool, deployments, blockTag)
+    printStatus(status)
+
+    if (args.perform && status.upkeepNeeded) {
+      const rebaseController = (await ethers.getContractAt(
+        'RebaseController',
+        status.rebaseController,
+        signers[0]
+      )) as RebaseController
+      const tx = await rebaseController.performUpkeep(status.performData!)
+      await tx.wait()
+      console.log(
+        `performUpkeep: ${tx.hash} (${status.exceedsMaxRebaseLoss ? 'pool closed' : 'rebased'})`
+      )
+      return getRebaseLossStatus(stakingPool, deployments)
+    }
+
+    return status
+  }
+
+  if (args.watch) {
+    let running = false
+    ethers.provider.on('block', async (blockNumber: number) => {
+      if (running) return
+      running = true
+      try {
+        const status = await check(blockNumber)
+        if (status.claimInProgress) console.log('Claim in progress, run with --claim')
+      } catch (error) {
+        console.error(error)
+      }
+      running = false
+    })
+    return
+  }
+
+  const status = await check()
+
+  if (args.claim) {
+    const amount = args.amount ? toEther(args.amount) : undefined
+    const claimAmount = getClaimAmount(status, amount)
+    if (claimAmount < (amount ?? status.totalLoss)) {
+      console.log(`Claim capped at ${fromEther(claimAmount)} by maxClaimAmountBP`)
+    }
+
+    const batch = await buildLossClaimBatch(status, amount)
+    await batch.submit(!!args.ledger)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
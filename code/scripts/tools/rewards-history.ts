@@ -0,0 +1,118 @@
+import fse from 'fs-extra'
+import { ethers, network } from 'hardhat'
+import { StakingPool } from '../../typechain-types'
+import { getContract, getDeployments } from '../utils/deployment'
+import { fromEther, getArgs } from '../utils/helpers'
+import { createIndexer, getIndexedSources } from '../utils/indexer'
+import {
+  getRebaseHistory,
+  getYieldWindow,
+  RebaseRecord,
+  splitWindows,
+  toCSV,
+} from '../utils/rewards-history'
+
+/*
+Computes realized APR/APY, gross rewards and fee splits of a staking pool and lists every rebase,
+negative rebases whose loss exceeds the rebase controller's maxRebaseLossBP are flagged
+
+Usage:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/rewards-history.ts --pool LINK_StakingPool --from 19000000 --interval 216000
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/rewards-history.ts --pool METIS_StakingPool --from 19000000 --csv reports/metis
+
+--pool      deployment name of staking pool (default: LINK_StakingPool)
+--from      first block (default: deployment block of pool)
+--to        last block (default: latest)
+--interval  number of blocks per window (default: whole range)
+--db        read rebases from an indexer store instead of scanning logs (an empty store is backfilled from --from)
+--csv       write <csv>-windows.csv and <csv>-rebases.csv
+*/
+
+const toRebaseRow = (rebase: RebaseRecord) => {
+  const fees = (type: string) =>
+    rebase.fees.filter((fee) => fee.type == type).reduce((sum, fee) => sum + fee.amount, 0n)
+  return {
+    blockNumber: rebase.blockNumber,
+    time: new Date(rebase.timestamp * 1000).toISOString(),
+    transactionHash: rebase.transactionHash,
+    totalStaked: fromEther(rebase.totalStaked),
+    rewards: fromEther(rebase.rewards),
+    poolFees: fromEther(fees('pool')),
+    sdlPoolFees: fromEther(fees('sdl-pool')),
+    strategyFees: fromEther(fees('strategy')),
+    sharePriceBefore: fromEther(rebase.sharePriceBefore),
+    sharePriceAfter: fromEther(rebase.sharePriceAfter),
+    lossBP: rebase.lossBP,
+    maxRebaseLossBP: rebase.maxRebaseLossBP,
+    hitMaxRebaseLoss: rebase.hitMaxRebaseLoss,
+  }
+}
+
+async function main() {
+  const args = getArgs()
+  const name = args.pool || 'LINK_StakingPool'
+  const deployments = getDeployments(network.name)
+  const stakingPool = (await getContract(name)) as StakingPool
+
+  const fromBlock = Number(args.from || deployments[name].blockNumber || 0)
+  const toBlock = Number(args.to || (await ethers.provider.getBlockNumber()))
+
+  let indexer
+  if (args.db) {
+    indexer = createIndexer({
+      file: args.db,
+      provider: ethers.provider,
+      sources: await getIndexedSources(deployments),
+      startBlock: fromBlock,
+    })
+    // a store that is already past --to is not synced so it never goes back to an older block
+    const cursor = indexer.getCursor()
+    if (cursor == undefined || cursor < toBlock) await indexer.sync(toBlock)
+  }
+
+  const rebases = await getRebaseHistory(stakingPool, deployments, fromBlock, toBlock, indexer)
+  indexer?.close()
+
+  const windows = []
+  for (const [start, end] of splitWindows(fromBlock, toBlock, Number(args.interval || 0))) {
+    windows.push(await getYieldWindow(stakingPool, rebases, start, end))
+  }
+
+  const windowRows = windows.map((window) => ({
+    fromBlock: window.fromBlock,
+    toBlock: window.toBlock,
+    from: new Date(window.fromTime * 1000).toISOString(),
+    to: new Date(window.toTime * 1000).toISOString(),
+    apr: (window.apr * 100).toFixed(4) + '%',
+    apy: (window.apy * 100).toFixed(4) + '%',
+    grossRewards: fromEther(window.grossRewards),
+    poolFees: fromEther(window.fees.pool),
+    sdlPoolFees: fromEther(window.fees['sdl-pool']),
+    strategyFees: fromEther(window.fees.strategy),
+    netRewards: fromEther(window.netRewards),
+    rebases: window.rebases,
+    negativeRebases: window.negativeRebases,
+    maxLossHits: window.maxLossHits,
+  }))
+  const rebaseRows = rebases.map(toRebaseRow)
+
+  console.table(windowRows)
+  const flagged = rebaseRows.filter((rebase) => rebase.rewards < 0)
+  if (flagged.length) {
+    console.log('Negative rebases:')
+    console.table(flagged)
+  }
+
+  if (args.csv) {
+    fse.outputFileSync(`${args.csv}-windows.csv`, toCSV(windowRows))
+    fse.outputFileSync(`${args.csv}-rebases.csv`, toCSV(rebaseRows))
+    console.log(`CSV written to ${args.csv}-windows.csv and ${args.csv}-rebases.csv`)
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,71 @@
+import fse from 'fs-extra'
+import { getDeployments } from '../utils/deployment'
+import { getArgs } from '../utils/helpers'
+import { fromTransactionBuilderJSON } from '../utils/multisig'
+import { forkNetwork, getKnownContracts, simulateBatch } from '../utils/batch-simulation'
+import { startRpcSnapshotServer } from '../utils/rpc-snapshot'
+
+/*
+Simulates a Safe Transaction Builder batch on a hardhat fork with the Safe impersonated and reports
+events, state diffs of public getters and decoded reverts
+
+Usage:
+record a snapshot while simulating against a live RPC:
+HARDHAT_NETWORK=hardhat ts-node --files scripts/tools/simulate-batch.ts --batch batches/mainnet/Add-fee.json --fork-url https://... --block 20000000 --snapshot snapshots/mainnet-20000000.json
+replay a saved snapshot without network access:
+HARDHAT_NETWORK=hardhat ts-node --files scripts/tools/simulate-batch.ts --batch batches/mainnet/Add-fee.json --snapshot snapshots/mainnet-20000000.json
+
+--batch        path to Transaction Builder file
+--deployments  network whose deployments are used to decode calls, events and errors (default: mainnet)
+--fork-url     JSON-RPC url to fork, responses are recorded to --snapshot if set
+--block        block to fork at (required with --fork-url)
+--snapshot     path to a saved RPC snapshot
+--out          path to write the JSON report to
+*/
+
+async function main() {
+  const args = getArgs()
+  if (!args.batch) throw Error('--batch is required')
+  if (!args['fork-url'] && !args.snapshot) throw Error('--fork-url or --snapshot is required')
+
+  const batch = fromTransactionBuilderJSON(fse.readJSONSync(args.batch))
+  const contracts = await getKnownContracts(getDeployments(args.deployments || 'mainnet'))
+
+  let server
+  if (args.snapshot) {
+    server = await startRpcSnapshotServer(
+      args.snapshot,
+      args['fork-url'],
+      args.block ? Number(args.block) : undefined
+    )
+    await forkNetwork(server.url, server.blockNumber)
+  } else {
+    if (!args.block) throw Error('--block is required')
+    await forkNetwork(args['fork-url'], Number(args.block))
+  }
+
+  const report = await simulateBatch(batch, contracts)
+  await server?.close()
+
+  for (const call of report.calls) {
+    console.log(`\n${call.status.toUpperCase()} ${call.contract || call.to} ${call.method || ''}`)
+    if (call.error) console.log(`  error: ${call.error}`)
+    for (const event of call.events) {
+      console.log(`  event: ${event.contract || event.address} ${event.name || 'unknown'}`)
+      if (event.args) console.log(`    ${JSON.stringify(event.args)}`)
+    }
+  }
+
+  console.log(`\nBatch ${report.success ? 'succeeded' : 'failed'}`)
+  if (report.diffs.length) console.table(report.diffs)
+
+  if (args.out) fse.outputJSONSync(args.out, report, { spaces: 2 })
+  if (!report.success) process.exitCode = 1
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,60 @@
+import fse from 'fs-extra'
+import { network } from 'hardhat'
+import { getDeployments } from '../utils/deployment'
+import { getArgs } from '../utils/helpers'
+import { diffSnapshots, ProtocolSnapshot, takeSnapshot } from '../utils/snapshot'
+
+/*
+Dumps a normalized JSON snapshot of protocol state at a block or compares two snapshots
+
+Snapshots include StakingPool totals, strategies, fees and every vault's principal/rewards,
+PriorityPool queue and merkle info, WithdrawalPool batches, SDLPool locks and CCIP controller queues
+
+Usage:
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/snapshot.ts --out snapshots/before.json
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/snapshot.ts --block 19000000 --out snapshots/before.json
+ts-node --files scripts/tools/snapshot.ts --diff snapshots/before.json --to snapshots/after.json
+
+--block  block to take snapshot at (default: latest)
+--out    file to write snapshot to (default: print to console)
+--diff   snapshot to compare from
+--to     snapshot to compare to
+*/
+
+const readSnapshot = (file: string): ProtocolSnapshot => fse.readJSONSync(file)
+
+async function main() {
+  const args = getArgs()
+
+  if (args.diff) {
+    if (!args.to) throw Error('--to is required')
+    const before = readSnapshot(args.diff)
+    const after = readSnapshot(args.to)
+
+    const diffs = diffSnapshots(before, after)
+    console.log(
+      `${diffs.length} differences between block ${before.blockNumber} (${before.network}) and block ${after.blockNumber} (${after.network})`
+    )
+    if (diffs.length) console.table(diffs)
+    return
+  }
+
+  const snapshot = await takeSnapshot(
+    getDeployments(network.name),
+    args.block ? Number(args.block) : 'latest'
+  )
+
+  if (args.out) {
+    fse.outputJSONSync(args.out, snapshot, { spaces: 2 })
+    console.log(`Snapshot of block ${snapshot.blockNumber} written to ${args.out}`)
+  } else {
+    console.log(JSON.stringify(snapshot, null, 2))
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
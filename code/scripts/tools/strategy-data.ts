@@ -0,0 +1,81 @@
+import { ethers } from 'hardhat'
+import {
+  FundFlowController,
+  PriorityPool,
+  StakingPool,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { getContract } from '../utils/deployment'
+import { getArgs, toEther } from '../utils/helpers'
+import {
+  createDataPlanner,
+  DataPlan,
+  DataPlanType,
+  estimateDepositGas,
+  estimateWithdrawalGas,
+} from '../utils/strategy-data'
+
+/*
+Builds or decodes the bytes[] deposit/withdrawal data passed to StakingPool strategies
+
+Usage:
+ts-node --files scripts/tools/strategy-data.ts --type deposit --amount 5000 --estimate
+ts-node --files scripts/tools/strategy-data.ts --type withdrawal --decode 0x...,0x...
+
+--pool        deployment name of the staking pool (default: LINK_StakingPool)
+--controller  deployment name of the fund flow controller (default: LINK_FundFlowController, pass none to skip)
+--type        deposit or withdrawal (default: deposit)
+--amount      amount to deposit or withdraw in ether units
+--decode      comma separated list of data to decode instead of building a plan
+--estimate    estimate gas for the plan
+*/
+
+async function main() {
+  const args = getArgs()
+  const type = (args.type || 'deposit') as DataPlanType
+  if (type != 'deposit' && type != 'withdrawal') throw Error(`Invalid type: ${type}`)
+
+  const stakingPool = (await getContract(args.pool || 'LINK_StakingPool')) as StakingPool
+  const fundFlowController =
+    args.controller == 'none'
+      ? undefined
+      : ((await getContract(args.controller || 'LINK_FundFlowController')) as FundFlowController)
+  const planner = createDataPlanner(stakingPool, fundFlowController)
+  const amount = toEther(args.amount || 0)
+
+  let plan: DataPlan
+  if (args.decode) {
+    plan = await planner.decode(type, amount, args.decode.split(','))
+  } else {
+    plan =
+      type == 'deposit' ? await planner.planDeposit(amount) : await planner.planWithdrawal(amount)
+  }
+
+  console.log(
+    JSON.stringify(plan, (_, value) => (typeof value == 'bigint' ? value.toString() : value), 2)
+  )
+
+  if (args.estimate) {
+    const priorityPool = (await ethers.getContractAt(
+      'PriorityPool',
+      await stakingPool.priorityPool()
+    )) as PriorityPool
+
+    if (type == 'deposit') {
+      console.log('Gas estimate:', Number(await estimateDepositGas(priorityPool, plan)))
+    } else {
+      const withdrawalPool = (await ethers.getContractAt(
+        'WithdrawalPool',
+        await priorityPool.withdrawalPool()
+      )) as WithdrawalPool
+      console.log('Gas estimate:', Number(await estimateWithdrawalGas(withdrawalPool, plan)))
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,114 @@
+import { ethers, network } from 'hardhat'
+import { VaultControllerStrategy__factory } from '../../typechain-types'
+import { getDeployments } from '../utils/deployment'
+import { getArgs } from '../utils/helpers'
+import { BatchMode, executeBatchLocally, proposeBatch, writeBatch } from '../utils/multisig'
+import {
+  buildVaultUpgradeBatches,
+  getVaultUpgradeStatus,
+  planVaultUpgrades,
+} from '../utils/vault-upgrades'
+
+/*
+Plans the upgrade of all vaults of a vault controller strategy (OperatorVCS, CommunityVCS or
+SequencerVCS) that do not run the strategy's vaultImplementation
+
+Outdated vaults are split into upgradeVaults calls that fit within --max-gas and every call is
+output as a separate Safe batch, run again with --verify once all batches have been executed
+
+Usage:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/upgrade-vaults.ts --strategy LINK_CommunityVCS
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/upgrade-vaults.ts --strategy LINK_CommunityVCS --mode propose --ledger
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/upgrade-vaults.ts --strategy LINK_CommunityVCS --verify
+
+--strategy        deployment name of strategy
+--call            function to call on every vault after its upgrade
+--call-args       JSON array of args for --call
+--vault-artifact  artifact used to encode --call (default: vault artifact of the strategy)
+--max-gas         max gas of a single upgradeVaults call (default: half the block gas limit)
+--mode            builder, propose or local (default: builder)
+--out             directory to write batches to in builder mode (default: batches/<network>)
+--verify          only check that all vaults have been upgraded
+--ledger          sign proposals with a Ledger
+*/
+
+// vault artifacts by strategy artifact
+const vaultArtifacts: { [strategy: string]: string } = {
+  OperatorVCS: 'OperatorVault',
+  CommunityVCS: 'CommunityVault',
+  SequencerVCS: 'SequencerVault',
+}
+
+async function main() {
+  const args = getArgs()
+  if (!args.strategy) throw Error('--strategy is required')
+
+  const deployment = getDeployments()[args.strategy]
+  if (!deployment) throw Error('Deployed contract does not exist')
+  const strategy = VaultControllerStrategy__factory.connect(deployment.address, ethers.provider)
+
+  const status = await getVaultUpgradeStatus(strategy)
+  console.log(
+    `${status.outdated.length} of ${status.vaults.length} vaults do not run ${status.vaultImplementation}`
+  )
+
+  if (args.verify) {
+    if (status.outdated.length) {
+      console.table(status.vaults.filter((vault) => status.outdated.includes(vault.index)))
+      process.exitCode = 1
+    } else {
+      console.log('All vaults have been upgraded')
+    }
+    return
+  }
+  if (status.outdated.length == 0) return
+
+  let data = '0x'
+  if (args.call) {
+    const vaultArtifact = args['vault-artifact'] || vaultArtifacts[deployment.artifact]
+    if (!vaultArtifact) throw Error('--vault-artifact is required')
+    data = (await ethers.getContractFactory(vaultArtifact)).interface.encodeFunctionData(
+      args.call,
+      JSON.parse(args['call-args'] || '[]')
+    )
+  }
+
+  const maxGas = args['max-gas']
+    ? BigInt(args['max-gas'])
+    : (await ethers.provider.getBlock('latest'))!.gasLimit / 2n
+
+  const chunks = await planVaultUpgrades(strategy, status.outdated, maxGas, data)
+  console.table(
+    chunks.map(({ vaults, gas }) => ({
+      first: vaults[0],
+      last: vaults[vaults.length - 1],
+      vaults: vaults.length,
+      gas: gas.toString(),
+    }))
+  )
+
+  const batches = await buildVaultUpgradeBatches(strategy, args.strategy, chunks)
+  const mode = (args.mode || 'builder') as BatchMode
+  const outDir = args.out || `batches/${network.name}`
+
+  for (const batch of batches) {
+    if (mode == 'builder') {
+      const out = `${outDir}/${batch.name.replace(/[^a-zA-Z0-9]+/g, '-')}.json`
+      writeBatch(batch, out)
+      console.log(`Batch written to ${out}`)
+    } else if (mode == 'propose') {
+      console.log(`${batch.name} proposed: `, await proposeBatch(batch, !!args.ledger))
+    } else if (mode == 'local') {
+      console.log(`${batch.name} executed: `, await executeBatchLocally(batch))
+    } else {
+      throw Error(`Invalid mode: ${mode}`)
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,72 @@
+import { getArgs } from '../utils/helpers'
+import { finalizeUpgrade, SmokeTestResult, upgradeContract, UpgradeOptions } from '../utils/upgrade'
+
+/*
+Upgrades a UUPS proxy recorded in deployments/<network>.json
+
+The storage layout of the new implementation is validated against the current implementation
+recorded in .openzeppelin/<network>.json before anything is deployed, the proxy is then upgraded
+directly or through a Safe batch and key view functions are smoke tested after the upgrade
+
+Usage:
+dry run:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/upgrade.ts --name LINK_OperatorVCS --unsafe-allow delegatecall --dry-run
+upgrade through the multisig:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/upgrade.ts --name LINK_OperatorVCS --unsafe-allow delegatecall --multisig --mode propose --ledger
+record and smoke test once the batch has been executed:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/upgrade.ts --name LINK_OperatorVCS --finalize
+
+--name          deployment name of proxy
+--artifact      artifact of new implementation (default: artifact of deployment)
+--call          function to call on the proxy during the upgrade
+--call-args     JSON array of args for --call
+--unsafe-allow  comma separated list of upgrades validations to skip
+--multisig      submit the upgrade as a Safe batch (see --mode and --out of createSafeBatch)
+--dry-run       only validate the storage layout
+--finalize      record an upgrade executed by the multisig and run the smoke test against the
+                values stored in deployments/<network>.upgrades.json when the batch was submitted
+--ledger        deploy and sign with a Ledger
+*/
+
+const printSmokeTest = (result: SmokeTestResult) => {
+  console.log(`Implementation: ${result.implementation}`)
+  if (result.changed.length) console.table(result.changed)
+  for (const getter of result.reverted) console.log(`${getter} reverts after the upgrade`)
+  console.log(`Smoke test ${result.passed ? 'passed' : 'failed'}`)
+}
+
+async function main() {
+  const args = getArgs()
+  if (!args.name) throw Error('--name is required')
+
+  if (args.finalize) {
+    const result = await finalizeUpgrade(args.name, args.artifact)
+    printSmokeTest(result)
+    if (!result.passed) process.exitCode = 1
+    return
+  }
+
+  const { smokeTest } = await upgradeContract(
+    args.name,
+    !!args.multisig,
+    {
+      artifact: args.artifact,
+      call: args.call ? { fn: args.call, args: JSON.parse(args['call-args'] || '[]') } : undefined,
+      unsafeAllow: args['unsafe-allow']?.split(',') as UpgradeOptions['unsafeAllow'],
+    },
+    !!args['dry-run'],
+    !!args.ledger
+  )
+
+  if (smokeTest) {
+    printSmokeTest(smokeTest)
+    if (!smokeTest.passed) process.exitCode = 1
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
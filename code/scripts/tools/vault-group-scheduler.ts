@@ -0,0 +1,56 @@
+import { ethers } from 'hardhat'
+import { FundFlowController, OperatorVCS } from '../../typechain-types'
+import { getContract } from '../utils/deployment'
+import { getAccounts, getArgs } from '../utils/helpers'
+import { createVaultGroupScheduler } from '../utils/vault-group-scheduler'
+
+/*
+Rotates FundFlowController vault groups and corrects operator vault group accounting when needed
+
+Usage:
+ts-node --files scripts/tools/vault-group-scheduler.ts --controller LINK_FundFlowController --status
+
+--controller  deployment name of the fund flow controller (default: LINK_FundFlowController)
+--status      print the current vault group state and next update time and exit
+--once        run all updates that are currently due and exit
+*/
+
+async function main() {
+  const args = getArgs()
+  const { signers } = await getAccounts()
+
+  const fundFlowController = (
+    (await getContract(args.controller || 'LINK_FundFlowController')) as FundFlowController
+  ).connect(signers[0])
+  const operatorVCS = (await ethers.getContractAt(
+    'OperatorVCS',
+    await fundFlowController.operatorVCS()
+  )) as OperatorVCS
+  const communityVCS = await ethers.getContractAt(
+    'CommunityVCS',
+    await fundFlowController.communityVCS()
+  )
+
+  const scheduler = createVaultGroupScheduler(fundFlowController, operatorVCS, communityVCS)
+
+  if (args.status) {
+    const status = await scheduler.getStatus()
+    console.log(JSON.stringify(status, null, 2))
+    console.log(
+      `Next vault group update at ${new Date(status.nextUpdateTime * 1000).toISOString()}`
+    )
+    return
+  }
+  if (args.once) {
+    console.log(await scheduler.run())
+    return
+  }
+
+  scheduler.start()
+  console.log('Vault group scheduler started')
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,84 @@
+import { WithdrawalPool } from '../../typechain-types'
+import { getContract } from '../utils/deployment'
+import { fromEther, getAccounts, getArgs } from '../utils/helpers'
+import {
+  buildWithdrawCalls,
+  getBatchIdCutoffStatus,
+  getFinalizedWithdrawals,
+} from '../utils/withdrawals'
+
+/*
+Finds finalized withdrawals of an owner, resolves their batch ids and builds WithdrawalPool.withdraw calls
+
+Also reports whether updateWithdrawalBatchIdCutoff is worth calling
+
+Usage:
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/withdraw.ts --owner 0x...
+HARDHAT_NETWORK=localhost ts-node --files scripts/tools/withdraw.ts --execute
+HARDHAT_NETWORK=mainnet ts-node --files scripts/tools/withdraw.ts --cutoff --min-batches 20
+
+--pool         deployment name of withdrawal pool (default: LINK_WithdrawalPool)
+--owner        owner of withdrawals (default: first signer)
+--max-per-tx   max number of withdrawals in a single withdraw call (default: 50)
+--execute      send withdraw calls from the first signer (owner must be the first signer)
+--cutoff       only check whether updateWithdrawalBatchIdCutoff is worth calling, sends the update with --execute
+--min-batches  min number of skipped batches for the cutoff update to be worth calling (default: 10)
+*/
+
+async function main() {
+  const args = getArgs()
+  const { signers, accounts } = await getAccounts()
+  const pool = (await getContract(args.pool || 'LINK_WithdrawalPool')) as WithdrawalPool
+
+  if (args.cutoff) {
+    const status = await getBatchIdCutoffStatus(pool, Number(args['min-batches'] || 10))
+    console.table([status])
+
+    if (status.shouldUpdate && args.execute) {
+      const tx = await pool.connect(signers[0]).updateWithdrawalBatchIdCutoff()
+      await tx.wait()
+      console.log(`updateWithdrawalBatchIdCutoff: ${tx.hash}`)
+    }
+    return
+  }
+
+  const owner = args.owner || accounts[0]
+  const withdrawals = await getFinalizedWithdrawals(pool, owner)
+  const calls = buildWithdrawCalls(withdrawals, Number(args['max-per-tx'] || 50))
+
+  console.log(`${withdrawals.length} finalized withdrawals for ${owner}`)
+  if (withdrawals.length == 0) return
+  console.table(
+    calls.map((call) => ({
+      withdrawals: call.withdrawalIds.length,
+      firstId: call.withdrawalIds[0].toString(),
+      lastId: call.withdrawalIds[call.withdrawalIds.length - 1].toString(),
+      amount: fromEther(call.amount),
+    }))
+  )
+
+  if (args.execute && owner.toLowerCase() != accounts[0].toLowerCase()) {
+    throw Error('--owner must be the first signer to execute withdrawals')
+  }
+
+  for (const call of calls) {
+    if (!args.execute) {
+      const data = pool.interface.encodeFunctionData('withdraw', [
+        call.withdrawalIds,
+        call.batchIds,
+      ])
+      console.log({ to: pool.target, data })
+      continue
+    }
+    const tx = await pool.connect(signers[0]).withdraw(call.withdrawalIds, call.batchIds)
+    await tx.wait()
+    console.log(`withdraw: ${tx.hash}`)
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode || 0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
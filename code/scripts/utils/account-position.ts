@@ -0,0 +1,302 @@
+import { Provider } from 'ethers'
+import { ethers, network } from 'hardhat'
+import {
+  PriorityPool,
+  RewardsPoolController,
+  SDLPoolPrimary,
+  StakingPool,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { getKnownContracts } from './batch-simulation'
+import { Deployments, getDeployments } from './deployment'
+import { DistributionData, getLatestDistribution } from './distribution'
+import { getDistributionProof } from './distribution-proofs'
+import { createLocalIPFS } from './ipfs'
+import { readWithdrawalBatches } from './withdrawals'
+
+export interface FieldSource {
+  network: string
+  contract: string // deployment name
+  address: string
+  call: string // function the value was read with
+  blockNumber: number
+}
+
+export interface Sourced<T> {
+  value: T
+  source: FieldSource
+}
+
+export interface StakingPoolPosition {
+  shares: Sourced<bigint>
+  balance: Sourced<bigint>
+}
+
+export interface PriorityPoolPosition {
+  queuedTokens: Sourced<bigint | undefined> // undefined if the latest distribution is unavailable
+  lsdTokens: Sourced<bigint | undefined> // claimable LSD tokens, undefined if the latest distribution is unavailable
+}
+
+export interface WithdrawalPosition {
+  withdrawalId: bigint
+  batchId: bigint // 0 if the withdrawal has not been finalized
+  sharesRemaining: bigint
+  partiallyWithdrawableAmount: bigint
+  claimable: bigint // amount that can currently be withdrawn
+}
+
+export interface WithdrawalPoolPosition {
+  withdrawals: Sourced<WithdrawalPosition[]>
+  finalizedWithdrawalIds: Sourced<bigint[]>
+  totalClaimable: Sourced<bigint>
+}
+
+export interface LockPosition {
+  lockId: bigint
+  amount: bigint
+  boostAmount: bigint
+  startTime: bigint
+  duration: bigint
+  expiry: bigint // 0 if unlock has not been initiated
+  unlockInitiableAt: bigint // time at which initiateUnlock can be called
+}
+
+export interface SDLPoolPosition {
+  chain: 'primary' | 'secondary'
+  locks: Sourced<LockPosition[]>
+  effectiveBalance: Sourced<bigint>
+}
+
+export interface RewardsPosition {
+  token: string
+  tokenName?: string // deployment name of token
+  amount: bigint
+}
+
+export interface AccountPosition {
+  account: string
+  stakingPools: { [name: string]: StakingPoolPosition }
+  priorityPools: { [name: string]: PriorityPoolPosition }
+  withdrawalPools: { [name: string]: WithdrawalPoolPosition }
+  sdlPools: { [name: string]: SDLPoolPosition }
+  rewards: { [name: string]: Sourced<RewardsPosition[]> }
+}
+
+export interface PositionChain {
+  network: string
+  provider: Provider
+  deployments: Deployments
+  distributions?: { [priorityPool: string]: DistributionData } // latest distribution of each priority pool
+  ipfs?: ReturnType<typeof createLocalIPFS> // local IPFS store missing distributions are resolved from
+  blockTag?: number | string
+}
+
+// returns undefined for calls that revert
+const tryRead = async <T>(read: () => Promise<T>): Promise<T | undefined> => {
+  try {
+    return await read()
+  } catch (error) {
+    return undefined
+  }
+}
+
+// returns a typechain contract connected to the provider of a chain
+const connect = async <T>(chain: PositionChain, artifact: string, address: string) =>
+  (await ethers.getContractAt(artifact, address)).connect(chain.provider) as any as T
+
+/**
+ * Returns the current chain for getAccountPosition
+ * @param distributions latest distribution of each priority pool
+ * @param ipfs local IPFS store missing distributions are resolved from
+ * @returns chain
+ */
+export const getCurrentChain = (
+  distributions?: PositionChain['distributions'],
+  ipfs?: PositionChain['ipfs']
+): PositionChain => ({
+  network: network.name,
+  provider: ethers.provider,
+  deployments: getDeployments(),
+  distributions,
+  ipfs,
+})
+
+/**
+ * Returns the position of an account across staking pools, priority pool queues, withdrawal
+ * pools, SDL pools and rewards pool controllers
+ * @dev every field records the contract and block it was read from, all fields of a chain are read
+ * at the same block, pass one chain per network to combine a primary SDL pool chain with its
+ * secondary chains (sections are keyed by <network>:<deployment name> when there is more than
+ * one chain)
+ * @dev priority pool amounts depend on the latest distribution, distributions that are not passed
+ * are resolved from the local IPFS store and amounts are undefined if they are not in the store
+ * @param account account address
+ * @param chains chains to read (default: current network)
+ * @returns account position
+ */
+export const getAccountPosition = async (
+  account: string,
+  chains: PositionChain[] = [getCurrentChain()]
+): Promise<AccountPosition> => {
+  const address = ethers.getAddress(account)
+  const position: AccountPosition = {
+    account: address,
+    stakingPools: {},
+    priorityPools: {},
+    withdrawalPools: {},
+    sdlPools: {},
+    rewards: {},
+  }
+
+  for (const chain of chains) {
+    const { deployments } = chain
+    const blockTag = (await chain.provider.getBlock(chain.blockTag || 'latest'))!.number
+    const key = (name: string) => (chains.length > 1 ? `${chain.network}:${name}` : name)
+    const sourced = <T>(name: string, call: string, value: T): Sourced<T> => ({
+      value,
+      source: {
+        network: chain.network,
+        contract: name,
+        address: deployments[name].address,
+        call,
+        blockNumber: blockTag,
+      },
+    })
+    const names = (artifacts: string[]) =>
+      Object.keys(deployments).filter((name) => artifacts.includes(deployments[name].artifact))
+
+    for (const name of names(['StakingPool'])) {
+      const pool = await connect<StakingPool>(chain, 'StakingPool', deployments[name].address)
+      position.stakingPools[key(name)] = {
+        shares: sourced(name, 'sharesOf', await pool.sharesOf(address, { blockTag })),
+        balance: sourced(name, 'balanceOf', await pool.balanceOf(address, { blockTag })),
+      }
+    }
+
+    for (const name of names(['PriorityPool'])) {
+      const pool = await connect<PriorityPool>(chain, 'PriorityPool', deployments[name].address)
+      const distribution =
+        chain.distributions?.[name] ??
+        (await getLatestDistribution(pool, chain.ipfs || createLocalIPFS(), blockTag))
+      const proof = distribution && getDistributionProof(distribution, address)
+
+      position.priorityPools[key(name)] = {
+        queuedTokens: sourced(
+          name,
+          'getQueuedTokens',
+          proof && (await pool.getQueuedTokens(address, proof.amount, { blockTag }))
+        ),
+        lsdTokens: sourced(
+          name,
+          'getLSDTokens',
+          proof && (await pool.getLSDTokens(address, proof.sharesAmount, { blockTag }))
+        ),
+      }
+    }
+
+    for (const name of names(['WithdrawalPool'])) {
+      const pool = await connect<WithdrawalPool>(chain, 'WithdrawalPool', deployments[name].address)
+      const withdrawalIds = [...(await pool.getWithdrawalIdsByOwner(address, { blockTag }))]
+      const withdrawals = await pool.getWithdrawals(withdrawalIds, { blockTag })
+      const batchIds = await pool.getBatchIds(withdrawalIds, { blockTag })
+      const batches =
+        (await readWithdrawalBatches(
+          deployments[name].address,
+          blockTag,
+          batchIds.filter((id) => id != 0n).map(Number),
+          chain.provider
+        )) || []
+      const stakePerShares = new Map(
+        batches.map((batch) => [batch.id, BigInt(batch.stakePerShares)])
+      )
+
+      const positions = withdrawalIds.map((withdrawalId, i) => {
+        const batchId = batchIds[i]
+        const { sharesRemaining, partiallyWithdrawableAmount } = withdrawals[i]
+        const claimable =
+          partiallyWithdrawableAmount +
+          (batchId != 0n
+            ? ((stakePerShares.get(Number(batchId)) || 0n) * sharesRemaining) / 10n ** 18n
+            : 0n)
+        return { withdrawalId, batchId, sharesRemaining, partiallyWithdrawableAmount, claimable }
+      })
+      const finalized = await tryRead(() =>
+        pool.getFinalizedWithdrawalIdsByOwner(address, { blockTag })
+      )
+
+      position.withdrawalPools[key(name)] = {
+        withdrawals: sourced(name, 'getWithdrawals', positions),
+        finalizedWithdrawalIds: finalized
+          ? sourced(name, 'getFinalizedWithdrawalIdsByOwner', [...finalized[0]])
+          : sourced(
+              name,
+              'getBatchIds',
+              positions.filter((w) => w.claimable != 0n).map((w) => w.withdrawalId)
+            ),
+        totalClaimable: finalized
+          ? sourced(name, 'getFinalizedWithdrawalIdsByOwner', finalized[1])
+          : sourced(
+              name,
+              'getWithdrawals',
+              positions.reduce((sum, w) => sum + w.claimable, 0n)
+            ),
+      }
+    }
+
+    for (const name of names(['SDLPool', 'SDLPoolPrimary', 'SDLPoolSecondary'])) {
+      const pool = await connect<SDLPoolPrimary>(chain, 'SDLPoolPrimary', deployments[name].address)
+      const lockIds = [...(await pool.getLockIdsByOwner(address, { blockTag }))]
+      const locks = await pool.getLocks(lockIds, { blockTag })
+
+      position.sdlPools[key(name)] = {
+        chain: deployments[name].artifact == 'SDLPoolSecondary' ? 'secondary' : 'primary',
+        locks: sourced(
+          name,
+          'getLocks',
+          locks.map((lock, i) => ({
+            lockId: lockIds[i],
+            amount: lock.amount,
+            boostAmount: lock.boostAmount,
+            startTime: lock.startTime,
+            duration: lock.duration,
+            expiry: lock.expiry,
+            unlockInitiableAt: lock.startTime + lock.duration / 2n,
+          }))
+        ),
+        effectiveBalance: sourced(
+          name,
+          'effectiveBalanceOf',
+          await pool.effectiveBalanceOf(address, { blockTag })
+        ),
+      }
+    }
+
+    const tokenNames = new Map(
+      Object.keys(deployments).map((name) => [deployments[name].address.toLowerCase(), name])
+    )
+    for (const known of Object.values(await getKnownContracts(deployments))) {
+      if (!known.iface.getFunction('withdrawableRewards(address)')) continue
+      if (!known.iface.getFunction('supportedTokens()')) continue
+
+      const controller = await connect<RewardsPoolController>(
+        chain,
+        'RewardsPoolController',
+        known.address
+      )
+      const tokens = await controller.supportedTokens({ blockTag })
+      const amounts = await controller.withdrawableRewards(address, { blockTag })
+
+      position.rewards[key(known.name)] = sourced(
+        known.name,
+        'withdrawableRewards',
+        tokens.map((token, i) => ({
+          token,
+          tokenName: tokenNames.get(token.toLowerCase()),
+          amount: amounts[i],
+        }))
+      )
+    }
+  }
+
+  return position
+}
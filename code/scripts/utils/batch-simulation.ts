@@ -0,0 +1,244 @@
+import { FunctionFragment, Interface, Result } from 'ethers'
+import { artifacts, ethers, network } from 'hardhat'
+import { Deployments } from './deployment'
+import { getErrorDecoder } from './errors'
+import { getStructKeys } from './helpers'
+import { SafeBatch } from './multisig'
+
+export interface KnownContract {
+  name: string // deployment name
+  contractName: string // contract name of artifact
+  address: string
+  iface: Interface
+}
+
+export interface SimulatedEvent {
+  address: string
+  contract?: string
+  name?: string
+  args?: any
+  topics?: string[]
+  data?: string
+}
+
+export interface SimulatedCall {
+  to: string
+  contract?: string
+  method?: string
+  status: 'success' | 'reverted' | 'skipped'
+  error?: string
+  gasUsed?: string
+  events: SimulatedEvent[]
+}
+
+export interface StateDiff {
+  contract: string
+  address: string
+  getter: string
+  before: any
+  after: any
+}
+
+export interface SimulationReport {
+  safe: string
+  blockNumber: number
+  success: boolean
+  calls: SimulatedCall[]
+  diffs: StateDiff[]
+}
+
+/**
+ * Formats a decoded value so it can be compared and serialized
+ * @param value decoded value
+ * @returns formatted value
+ */
+export const formatValue = (value: any): any => {
+  if (typeof value == 'bigint') return value.toString()
+  if (value instanceof Result) {
+    // structs are formatted as objects
+    const keys = getStructKeys(value)
+    if (keys) return Object.fromEntries(keys.map((key) => [key, formatValue(value.getValue(key))]))
+    return value.toArray().map(formatValue)
+  }
+  if (Array.isArray(value)) return value.map(formatValue)
+  return value
+}
+
+/**
+ * Returns the interfaces of all contracts in a deployments file
+ * @dev deployments whose artifact is not compiled in this repo are skipped
+ * @param deployments deployments
+ * @returns known contracts by lowercase address
+ */
+export const getKnownContracts = async (deployments: Deployments) => {
+  const contracts: { [address: string]: KnownContract } = {}
+
+  for (const name of Object.keys(deployments)) {
+    const { address, artifact } = deployments[name]
+    try {
+      const { abi, contractName } = await artifacts.readArtifact(artifact)
+      contracts[address.toLowerCase()] = { name, contractName, address, iface: new Interface(abi) }
+    } catch (error) {}
+  }
+
+  return contracts
+}
+
+/**
+ * Reads all public getters without inputs of a contract
+ * @param contract known contract
+ * @param blockTag block to read state at
+ * @returns getter values by signature
+ */
+export const readGetters = async (
+  contract: KnownContract,
+  blockTag: number | string = 'latest'
+) => {
+  const values: { [getter: string]: any } = {}
+
+  for (const fragment of contract.iface.fragments) {
+    if (fragment.type != 'function') continue
+    const fn = fragment as FunctionFragment
+    if (!fn.constant || fn.inputs.length != 0) continue
+
+    try {
+      const result = await ethers.provider.call({
+        to: contract.address,
+        data: contract.iface.encodeFunctionData(fn),
+        blockTag,
+      })
+      const decoded = contract.iface.decodeFunctionResult(fn, result)
+      values[fn.format()] = formatValue(decoded.length == 1 ? decoded[0] : decoded)
+    } catch (error) {
+      values[fn.format()] = 'reverted'
+    }
+  }
+
+  return values
+}
+
+const decodeLog = (
+  log: { address: string; topics: readonly string[]; data: string },
+  contracts: { [address: string]: KnownContract }
+): SimulatedEvent => {
+  const emitter = contracts[log.address.toLowerCase()]
+  const candidates = emitter ? [emitter, ...Object.values(contracts)] : Object.values(contracts)
+
+  for (const { iface } of candidates) {
+    try {
+      const parsed = iface.parseLog(log)
+      if (!parsed) continue
+      return {
+        address: log.address,
+        contract: emitter?.name,
+        name: parsed.signature,
+        args: formatValue(parsed.args),
+      }
+    } catch (error) {}
+  }
+
+  return { address: log.address, contract: emitter?.name, topics: [...log.topics], data: log.data }
+}
+
+/**
+ * Forks a network on the hardhat network
+ * @param url JSON-RPC url of the network to fork (can be a snapshot server)
+ * @param blockNumber block to fork at
+ */
+export const forkNetwork = async (url: string, blockNumber: number) => {
+  await network.provider.request({
+    method: 'hardhat_reset',
+    params: [{ forking: { jsonRpcUrl: url, blockNumber } }],
+  })
+}
+
+/**
+ * Simulates a Safe batch on the current network with the Safe impersonated
+ * @dev calls are sent one by one from the Safe, if any call reverts the batch is rolled back like it
+ * would be on-chain and later calls are skipped
+ * @dev state diffs cover the public getters without inputs of every called contract and every
+ * contract that emitted an event
+ * @param batch batch
+ * @param contracts known contracts used to decode calls and events and to read state
+ * @returns simulation report
+ */
+export const simulateBatch = async (
+  batch: SafeBatch,
+  contracts: { [address: string]: KnownContract }
+): Promise<SimulationReport> => {
+  if (!['localhost', 'hardhat'].includes(network.name)) {
+    throw Error(`Cannot simulate a batch on ${network.name}`)
+  }
+
+  await network.provider.send('hardhat_impersonateAccount', [batch.safe])
+  await network.provider.send('hardhat_setBalance', [batch.safe, '0x56BC75E2D63100000'])
+  const safe = await ethers.getSigner(batch.safe)
+  const errorDecoder = await getErrorDecoder()
+
+  const snapshotId = await network.provider.send('evm_snapshot', [])
+  const report: SimulationReport = {
+    safe: batch.safe,
+    blockNumber: await ethers.provider.getBlockNumber(),
+    success: true,
+    calls: [],
+    diffs: [],
+  }
+
+  for (const call of batch.calls) {
+    const target = contracts[call.to.toLowerCase()]
+    const method = target?.iface.parseTransaction({ data: call.data, value: BigInt(call.value) })
+    const simulated: SimulatedCall = {
+      to: call.to,
+      contract: target?.name,
+      method: method ? `${method.name}(${method.args.map(formatValue).join(', ')})` : undefined,
+      status: 'skipped',
+      events: [],
+    }
+    report.calls.push(simulated)
+    if (!report.success) continue
+
+    try {
+      const tx = await safe.sendTransaction({ to: call.to, data: call.data, value: call.value })
+      const receipt = await tx.wait()
+      simulated.status = 'success'
+      simulated.gasUsed = receipt?.gasUsed.toString()
+      simulated.events = (receipt?.logs || []).map((log) => decodeLog(log, contracts))
+    } catch (error: any) {
+      simulated.status = 'reverted'
+      simulated.error = errorDecoder.formatError(error, target?.contractName)
+      report.success = false
+    }
+  }
+
+  if (!report.success) {
+    await network.provider.send('evm_revert', [snapshotId])
+    return report
+  }
+
+  // touched contracts are all called contracts and all contracts that emitted events
+  const touched = [
+    ...new Set([
+      ...batch.calls.map((call) => call.to.toLowerCase()),
+      ...report.calls.flatMap((call) => call.events.map((event) => event.address.toLowerCase())),
+    ]),
+  ]
+    .map((address) => contracts[address])
+    .filter((contract) => contract != undefined)
+
+  const before = await Promise.all(touched.map((c) => readGetters(c, report.blockNumber)))
+  const after = await Promise.all(touched.map((c) => readGetters(c)))
+  touched.forEach((contract, i) => {
+    for (const getter of Object.keys(after[i])) {
+      if (JSON.stringify(before[i][getter]) == JSON.stringify(after[i][getter])) continue
+      report.diffs.push({
+        contract: contract.name,
+        address: contract.address,
+        getter,
+        before: before[i][getter],
+        after: after[i][getter],
+      })
+    }
+  })
+
+  return report
+}
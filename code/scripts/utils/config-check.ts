@@ -0,0 +1,101 @@
+import { BaseContract } from 'ethers'
+import { ethers } from 'hardhat'
+import { Deployments, getDeployments } from './deployment'
+import { formatError } from './errors'
+import { ManifestArg } from './manifest'
+
+export interface ContractConfig {
+  contract: string // deployment name
+  getters: { [getter: string]: ManifestArg } // expected return value of zero-arg getters
+}
+
+export interface ConfigDiff {
+  contract: string
+  getter: string
+  expected: string
+  actual: string
+  match: boolean
+}
+
+/**
+ * Declares the expected configuration of a deployed contract
+ * @dev getter names are checked against the typechain type of the contract, expected values use the
+ * same format as manifest args so refs/accounts resolve to addresses
+ * @param contract deployment name
+ * @param getters expected return value of zero-arg getters
+ * @returns contract config
+ */
+export const defineConfig = <C extends BaseContract>(
+  contract: string,
+  getters: { [K in keyof C & string]?: ManifestArg }
+): ContractConfig => ({ contract, getters: getters as { [getter: string]: ManifestArg } })
+
+/**
+ * Normalizes a getter return value or resolved expected value so they can be compared
+ * @dev addresses are lowercased, numbers and bigints are converted to strings and structs/tuples
+ * are converted to arrays
+ * @param value value to normalize
+ * @returns normalized value as JSON
+ */
+export const normalizeValue = (value: any): string => {
+  const normalize = (v: any): any => {
+    if (Array.isArray(v)) return [...v].map(normalize)
+    if (typeof v == 'bigint' || typeof v == 'number') return v.toString()
+    if (typeof v == 'string' && ethers.isAddress(v)) return v.toLowerCase()
+    return v
+  }
+  return JSON.stringify(normalize(value))
+}
+
+/**
+ * Compares the live configuration of deployed contracts against their declared configuration
+ * @dev contracts are connected to the default signer but getters are only read with static calls so
+ * the check never sends or signs a transaction, refs to contracts missing from deployments never match
+ * @param configs list of contract configs
+ * @param deployments deployments to resolve contracts and refs from
+ * @param blockTag block to read state at
+ * @returns one entry for every checked getter
+ */
+export const checkConfig = async (
+  configs: ContractConfig[],
+  deployments: Deployments = getDeployments(),
+  blockTag: string | number = 'latest'
+): Promise<ConfigDiff[]> => {
+  const signers = await ethers.getSigners()
+  const diffs: ConfigDiff[] = []
+
+  const resolve = async (arg: any): Promise<any> => {
+    if (Array.isArray(arg)) return Promise.all(arg.map(resolve))
+    if (arg && typeof arg == 'object' && 'ref' in arg) {
+      return deployments[arg.ref]?.address || `<${arg.ref} not deployed>`
+    }
+    if (arg && typeof arg == 'object' && 'account' in arg) {
+      return signers[arg.account].getAddress()
+    }
+    return arg
+  }
+
+  for (const { contract: name, getters } of configs) {
+    const deployment = deployments[name]
+    const contract = deployment
+      ? await ethers.getContractAt(deployment.artifact, deployment.address)
+      : undefined
+
+    for (const [getter, expectedValue] of Object.entries(getters)) {
+      const expected = normalizeValue(await resolve(expectedValue))
+      let actual = 'not deployed'
+
+      if (contract) {
+        try {
+          actual = normalizeValue(await contract.getFunction(getter).staticCall({ blockTag }))
+        } catch (error: any) {
+          actual = `error: ${await formatError(error, deployment.artifact)}`
+        }
+      }
+
+      diffs.push({ contract: name, getter, expected, actual, match: expected == actual })
+    }
+  }
+
+  return diffs
+}
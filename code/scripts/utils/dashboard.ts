@@ -0,0 +1,346 @@
+import { ethers } from 'hardhat'
+import {
+  DistributionOracle,
+  InsurancePool,
+  IStrategy,
+  PriorityPool,
+  StakingPool,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { Deployments } from './deployment'
+import { getLatestDistribution, getPreviousEntry } from './distribution'
+import { createLocalIPFS } from './ipfs'
+
+export interface StrategyHealth {
+  name?: string // deployment name of strategy
+  address: string
+  depositChange: bigint | undefined
+  maxDeposits: bigint
+  minDeposits: bigint
+}
+
+export interface StakingPoolHealth {
+  name: string
+  address: string
+  symbol: string
+  sharePrice: bigint // stake per 1e18 shares
+  totalStaked: bigint
+  strategies: StrategyHealth[]
+}
+
+export interface PriorityPoolHealth {
+  name: string
+  address: string
+  poolStatus: number
+  totalQueued: bigint
+  queuedAccounts: number | undefined // accounts with undistributed queued tokens
+  depositsSinceLastUpdate: bigint
+}
+
+export interface WithdrawalPoolHealth {
+  name: string
+  address: string
+  totalQueuedWithdrawals: bigint
+}
+
+export interface InsurancePoolHealth {
+  name: string
+  address: string
+  totalDeposits: bigint
+  claimInProgress: boolean
+  maxClaimAmountBP: bigint
+}
+
+export interface DistributionOracleHealth {
+  name: string
+  address: string
+  timeOfLastUpdate: bigint
+  pausedAtBlockNumber: bigint
+  requestInProgress: boolean
+  awaitingManualVerification: boolean
+  pendingUpkeep?: 'pause' | 'request' // upkeep that checkUpkeep reports as needed
+}
+
+export interface DashboardState {
+  network: string
+  blockNumber: number
+  timestamp: number
+  stakingPools: StakingPoolHealth[]
+  priorityPools: PriorityPoolHealth[]
+  withdrawalPools: WithdrawalPoolHealth[]
+  insurancePools: InsurancePoolHealth[]
+  distributionOracles: DistributionOracleHealth[]
+}
+
+// returns undefined for calls that revert
+const tryRead = async <T>(read: () => Promise<T>): Promise<T | undefined> => {
+  try {
+    return await read()
+  } catch (error) {
+    return undefined
+  }
+}
+
+const getNames = (deployments: Deployments, artifact: string) =>
+  Object.keys(deployments).filter((name) => deployments[name].artifact == artifact)
+
+/**
+ * Reads the health of all staking pools, priority pools, withdrawal pools, insurance pools and
+ * distribution oracles in a deployments file
+ * @dev contracts are found by deployment artifact so any network with a deployments file works
+ * @dev queued accounts of a priority pool are counted using its latest distribution (tokens
+ * deposited since then are still counted as queued) and are undefined if the distribution is not
+ * in the IPFS store
+ * @param deployments deployments to read
+ * @param networkName network name shown on the dashboard
+ * @param blockTag block to read state at
+ * @param ipfs local IPFS store distributions are published to
+ * @returns dashboard state
+ */
+export const readDashboard = async (
+  deployments: Deployments,
+  networkName: string,
+  blockTag: number | string = 'latest',
+  ipfs = createLocalIPFS()
+): Promise<DashboardState> => {
+  const block = (await ethers.provider.getBlock(blockTag))!
+  const overrides = { blockTag: block.number }
+  const names = new Map(
+    Object.keys(deployments).map((name) => [deployments[name].address.toLowerCase(), name])
+  )
+
+  const stakingPools = await Promise.all(
+    getNames(deployments, 'StakingPool').map(async (name) => {
+      const pool = (await ethers.getContractAt(
+        'StakingPool',
+        deployments[name].address
+      )) as StakingPool
+      const strategies = await pool.getStrategies(overrides)
+
+      return {
+        name,
+        address: deployments[name].address,
+        symbol: await pool.symbol(overrides),
+        sharePrice: await pool.getStakeByShares(ethers.parseEther('1'), overrides),
+        totalStaked: await pool.totalStaked(overrides),
+        strategies: await Promise.all(
+          strategies.map(async (address) => {
+            const strategy = (await ethers.getContractAt('IStrategy', address)) as IStrategy
+            return {
+              name: names.get(address.toLowerCase()),
+              address,
+              depositChange: await tryRead(() => strategy.getDepositChange(overrides)),
+              maxDeposits: await strategy.getMaxDeposits(overrides),
+              minDeposits: await strategy.getMinDeposits(overrides),
+            }
+          })
+        ),
+      }
+    })
+  )
+
+  const priorityPools = await Promise.all(
+    getNames(deployments, 'PriorityPool').map(async (name) => {
+      const pool = (await ethers.getContractAt(
+        'PriorityPool',
+        deployments[name].address
+      )) as PriorityPool
+      const distribution = await getLatestDistribution(pool, ipfs, block.number)
+
+      let queuedAccounts: number | undefined
+      if (distribution) {
+        const [accounts, , queuedBalances] = await pool.getAccountData(overrides)
+        queuedAccounts = accounts.filter(
+          (account, i) => queuedBalances[i] > getPreviousEntry(distribution, account).amount
+        ).length
+      }
+
+      return {
+        name,
+        address: deployments[name].address,
+        poolStatus: Number(await pool.poolStatus(overrides)),
+        totalQueued: await pool.totalQueued(overrides),
+        queuedAccounts,
+        depositsSinceLastUpdate: await pool.depositsSinceLastUpdate(overrides),
+      }
+    })
+  )
+
+  const withdrawalPools = await Promise.all(
+    getNames(deployments, 'WithdrawalPool').map(async (name) => {
+      const pool = (await ethers.getContractAt(
+        'WithdrawalPool',
+        deployments[name].address
+      )) as WithdrawalPool
+      return {
+        name,
+        address: deployments[name].address,
+        totalQueuedWithdrawals: await pool.getTotalQueuedWithdrawals(overrides),
+      }
+    })
+  )
+
+  const insurancePools = await Promise.all(
+    getNames(deployments, 'InsurancePool').map(async (name) => {
+      const pool = (await ethers.getContractAt(
+        'InsurancePool',
+        deployments[name].address
+      )) as InsurancePool
+      return {
+        name,
+        address: deployments[name].address,
+        totalDeposits: await pool.totalDeposits(overrides),
+        claimInProgress: await pool.claimInProgress(overrides),
+        maxClaimAmountBP: await pool.maxClaimAmountBP(overrides),
+      }
+    })
+  )
+
+  const distributionOracles = await Promise.all(
+    getNames(deployments, 'DistributionOracle').map(async (name) => {
+      const oracle = (await ethers.getContractAt(
+        'DistributionOracle',
+        deployments[name].address
+      )) as DistributionOracle
+      const status = await oracle.updateStatus(overrides)
+      const upkeep = await tryRead(() => oracle.checkUpkeep('0x', overrides))
+
+      let pendingUpkeep: DistributionOracleHealth['pendingUpkeep']
+      if (upkeep?.[0]) {
+        const upkeepType = ethers.AbiCoder.defaultAbiCoder().decode(['uint8'], upkeep[1])[0]
+        pendingUpkeep = upkeepType == 0n ? 'pause' : 'request'
+      }
+
+      return {
+        name,
+        address: deployments[name].address,
+        timeOfLastUpdate: status.timeOfLastUpdate,
+        pausedAtBlockNumber: status.pausedAtBlockNumber,
+        requestInProgress: status.requestInProgress != 0n,
+        awaitingManualVerification: (await oracle.awaitingManualVerification(overrides)) != 0n,
+        pendingUpkeep,
+      }
+    })
+  )
+
+  return {
+    network: networkName,
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    stakingPools,
+    priorityPools,
+    withdrawalPools,
+    insurancePools,
+    distributionOracles,
+  }
+}
+
+const escape = (value: any) =>
+  String(value ?? '-').replace(
+    /[&<>"']/g,
+    (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string)
+  )
+
+const formatAmount = (value: bigint | undefined) =>
+  value == undefined ? undefined : Number(ethers.formatEther(value)).toLocaleString('en-US')
+
+const renderTable = (title: string, rows: { [column: string]: any }[]) => {
+  if (rows.length == 0) return ''
+  const columns = Object.keys(rows[0])
+  return `<h2>${escape(title)}</h2>
+<table>
+<tr>${columns.map((c) => `<th>${escape(c)}</th>`).join('')}</tr>
+${rows
+  .map((row) => `<tr>${columns.map((c) => `<td>${escape(row[c])}</td>`).join('')}</tr>`)
+  .join('\n')}
+</table>`
+}
+
+/**
+ * Renders dashboard state as a standalone HTML page
+ * @dev the page reloads itself whenever the server sends a block event on /events
+ * @param state dashboard state
+ * @returns HTML page
+ */
+export const renderDashboard = (state: DashboardState) => {
+  const poolStatuses = ['OPEN', 'DRAINING', 'CLOSED']
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Protocol health (${escape(state.network)})</title>
+<style>
+body { font-family: monospace; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 2em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+</style>
+</head>
+<body>
+<h1>${escape(state.network)} at block ${state.blockNumber}</h1>
+<p>${new Date(state.timestamp * 1000).toISOString()}</p>
+${renderTable(
+  'Staking pools',
+  state.stakingPools.map((pool) => ({
+    pool: pool.name,
+    'share price': `${ethers.formatEther(pool.sharePrice)} ${pool.symbol}`,
+    'total staked': formatAmount(pool.totalStaked),
+    strategies: pool.strategies.length,
+  }))
+)}
+${renderTable(
+  'Strategies',
+  state.stakingPools.flatMap((pool) =>
+    pool.strategies.map((strategy) => ({
+      strategy: strategy.name || strategy.address,
+      pool: pool.name,
+      'deposit change': formatAmount(strategy.depositChange),
+      'max deposits': formatAmount(strategy.maxDeposits),
+      'min deposits': formatAmount(strategy.minDeposits),
+    }))
+  )
+)}
+${renderTable(
+  'Priority pools',
+  state.priorityPools.map((pool) => ({
+    pool: pool.name,
+    status: poolStatuses[pool.poolStatus],
+    'total queued': formatAmount(pool.totalQueued),
+    'queued accounts': pool.queuedAccounts,
+    'deposits since last update': formatAmount(pool.depositsSinceLastUpdate),
+  }))
+)}
+${renderTable(
+  'Withdrawal pools',
+  state.withdrawalPools.map((pool) => ({
+    pool: pool.name,
+    'total queued withdrawals': formatAmount(pool.totalQueuedWithdrawals),
+  }))
+)}
+${renderTable(
+  'Insurance pools',
+  state.insurancePools.map((pool) => ({
+    pool: pool.name,
+    'total deposits': formatAmount(pool.totalDeposits),
+    'claim in progress': pool.claimInProgress,
+    'max claim (BP)': pool.maxClaimAmountBP,
+  }))
+)}
+${renderTable(
+  'Distribution oracles',
+  state.distributionOracles.map((oracle) => ({
+    oracle: oracle.name,
+    'last update': new Date(Number(oracle.timeOfLastUpdate) * 1000).toISOString(),
+    'paused at block': oracle.pausedAtBlockNumber,
+    'request in progress': oracle.requestInProgress,
+    'awaiting manual verification': oracle.awaitingManualVerification,
+    'pending upkeep': oracle.pendingUpkeep,
+  }))
+)}
+<script>
+new EventSource('/events').onmessage = () => location.reload()
+</script>
+</body>
+</html>`
+}
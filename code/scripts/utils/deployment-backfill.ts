@@ -0,0 +1,165 @@
+import { ethers, Provider } from 'ethers'
+import { Deployment, DeploymentEvent } from './deployment'
+
+// ERC1967 implementation slot
+const implementationSlot = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+const upgradedTopic = ethers.id('Upgraded(address)')
+
+/**
+ * Returns the implementation stored in the ERC1967 implementation slot of a contract
+ * @param provider provider
+ * @param address contract address
+ * @param blockTag block to read state at
+ * @returns implementation address or undefined if the contract is not a proxy
+ */
+export const getImplementation = async (
+  provider: Provider,
+  address: string,
+  blockTag: number | string = 'latest'
+) => {
+  const value = await provider.getStorage(address, implementationSlot, blockTag)
+  if (BigInt(value) == 0n) return
+  return ethers.getAddress(ethers.dataSlice(value, 12))
+}
+
+/**
+ * Returns the block a contract was created in
+ * @dev binary searches getCode so the provider must serve historical state
+ * @param provider provider
+ * @param address contract address
+ * @returns creation block or undefined if the address has no code
+ */
+export const getCreationBlock = async (provider: Provider, address: string) => {
+  let high = await provider.getBlockNumber()
+  if ((await provider.getCode(address, high)) == '0x') return
+
+  let low = 0
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if ((await provider.getCode(address, mid)) == '0x') {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+/**
+ * Returns the transaction that created a contract
+ * @dev only contracts created directly by an EOA transaction can be found
+ * @param provider provider
+ * @param address contract address
+ * @param blockNumber creation block
+ * @returns creation transaction or undefined if the contract was created by another contract
+ */
+export const getCreationTx = async (provider: Provider, address: string, blockNumber: number) => {
+  const block = await provider.getBlock(blockNumber, true)
+
+  for (const tx of block?.prefetchedTransactions || []) {
+    if (tx.to != null) continue
+    const receipt = await provider.getTransactionReceipt(tx.hash)
+    if (receipt?.contractAddress?.toLowerCase() == address.toLowerCase()) return tx
+  }
+}
+
+/**
+ * Returns all Upgraded events emitted by a proxy
+ * @param provider provider
+ * @param address proxy address
+ * @param fromBlock block to start searching from
+ * @param chunkSize max number of blocks to query logs for at once
+ * @returns list of upgrades in order
+ */
+export const getUpgrades = async (
+  provider: Provider,
+  address: string,
+  fromBlock: number,
+  chunkSize = 50000
+) => {
+  const toBlock = await provider.getBlockNumber()
+  const upgrades = []
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const logs = await provider.getLogs({
+      address,
+      topics: [upgradedTopic],
+      fromBlock: start,
+      toBlock: Math.min(start + chunkSize - 1, toBlock),
+    })
+    for (const log of logs) {
+      upgrades.push({
+        implementation: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+      })
+    }
+  }
+
+  return upgrades
+}
+
+/**
+ * Rebuilds the history of a deployment from chain
+ * @dev entries whose history already has block numbers are returned unchanged unless forced, args
+ * cannot be recovered from chain so any recorded args are kept
+ * @param provider provider
+ * @param entry deployment entry
+ * @param force whether to rebuild complete histories
+ * @returns backfilled entry
+ */
+export const backfillDeployment = async (
+  provider: Provider,
+  entry: Deployment,
+  force = false
+): Promise<Deployment> => {
+  if (!force && entry.history.every((event) => event.blockNumber != undefined)) return entry
+
+  const creationBlock = await getCreationBlock(provider, entry.address)
+  if (creationBlock == undefined) throw Error(`${entry.address} has no code`)
+
+  const creationTx = await getCreationTx(provider, entry.address, creationBlock)
+  const upgrades = await getUpgrades(provider, entry.address, creationBlock)
+  const isCurrent = (event: DeploymentEvent) =>
+    event.address.toLowerCase() == entry.address.toLowerCase()
+  const previous = entry.history.filter((event) => !isCurrent(event))
+  const deployEvent = entry.history.find((event) => event.type != 'upgrade' && isCurrent(event))
+
+  const deployed: DeploymentEvent = {
+    type: previous.length ? 'replace' : 'deploy',
+    address: entry.address,
+    artifact: entry.artifact,
+    implementation:
+      upgrades[0]?.blockNumber == creationBlock ? upgrades[0].implementation : undefined,
+    txHash: creationTx?.hash || deployEvent?.txHash,
+    blockNumber: creationBlock,
+    deployer: creationTx?.from,
+    args: deployEvent?.args,
+  }
+
+  const upgradeEvents: DeploymentEvent[] = []
+  for (const upgrade of upgrades.slice(deployed.implementation ? 1 : 0)) {
+    const tx = await provider.getTransaction(upgrade.txHash)
+    upgradeEvents.push({
+      type: 'upgrade',
+      address: entry.address,
+      artifact: entry.artifact,
+      ...upgrade,
+      deployer: tx?.from,
+    })
+  }
+
+  const implementation = upgradeEvents.length
+    ? upgradeEvents[upgradeEvents.length - 1].implementation
+    : deployed.implementation
+
+  return {
+    ...entry,
+    kind: implementation ? 'proxy' : entry.kind,
+    implementation,
+    txHash: deployed.txHash,
+    blockNumber: deployed.blockNumber,
+    deployer: deployed.deployer,
+    history: [...previous, deployed, ...upgradeEvents],
+  }
+}
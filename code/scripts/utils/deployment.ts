@@ -1,23 +1,129 @@
-import { Contract } from 'ethers'
+import { ContractTransactionResponse, TransactionResponse } from 'ethers'
 import fse from 'fs-extra'
 import { ethers, upgrades, network } from 'hardhat'
+import { getSigner } from './signers'
+
+export type DeploymentKind = 'contract' | 'proxy' | 'implementation'
+
+export interface DeploymentMetadata {
+  kind?: DeploymentKind
+  implementation?: string // implementation of a proxy
+  txHash?: string // deployment transaction
+  blockNumber?: number // deployment block
+  deployer?: string // sender of deployment transaction
+  args?: any[] // constructor args or initializer args of a proxy
+}
+
+export interface DeploymentEvent extends Omit<DeploymentMetadata, 'kind'> {
+  type: 'deploy' | 'replace' | 'upgrade'
+  address: string
+  artifact: string
+}
+
+export interface Deployment extends DeploymentMetadata {
+  address: string // address scripts interact with (proxy address for upgradeable contracts)
+  artifact: string
+  history: DeploymentEvent[] // every deployment, replacement and upgrade in order
+}
+
+export interface Deployments {
+  [name: string]: Deployment
+}
+
+// metadata of contracts deployed in this process, recorded once the contract is added to deployments
+const pendingMetadata = new Map<string, DeploymentMetadata>()
+
+const getDeploymentsPath = (networkName = network.name) => `deployments/${networkName}.json`
+
+// bigints are stored as strings and contracts as addresses so args can be serialized
+const serializeArgs = (args: any[]): any[] =>
+  args.map((arg) => {
+    if (Array.isArray(arg)) return serializeArgs(arg)
+    if (typeof arg == 'bigint') return arg.toString()
+    if (arg && typeof arg == 'object' && 'target' in arg) return arg.target
+    return arg
+  })
+
+const recordDeploymentTx = async (
+  address: string,
+  tx: ContractTransactionResponse | TransactionResponse | null,
+  args: any[],
+  metadata: DeploymentMetadata
+) => {
+  const receipt = await tx?.wait()
+  pendingMetadata.set(address.toLowerCase(), {
+    ...metadata,
+    txHash: tx?.hash,
+    blockNumber: receipt?.blockNumber,
+    deployer: tx?.from,
+    args: serializeArgs(args),
+  })
+}
+
+/**
+ * Converts deployments in the original {address, artifact} format to the current format
+ * @dev migration is lossless, existing fields are kept and a deploy event without metadata is added
+ * to the history of every entry, proxies are identified using the OpenZeppelin network manifest
+ * @param deployments deployments in either format
+ * @param proxies list of proxies from the OpenZeppelin network manifest
+ * @returns deployments in current format
+ */
+export const migrateDeployments = (
+  deployments: { [name: string]: any },
+  proxies: { address: string; txHash?: string }[] = []
+): Deployments => {
+  return Object.keys(deployments).reduce((acc, name) => {
+    const entry = deployments[name]
+    if (entry.history) {
+      acc[name] = entry
+      return acc
+    }
+
+    const proxy = proxies.find((p) => p.address.toLowerCase() == entry.address.toLowerCase())
+    const metadata: DeploymentMetadata = proxy ? { kind: 'proxy', txHash: proxy.txHash } : {}
+    const { kind, ...event } = metadata
+
+    acc[name] = {
+      ...entry,
+      ...metadata,
+      history: [{ type: 'deploy', address: entry.address, artifact: entry.artifact, ...event }],
+    }
+    return acc
+  }, {} as Deployments)
+}
 
 export const deploy = async (contractName: string, args: any[] = [], useLedgerSigner = false) => {
-  return ethers.deployContract(contractName, args) as any
+  const contract = await ethers.deployContract(contractName, args, await getSigner(useLedgerSigner))
+  await contract.waitForDeployment()
+  await recordDeploymentTx(await contract.getAddress(), contract.deploymentTransaction(), args, {
+    kind: 'contract',
+  })
+  return contract as any
 }
 
 export const deployUpgradeable = async (
   contractName: string,
   args: any[] = [],
-  useLedgerSigner = false
+  useLedgerSigner = false,
+  options = {}
 ) => {
-  const Contract = await ethers.getContractFactory(contractName)
-  return upgrades.deployProxy(Contract, args, { kind: 'uups' }) as any
+  const Contract = await ethers.getContractFactory(contractName, await getSigner(useLedgerSigner))
+  const contract = await upgrades.deployProxy(Contract, args, { kind: 'uups', ...options })
+  await contract.waitForDeployment()
+
+  const address = await contract.getAddress()
+  await recordDeploymentTx(address, contract.deploymentTransaction(), args, {
+    kind: 'proxy',
+    implementation: await upgrades.erc1967.getImplementationAddress(address),
+  })
+  return contract as any
 }
 
 export const deployImplementation = async (contractName: string, useLedgerSigner = false) => {
-  const Contract = await ethers.getContractFactory(contractName)
-  return upgrades.deployImplementation(Contract, { kind: 'uups' })
+  const Contract = await ethers.getContractFactory(contractName, await getSigner(useLedgerSigner))
+  const address = (await upgrades.deployImplementation(Contract, { kind: 'uups' })) as string
+  pendingMetadata.set(address.toLowerCase(), { kind: 'implementation' })
+  return address
 }
 
 export const upgradeProxy = async (
@@ -32,19 +138,19 @@ export const upgradeProxy = async (
     call,
     kind: 'uups',
   })
-  await contract.deployed()
+  await contract.waitForDeployment()
   return contract
 }
 
-export const getDeployments = () => {
-  fse.ensureFileSync(`deployments/${network.name}.json`)
-  const deployments = fse.readJSONSync(`deployments/${network.name}.json`, { throws: false })
+export const getDeployments = (networkName = network.name): Deployments => {
+  fse.ensureFileSync(getDeploymentsPath(networkName))
+  const deployments = fse.readJSONSync(getDeploymentsPath(networkName), { throws: false })
 
   if (!deployments) {
     return {}
   }
 
-  return deployments
+  return migrateDeployments(deployments)
 }
 
 export const updateDeployments = (
@@ -53,21 +159,118 @@ export const updateDeployments = (
 ) => {
   const deployments = getDeployments()
 
-  let contractNames = Object.keys(newDeployments)
-  let newDeploymentsWithArtifacts = contractNames.reduce(
-    (acc, name: string) => (
-      (acc[name] = { address: newDeployments[name], artifact: artifactMap[name] || name }), acc
-    ),
-    {} as any
-  )
+  Object.keys(newDeployments).forEach((name) => {
+    const address = newDeployments[name]
+    const artifact = artifactMap[name] || name
+    const metadata = pendingMetadata.get(address.toLowerCase()) || {}
+    const existing = deployments[name]
+
+    if (existing && existing.address.toLowerCase() == address.toLowerCase()) {
+      deployments[name] = { ...existing, ...metadata, artifact }
+      return
+    }
+
+    if (existing) {
+      console.log(`Warning: ${name} replaced, ${existing.address} -> ${address}`)
+    }
+
+    const { kind, ...event } = metadata
+    deployments[name] = {
+      address,
+      artifact,
+      ...metadata,
+      history: [
+        ...(existing?.history || []),
+        { type: existing ? 'replace' : 'deploy', address, artifact, ...event },
+      ],
+    }
+  })
+
+  fse.outputJSONSync(getDeploymentsPath(), deployments, { spaces: 2 })
+}
+
+/**
+ * Records an upgrade of a proxy in the deployments file
+ * @param name deployment name of the proxy
+ * @param implementation address of the new implementation
+ * @param tx upgrade transaction
+ * @param artifact artifact of the new implementation (default: current artifact)
+ */
+export const recordUpgrade = async (
+  name: string,
+  implementation: string,
+  tx?: ContractTransactionResponse | TransactionResponse | null,
+  artifact?: string
+) => {
+  const receipt = await tx?.wait()
+  const deployments = getDeployments()
+  const entry = deployments[name]
+
+  if (!entry) {
+    throw Error('Deployed contract does not exist')
+  }
+
+  entry.artifact = artifact || entry.artifact
+  entry.kind = 'proxy'
+  entry.implementation = implementation
+  entry.history.push({
+    type: 'upgrade',
+    address: entry.address,
+    implementation,
+    artifact: entry.artifact,
+    txHash: tx?.hash,
+    blockNumber: receipt?.blockNumber,
+    deployer: tx?.from,
+  })
+
+  fse.outputJSONSync(getDeploymentsPath(), deployments, { spaces: 2 })
+}
+
+/**
+ * Returns the address, implementation and artifact a deployment had at a block
+ * @dev throws if the history contains events without a block number (migrated entries that have
+ * not been backfilled) as their position relative to the block is unknown
+ * @param name deployment name
+ * @param blockNumber block number
+ * @param deployments deployments (default: deployments file of current network)
+ * @returns deployment event that was active at the block or undefined if not yet deployed
+ */
+export const getDeploymentAt = (
+  name: string,
+  blockNumber: number,
+  deployments: Deployments = getDeployments()
+) => {
+  const entry = deployments[name]
 
-  fse.outputJSONSync(
-    `deployments/${network.name}.json`,
-    { ...deployments, ...newDeploymentsWithArtifacts },
-    { spaces: 2 }
-  )
+  if (!entry) {
+    throw Error('Deployed contract does not exist')
+  }
+  if (entry.history.some((event) => event.blockNumber == undefined)) {
+    throw Error(`History of ${name} is incomplete, backfill it from chain first`)
+  }
+
+  let active: DeploymentEvent | undefined
+  for (const event of entry.history) {
+    if ((event.blockNumber as number) > blockNumber) break
+    active = event
+  }
+
+  return active
 }
 
+/**
+ * Returns the implementation a proxy had at a block
+ * @param name deployment name of the proxy
+ * @param blockNumber block number
+ * @param deployments deployments (default: deployments file of current network)
+ * @returns implementation address or undefined if not deployed or not a proxy at the block
+ */
+export const getImplementationAt = (
+  name: string,
+  blockNumber: number,
+  deployments: Deployments = getDeployments()
+) => getDeploymentAt(name, blockNumber, deployments)?.implementation
+
 export const getContract = async (contractName: string, useLedgerSigner = false): Promise<any> => {
   const deployments = getDeployments()
   const contract = deployments[contractName]
@@ -76,14 +279,17 @@ export const getContract = async (contractName: string, useLedgerSigner = false)
     throw Error('Deployed contract does not exist')
   }
 
-  return ethers.getContractAt(contract.artifact, contract.address) as any
+  return ethers.getContractAt(
+    contract.artifact,
+    contract.address,
+    await getSigner(useLedgerSigner)
+  ) as any
 }
 
 export const printDeployments = () => {
-  fse.ensureFileSync(`deployments/${network.name}.json`)
-  const deployments = fse.readJSONSync(`deployments/${network.name}.json`, { throws: false })
+  const deployments = getDeployments()
 
-  if (!deployments) {
+  if (!Object.keys(deployments).length) {
     console.log('Deployments: Nothing to print')
   }
 
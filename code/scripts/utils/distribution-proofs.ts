@@ -0,0 +1,205 @@
+import http from 'http'
+import { ethers } from 'ethers'
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree'
+import { PriorityPool } from '../../typechain-types'
+import { DistributionData, distributionLeafEncoding, getDistributionTree } from './distribution'
+
+export interface DistributionProof {
+  account: string
+  amount: string // amount as recorded in account's merkle tree entry
+  sharesAmount: string // shares amount as recorded in account's merkle tree entry
+  merkleProof: string[] // empty if account is not included in the tree
+}
+
+export interface UnclaimedAccount {
+  account: string
+  sharesAmount: string
+  lsdTokens: bigint // PriorityPool.getLSDTokens
+}
+
+/**
+ * Returns the claimLSDTokens/withdraw/unqueueTokens arguments for an account
+ * @dev accounts that are not included in the tree receive zero amounts and an empty proof which is
+ * what PriorityPool expects for accounts that have queued since the last distribution
+ * @param distribution distribution
+ * @param account account address
+ * @param tree merkle tree for the distribution (built if not passed)
+ * @returns account's tree entry and merkle proof
+ */
+export const getDistributionProof = (
+  distribution: DistributionData,
+  account: string,
+  tree = getDistributionTree(distribution.data)
+): DistributionProof => {
+  const address = ethers.getAddress(account)
+  const entry = distribution.data[address]
+
+  if (!entry) {
+    return { account: address, amount: '0', sharesAmount: '0', merkleProof: [] }
+  }
+
+  return {
+    account: address,
+    amount: entry.amount,
+    sharesAmount: entry.sharesAmount,
+    merkleProof: tree.getProof([address, entry.amount, entry.sharesAmount]),
+  }
+}
+
+/**
+ * Returns whether a proof is valid for a merkle root
+ * @param merkleRoot merkle root
+ * @param proof proof to verify
+ * @returns true if valid, false otherwise
+ */
+export const verifyDistributionProof = (merkleRoot: string, proof: DistributionProof) => {
+  return StandardMerkleTree.verify(
+    merkleRoot,
+    distributionLeafEncoding,
+    [proof.account, proof.amount, proof.sharesAmount],
+    proof.merkleProof
+  )
+}
+
+/**
+ * Returns the arguments for PriorityPool.withdraw
+ * @param proof account's distribution proof
+ * @param amountToWithdraw amount of tokens to withdraw
+ * @param shouldUnqueue whether tokens should be unqueued before taking LSD tokens
+ * @param shouldQueueWithdrawal whether a withdrawal should be queued if it cannot be fully satisfied
+ * @returns withdraw arguments
+ */
+export const getWithdrawArgs = (
+  proof: DistributionProof,
+  amountToWithdraw: bigint,
+  shouldUnqueue = true,
+  shouldQueueWithdrawal = false
+) => {
+  return [
+    amountToWithdraw,
+    proof.amount,
+    proof.sharesAmount,
+    proof.merkleProof,
+    shouldUnqueue,
+    shouldQueueWithdrawal,
+  ] as const
+}
+
+/**
+ * Returns the arguments for PriorityPool.unqueueTokens
+ * @param proof account's distribution proof
+ * @param amountToUnqueue amount of tokens to unqueue
+ * @returns unqueueTokens arguments
+ */
+export const getUnqueueArgs = (proof: DistributionProof, amountToUnqueue: bigint) => {
+  return [amountToUnqueue, proof.amount, proof.sharesAmount, proof.merkleProof] as const
+}
+
+/**
+ * Returns the arguments for PriorityPool.claimLSDTokens
+ * @param proof account's distribution proof
+ * @returns claimLSDTokens arguments
+ */
+export const getClaimArgs = (proof: DistributionProof) => {
+  return [proof.amount, proof.sharesAmount, proof.merkleProof] as const
+}
+
+/**
+ * Creates a proof service for a priority pool
+ * @dev every proof is verified against the current on-chain merkle root before it's returned
+ * @param priorityPool priority pool
+ * @param distribution latest distribution published to IPFS
+ * @returns proof service
+ */
+export const createProofService = (priorityPool: PriorityPool, distribution: DistributionData) => {
+  const tree = getDistributionTree(distribution.data)
+
+  if (tree.root != distribution.merkleRoot) {
+    throw Error('Distribution data does not match its merkle root')
+  }
+
+  const getMerkleRoot = async () => {
+    const merkleRoot = await priorityPool.merkleRoot()
+    if (merkleRoot != distribution.merkleRoot) {
+      throw Error(`Distribution is stale: on-chain merkle root is ${merkleRoot}`)
+    }
+    return merkleRoot
+  }
+
+  return {
+    /**
+     * Returns a verified proof for an account
+     * @param account account address
+     * @returns account's tree entry and merkle proof
+     */
+    getProof: async (account: string) => {
+      const merkleRoot = await getMerkleRoot()
+      const proof = getDistributionProof(distribution, account, tree)
+
+      if (proof.merkleProof.length != 0 && !verifyDistributionProof(merkleRoot, proof)) {
+        throw Error(`Invalid proof for ${proof.account}`)
+      }
+
+      return proof
+    },
+
+    /**
+     * Returns all accounts that have liquid staking tokens left to claim
+     * @returns list of accounts with unclaimed LSD tokens
+     */
+    getUnclaimedAccounts: async () => {
+      await getMerkleRoot()
+
+      const accounts = Object.keys(distribution.data).filter(
+        (account) => BigInt(distribution.data[account].sharesAmount) > 0n
+      )
+      const lsdTokens = await Promise.all(
+        accounts.map((account) =>
+          priorityPool.getLSDTokens(account, distribution.data[account].sharesAmount)
+        )
+      )
+
+      return accounts
+        .map((account, i) => ({
+          account,
+          sharesAmount: distribution.data[account].sharesAmount,
+          lsdTokens: lsdTokens[i],
+        }))
+        .filter((account) => account.lsdTokens > 0n) as UnclaimedAccount[]
+    },
+  }
+}
+
+const sendJSON = (res: http.ServerResponse, status: number, body: any) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body, (_, value) => (typeof value == 'bigint' ? value.toString() : value)))
+}
+
+/**
+ * Creates an HTTP server for a proof service
+ * @dev GET /proof/:account returns a verified proof, GET /unclaimed returns all accounts with
+ * unclaimed LSD tokens, the server is returned without listening on a port
+ * @param proofService proof service
+ * @returns HTTP server
+ */
+export const createProofServer = (proofService: ReturnType<typeof createProofService>) => {
+  return http.createServer(async (req, res) => {
+    const path = (req.url || '')
+      .split('?')[0]
+      .split('/')
+      .filter((p) => p.length)
+
+    try {
+      if (req.method == 'GET' && path[0] == 'proof' && path.length == 2) {
+        if (!ethers.isAddress(path[1])) return sendJSON(res, 400, { error: 'Invalid address' })
+        return sendJSON(res, 200, await proofService.getProof(path[1]))
+      }
+      if (req.method == 'GET' && path[0] == 'unclaimed' && path.length == 1) {
+        return sendJSON(res, 200, await proofService.getUnclaimedAccounts())
+      }
+      sendJSON(res, 404, { error: 'Not found' })
+    } catch (error: any) {
+      sendJSON(res, 500, { error: error.message })
+    }
+  })
+}
@@ -0,0 +1,192 @@
+import { ethers } from 'ethers'
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree'
+import { PriorityPool } from '../../typechain-types'
+import { createLocalIPFS } from './ipfs'
+
+// leaf encoding used by PriorityPool: keccak256(bytes.concat(keccak256(abi.encode(account, amount, sharesAmount))))
+export const distributionLeafEncoding = ['address', 'uint256', 'uint256']
+
+export interface DistributionEntry {
+  amount: string // cumulative amount of asset tokens distributed to account
+  sharesAmount: string // cumulative amount of shares distributed to account
+}
+
+export interface DistributionData {
+  merkleRoot: string
+  data: { [account: string]: DistributionEntry }
+}
+
+export interface DistributionInput {
+  accounts: string[] // all accounts that have ever queued tokens (PriorityPool.getAccounts)
+  reSDLBalances: bigint[] // reSDL balance of each account
+  queuedBalances: bigint[] // total amount of tokens ever queued by each account
+  amountToDistribute: bigint // PriorityPool.depositsSinceLastUpdate
+  sharesToDistribute: bigint // PriorityPool.sharesSinceLastUpdate
+  previous?: DistributionData // latest distribution published to IPFS
+}
+
+export interface DistributionResult {
+  distribution: DistributionData
+  amountDistributed: bigint // total amount distributed in this update
+  sharesAmountDistributed: bigint // total shares distributed in this update
+}
+
+/**
+ * Returns the previous distribution entry for an account
+ * @param previous previous distribution
+ * @param account account address
+ * @returns amount and shares amount previously distributed to account
+ */
+export const getPreviousEntry = (previous: DistributionData | undefined, account: string) => {
+  const entry =
+    previous?.data[account] ??
+    previous?.data[ethers.getAddress(account)] ??
+    previous?.data[account.toLowerCase()]
+
+  return {
+    amount: BigInt(entry?.amount ?? 0),
+    sharesAmount: BigInt(entry?.sharesAmount ?? 0),
+  }
+}
+
+/**
+ * Builds a new distribution tree
+ * @dev queued tokens are first distributed to reSDL holders proportionally to their reSDL balance, any
+ * remaining tokens are then distributed to all accounts in queue order
+ * @dev amounts are cumulative - each entry includes everything distributed to an account in all
+ * previous distributions
+ * @param input account data and amounts to distribute
+ * @returns new distribution and the amounts that should be passed to updateDistribution
+ */
+export const buildDistribution = (input: DistributionInput): DistributionResult => {
+  const { accounts, reSDLBalances, queuedBalances, amountToDistribute, sharesToDistribute } = input
+
+  if (accounts.length != reSDLBalances.length || accounts.length != queuedBalances.length) {
+    throw Error('Account data length mismatch')
+  }
+
+  const previous = accounts.map((account) => getPreviousEntry(input.previous, account))
+  const remainingQueued = accounts.map((_, i) => {
+    if (queuedBalances[i] < previous[i].amount) {
+      throw Error(`Previous distribution exceeds queued balance for ${accounts[i]}`)
+    }
+    return queuedBalances[i] - previous[i].amount
+  })
+  const allocations = accounts.map(() => 0n)
+
+  let toDistribute = amountToDistribute
+
+  // reSDL holders receive priority proportional to their reSDL balance
+  while (toDistribute > 0n) {
+    const eligible = accounts
+      .map((_, i) => i)
+      .filter((i) => reSDLBalances[i] > 0n && remainingQueued[i] > 0n)
+    const totalReSDL = eligible.reduce((sum, i) => sum + reSDLBalances[i], 0n)
+
+    if (eligible.length == 0) break
+
+    let roundTotal = 0n
+    for (const i of eligible) {
+      const share = (toDistribute * reSDLBalances[i]) / totalReSDL
+      const amount = share < remainingQueued[i] ? share : remainingQueued[i]
+      allocations[i] += amount
+      remainingQueued[i] -= amount
+      roundTotal += amount
+    }
+    toDistribute -= roundTotal
+
+    // rounding dust is handed out in queue order below
+    if (roundTotal == 0n) break
+  }
+
+  // remaining tokens are distributed in queue order
+  for (let i = 0; i < accounts.length && toDistribute > 0n; i++) {
+    const amount = toDistribute < remainingQueued[i] ? toDistribute : remainingQueued[i]
+    allocations[i] += amount
+    remainingQueued[i] -= amount
+    toDistribute -= amount
+  }
+
+  const amountDistributed = amountToDistribute - toDistribute
+  let sharesAmountDistributed = 0n
+
+  const data: { [account: string]: DistributionEntry } = {}
+  accounts.forEach((account, i) => {
+    const shares =
+      amountToDistribute == 0n ? 0n : (allocations[i] * sharesToDistribute) / amountToDistribute
+    sharesAmountDistributed += shares
+    data[ethers.getAddress(account)] = {
+      amount: (previous[i].amount + allocations[i]).toString(),
+      sharesAmount: (previous[i].sharesAmount + shares).toString(),
+    }
+  })
+
+  const tree = getDistributionTree(data)
+
+  return {
+    distribution: { merkleRoot: tree.root, data },
+    amountDistributed,
+    sharesAmountDistributed,
+  }
+}
+
+/**
+ * Returns the merkle tree for a set of distribution entries
+ * @dev leaves are hashed and sorted by StandardMerkleTree so the tree does not depend on the order of
+ * accounts in the distribution
+ * @param data distribution entries keyed by account
+ * @returns merkle tree
+ */
+export const getDistributionTree = (data: DistributionData['data']) => {
+  return StandardMerkleTree.of(
+    Object.keys(data).map((account) => [account, data[account].amount, data[account].sharesAmount]),
+    distributionLeafEncoding
+  )
+}
+
+/**
+ * Builds a new distribution tree from the current state of a priority pool
+ * @param priorityPool priority pool
+ * @param previous latest distribution published to IPFS
+ * @param blockTag block to read state at (defaults to latest)
+ * @returns new distribution and the amounts that should be passed to updateDistribution
+ */
+export const buildDistributionFromPool = async (
+  priorityPool: PriorityPool,
+  previous?: DistributionData,
+  blockTag: number | string = 'latest'
+): Promise<DistributionResult> => {
+  const [accounts, reSDLBalances, queuedBalances] = await priorityPool.getAccountData({ blockTag })
+  const [amountToDistribute, sharesToDistribute] = await priorityPool.getDepositsSinceLastUpdate({
+    blockTag,
+  })
+
+  return buildDistribution({
+    accounts: [...accounts],
+    reSDLBalances: [...reSDLBalances],
+    queuedBalances: [...queuedBalances],
+    amountToDistribute,
+    sharesToDistribute,
+    previous,
+  })
+}
+
+/**
+ * Returns the latest distribution of a priority pool from the IPFS store it was published to
+ * @param priorityPool priority pool
+ * @param ipfs local IPFS store
+ * @param blockTag block to read the ipfsHash at (defaults to latest)
+ * @returns latest distribution (empty if there has not been a distribution yet) or undefined if it
+ * is not in the store
+ */
+export const getLatestDistribution = async (
+  priorityPool: PriorityPool,
+  ipfs: ReturnType<typeof createLocalIPFS>,
+  blockTag: number | string = 'latest'
+): Promise<DistributionData | undefined> => {
+  const ipfsHash = await priorityPool.ipfsHash({ blockTag })
+
+  if (ipfsHash == ethers.ZeroHash) return { merkleRoot: ethers.ZeroHash, data: {} }
+  if (!ipfs.has(ipfsHash)) return undefined
+  return ipfs.resolveJSON(ipfsHash)
+}
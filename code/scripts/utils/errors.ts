@@ -0,0 +1,217 @@
+import { ethers, ErrorFragment, Interface, Provider } from 'ethers'
+import { artifacts } from 'hardhat'
+
+export interface ContractABI {
+  contractName: string
+  sourceName: string
+  abi: any[]
+}
+
+export interface DecodedError {
+  contracts: string[] // contracts that define the error, the hinted contract is always first
+  name: string
+  signature: string
+  args: any[]
+}
+
+// descriptions of solidity panic codes
+const panicCodes: { [code: number]: string } = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'invalid internal function',
+}
+
+// test contracts and dependencies are only used to decode errors no protocol contract defines
+const getPriority = ({ sourceName, contractName }: ContractABI) => {
+  if (!sourceName.startsWith('contracts/')) return 2
+  if (sourceName.includes('/test/') || contractName.endsWith('Mock')) return 1
+  return 0
+}
+
+const formatArg = (value: any): string => {
+  if (typeof value == 'string' || typeof value == 'bigint') return value.toString()
+  return JSON.stringify(value, (_, v) => (typeof v == 'bigint' ? v.toString() : v))
+}
+
+/**
+ * Returns revert data from an error thrown by ethers or hardhat
+ * @param error thrown error
+ * @returns revert data or undefined if the error does not contain any
+ */
+export const getRevertData = (error: any): string | undefined => {
+  for (
+    let e = error, depth = 0;
+    e && depth < 10;
+    e = e.error || e.info?.error || e.cause, depth++
+  ) {
+    if (typeof e.data == 'string' && ethers.isHexString(e.data)) return e.data
+    if (typeof e.data?.data == 'string' && ethers.isHexString(e.data.data)) return e.data.data
+  }
+}
+
+/**
+ * Creates a decoder that maps revert data to the custom errors of a list of contracts
+ * @param contracts list of contract ABIs
+ * @returns error decoder
+ */
+export const createErrorDecoder = (contracts: ContractABI[]) => {
+  // errors by selector, every entry lists all contracts that define an error with that signature
+  const table = new Map<string, { fragment: ErrorFragment; contracts: string[] }[]>()
+
+  for (const contract of [...contracts].sort((a, b) => getPriority(a) - getPriority(b))) {
+    for (const fragment of new Interface(contract.abi).fragments) {
+      if (fragment.type != 'error') continue
+      const error = fragment as ErrorFragment
+      const entries = table.get(error.selector) || []
+      let entry = entries.find((e) => e.fragment.format() == error.format())
+
+      if (!entry) {
+        entry = { fragment: error, contracts: [] }
+        entries.push(entry)
+        table.set(error.selector, entries)
+      }
+      if (!entry.contracts.includes(contract.contractName))
+        entry.contracts.push(contract.contractName)
+    }
+  }
+
+  /**
+   * Decodes revert data
+   * @param data revert data
+   * @param hint name or artifact of the called contract, preferred if several contracts define the error
+   * @returns decoded error or undefined if the error is unknown
+   */
+  const decode = (data: string, hint?: string): DecodedError | undefined => {
+    hint = hint?.split(':').pop()
+    if (ethers.dataLength(data) < 4) return
+
+    const selector = ethers.dataSlice(data, 0, 4)
+    const coder = ethers.AbiCoder.defaultAbiCoder()
+
+    if (selector == '0x08c379a0') {
+      const [reason] = coder.decode(['string'], ethers.dataSlice(data, 4))
+      return { contracts: [], name: 'Error', signature: 'Error(string)', args: [reason] }
+    }
+    if (selector == '0x4e487b71') {
+      const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4))
+      const description = panicCodes[Number(code)] || `0x${code.toString(16)}`
+      return { contracts: [], name: 'Panic', signature: 'Panic(uint256)', args: [description] }
+    }
+
+    for (const { fragment, contracts } of table.get(selector) || []) {
+      try {
+        const args = coder.decode(fragment.inputs, ethers.dataSlice(data, 4)).toArray()
+        const hinted = contracts.includes(hint as string)
+        return {
+          contracts: hinted ? [hint as string, ...contracts.filter((c) => c != hint)] : contracts,
+          name: fragment.name,
+          signature: fragment.format(),
+          args,
+        }
+      } catch (error) {}
+    }
+  }
+
+  /**
+   * Formats revert data as ContractName.ErrorName(args)
+   * @dev errors defined by several contracts are prefixed with up to 3 contract names unless the
+   * hinted contract defines the error
+   * @param data revert data
+   * @param hint name of the contract that was called
+   * @returns formatted error
+   */
+  const format = (data: string | undefined, hint?: string) => {
+    if (!data || data == '0x') return 'reverted without data'
+
+    hint = hint?.split(':').pop()
+    const decoded = decode(data, hint)
+    if (!decoded) return `unknown error ${data}`
+
+    const args = decoded.args.map(formatArg).join(', ')
+    if (decoded.contracts.length == 0) return `${decoded.name}(${args})`
+
+    let contract = decoded.contracts[0]
+    if (decoded.contracts[0] != hint && decoded.contracts.length > 1) {
+      contract = decoded.contracts.slice(0, 3).join('|')
+      if (decoded.contracts.length > 3) contract += `|+${decoded.contracts.length - 3}`
+    }
+
+    return `${contract}.${decoded.name}(${args})`
+  }
+
+  /**
+   * Formats an error thrown by a failed call, gas estimate or transaction
+   * @param error thrown error
+   * @param hint name of the contract that was called
+   * @returns formatted error, the error message is returned if the error contains no revert data
+   */
+  const formatError = (error: any, hint?: string): string => {
+    const data = getRevertData(error)
+    if (data == undefined) return error?.shortMessage || error?.message || String(error)
+    return format(data, hint)
+  }
+
+  return { decode, format, formatError }
+}
+
+let protocolDecoder: ReturnType<typeof createErrorDecoder> | undefined
+
+/**
+ * Returns an error decoder built from all compiled artifacts
+ * @dev the decoder is built once per process
+ * @returns error decoder
+ */
+export const getErrorDecoder = async () => {
+  if (protocolDecoder) return protocolDecoder
+
+  const contracts: ContractABI[] = []
+  for (const name of await artifacts.getAllFullyQualifiedNames()) {
+    const { contractName, sourceName, abi } = await artifacts.readArtifact(name)
+    contracts.push({ contractName, sourceName, abi })
+  }
+
+  protocolDecoder = createErrorDecoder(contracts)
+  return protocolDecoder
+}
+
+/**
+ * Formats an error thrown by a failed call, gas estimate or transaction using all compiled artifacts
+ * @param error thrown error
+ * @param hint name of the contract that was called
+ * @returns formatted error
+ */
+export const formatError = async (error: any, hint?: string) => {
+  return (await getErrorDecoder()).formatError(error, hint)
+}
+
+/**
+ * Returns the revert data of a failed transaction by replaying it with eth_call
+ * @dev the call is made on the state of the previous block so transactions that depend on earlier
+ * transactions in the same block may replay differently
+ * @param provider provider
+ * @param txHash transaction hash
+ * @returns revert data or undefined if the replay succeeds
+ */
+export const getTransactionRevertData = async (provider: Provider, txHash: string) => {
+  const tx = await provider.getTransaction(txHash)
+  if (!tx) throw Error(`Transaction ${txHash} not found`)
+
+  try {
+    await provider.call({
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      blockTag: tx.blockNumber == null ? 'latest' : tx.blockNumber - 1,
+    })
+  } catch (error) {
+    return getRevertData(error) || '0x'
+  }
+}
@@ -1,4 +1,5 @@
 import { ethers } from 'hardhat'
+import { Result } from 'ethers'
 import { ERC677 } from '../../typechain-types'
 
 export const toEther = (amount: string | number) => {
@@ -20,3 +21,39 @@ export const setupToken = async (token: ERC677, accounts: string[]) => {
     accounts.map((account, index) => token.transfer(account, toEther(index < 4 ? 10000 : 0)))
   )
 }
+
+export const getArgs = (argv = process.argv.slice(2)) => {
+  const args: { [key: string]: string } = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue
+
+    const key = argv[i].substring(2)
+    const value = argv[i + 1]
+
+    if (value == undefined || value.startsWith('--')) {
+      args[key] = 'true'
+    } else {
+      args[key] = value
+      i++
+    }
+  }
+
+  return args
+}
+
+/**
+ * Returns the field names of a decoded struct
+ * @dev ethers names unnamed values '' or '_' (e.g. the elements of an array of structs), a result is
+ * only treated as a struct if every value has a unique field name
+ * @param result decoded result
+ * @returns field names in order or undefined if the result is not a struct
+ */
+export const getStructKeys = (result: Result) => {
+  try {
+    const keys = Object.keys(result.toObject())
+    if (keys.length && keys.length == result.length && keys.every((key) => !/^_?\d*$/.test(key))) {
+      return keys
+    }
+  } catch (error) {}
+}
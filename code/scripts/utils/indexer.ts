@@ -0,0 +1,468 @@
+import Database from 'better-sqlite3'
+import { EventFragment, Interface, Log, Provider } from 'ethers'
+import {
+  BurnEvent,
+  DonateTokensEvent,
+  UpdateStrategyRewardsEvent,
+} from '../../typechain-types/contracts/core/StakingPool'
+import {
+  ClaimLSDTokensEvent,
+  DepositEvent,
+  UnqueueTokensEvent,
+  UpdateDistributionEvent,
+  WithdrawEvent,
+} from '../../typechain-types/contracts/core/priorityPool/PriorityPool'
+import {
+  QueueWithdrawalEvent,
+  WithdrawalsFinalizedEvent,
+} from '../../typechain-types/contracts/core/priorityPool/WithdrawalPool'
+import {
+  CreateLockEvent,
+  InitiateUnlockEvent,
+  UpdateLockEvent,
+  WithdrawEvent as WithdrawLockEvent,
+} from '../../typechain-types/contracts/core/sdlPool/base/SDLPool'
+import {
+  MessageReceivedEvent,
+  MessageSentEvent,
+} from '../../typechain-types/contracts/core/ccip/base/SDLPoolCCIPController'
+import { getKnownContracts } from './batch-simulation'
+import { Deployments } from './deployment'
+
+const lockEvents = [
+  'CreateLock',
+  'UpdateLock',
+  'InitiateUnlock',
+  'Withdraw',
+  'Transfer',
+  'OutgoingRESDL',
+  'IncomingRESDL',
+  'IncomingUpdate',
+  'OutgoingUpdate',
+  'QueueCreateLock',
+  'QueueUpdateLock',
+  'QueueInitiateUnlock',
+  'QueueWithdraw',
+]
+
+// events indexed by contract name, undefined indexes every event of the contract
+export const indexedEvents: { [contractName: string]: string[] | undefined } = {
+  StakingPool: ['UpdateStrategyRewards', 'Burn', 'DonateTokens'],
+  PriorityPool: ['Deposit', 'Withdraw', 'UnqueueTokens', 'ClaimLSDTokens', 'UpdateDistribution'],
+  WithdrawalPool: ['QueueWithdrawal', 'WithdrawalsFinalized'],
+  SDLPool: lockEvents,
+  SDLPoolPrimary: lockEvents,
+  SDLPoolSecondary: lockEvents,
+  SDLPoolCCIPControllerPrimary: undefined,
+  SDLPoolCCIPControllerSecondary: undefined,
+}
+
+export interface IndexedSource {
+  name: string // deployment name
+  contractName: string
+  address: string
+  iface: Interface
+  events: Map<string, EventFragment> // indexed events by topic
+}
+
+export interface IndexedEvent<T = { [key: string]: any }> {
+  contract: string // deployment name
+  address: string
+  event: string
+  blockNumber: number
+  blockHash: string
+  transactionHash: string
+  logIndex: number
+  args: T
+}
+
+export interface EventFilter {
+  contract?: string // deployment name
+  event?: string | string[]
+  account?: string // matches the account, owner, sender or receiver arg
+  lockId?: number | bigint // matches the lockId or tokenId arg
+  fromBlock?: number
+  toBlock?: number
+}
+
+export interface IndexerConfig {
+  file: string // SQLite file (':memory:' for an in-memory store)
+  provider: Provider
+  sources: IndexedSource[]
+  startBlock?: number // first block to backfill from if the store is empty
+  batchSize?: number // max blocks per getLogs call
+  reorgDepth?: number // number of recent block hashes checked for reorgs
+}
+
+export interface SyncResult {
+  fromBlock: number
+  toBlock: number
+  events: number
+  reorgedFrom?: number // first block rolled back due to a reorg
+}
+
+const schema = `
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  address TEXT NOT NULL,
+  event TEXT NOT NULL,
+  topics TEXT NOT NULL,
+  data TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_by_contract ON events (contract, event, block_number);
+CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+`
+
+// args are stored as JSON with bigints as strings and addresses lowercased so they can be queried
+const toJSON = (value: any) =>
+  JSON.stringify(value, (_, v) =>
+    typeof v == 'bigint' ? v.toString() : typeof v == 'string' ? v.toLowerCase() : v
+  )
+
+/**
+ * Returns all deployed contracts with events to index
+ * @dev contracts are found by contract name so any network with a deployments file works
+ * @param deployments deployments to index
+ * @returns list of sources
+ */
+export const getIndexedSources = async (deployments: Deployments): Promise<IndexedSource[]> => {
+  const contracts = await getKnownContracts(deployments)
+
+  return Object.values(contracts)
+    .filter(({ contractName }) => contractName in indexedEvents)
+    .map(({ name, contractName, address, iface }) => {
+      const events = new Map<string, EventFragment>()
+      iface.forEachEvent((fragment) => {
+        const names = indexedEvents[contractName]
+        if (!names || names.includes(fragment.name)) events.set(fragment.topicHash, fragment)
+      })
+      return { name, contractName, address: address.toLowerCase(), iface, events }
+    })
+}
+
+/**
+ * Creates an indexer that backfills and follows protocol events into an embedded SQLite store
+ * @dev the hash of every block with events and of the last synced block is stored, before every
+ * sync the hashes within reorgDepth of the last synced block are compared with the chain and all
+ * events from the first mismatching block are removed and indexed again
+ * @param config indexer config
+ * @returns indexer
+ */
+export const createIndexer = (config: IndexerConfig) => {
+  const { provider, sources } = config
+  const batchSize = config.batchSize || 2000
+  const reorgDepth = config.reorgDepth || 64
+  const bySource = new Map(sources.map((source) => [source.address, source]))
+  const byName = new Map(sources.map((source) => [source.name, source]))
+
+  const db = new Database(config.file)
+  db.pragma('journal_mode = WAL')
+  db.exec(schema)
+
+  const getMeta = (key: string) =>
+    (db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as any)?.value as
+      | string
+      | undefined
+  const setMeta = (key: string, value: string) =>
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value)
+
+  const insertEvent = db.prepare(
+    `INSERT OR REPLACE INTO events
+    (block_number, block_hash, tx_hash, log_index, contract, address, event, topics, data, args)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+  const insertBlock = db.prepare('INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)')
+
+  // last synced block
+  const getCursor = () => {
+    const cursor = getMeta('cursor')
+    return cursor == undefined ? undefined : Number(cursor)
+  }
+
+  const rollback = db.transaction((fromBlock: number) => {
+    db.prepare('DELETE FROM events WHERE block_number >= ?').run(fromBlock)
+    db.prepare('DELETE FROM blocks WHERE number >= ?').run(fromBlock)
+    setMeta('cursor', String(fromBlock - 1))
+  })
+
+  const store = db.transaction((logs: Log[], toBlock: number, toBlockHash: string) => {
+    for (const log of logs) {
+      const source = bySource.get(log.address.toLowerCase())
+      const fragment = source?.events.get(log.topics[0])
+      if (!source || !fragment) continue
+
+      const args = source.iface.decodeEventLog(fragment, log.data, log.topics).toObject()
+      insertEvent.run(
+        log.blockNumber,
+        log.blockHash,
+        log.transactionHash,
+        log.index,
+        source.name,
+        source.address,
+        fragment.name,
+        JSON.stringify(log.topics),
+        log.data,
+        toJSON(args)
+      )
+      insertBlock.run(log.blockNumber, log.blockHash)
+    }
+    insertBlock.run(toBlock, toBlockHash)
+    db.prepare('DELETE FROM blocks WHERE number < ?').run(toBlock - reorgDepth)
+    setMeta('cursor', String(toBlock))
+  })
+
+  // returns the first stored block whose hash no longer matches the chain or undefined if there was
+  // no reorg, blocks that no longer exist return no hash so a chain that was reset is also a reorg
+  const findReorg = async (cursor: number) => {
+    const blocks = db
+      .prepare('SELECT number, hash FROM blocks WHERE number > ? ORDER BY number')
+      .all(cursor - reorgDepth) as { number: number; hash: string }[]
+
+    for (const { number, hash } of blocks) {
+      const block = await provider.getBlock(number)
+      if (block?.hash != hash) return number
+    }
+  }
+
+  /**
+   * Indexes all events up to a block
+   * @dev blocks that were already indexed are not indexed again, a toBlock below the last synced
+   * block only checks for reorgs
+   * @param toBlock last block to index (default: latest)
+   * @returns sync result
+   */
+  const sync = async (toBlock?: number): Promise<SyncResult> => {
+    const chainId = (await provider.getNetwork()).chainId.toString()
+    const storedChainId = getMeta('chainId')
+    if (storedChainId == undefined) setMeta('chainId', chainId)
+    else if (storedChainId != chainId) {
+      throw Error(`Store was created for chain ${storedChainId}, connected to chain ${chainId}`)
+    }
+
+    const head = toBlock ?? (await provider.getBlockNumber())
+    let cursor = getCursor() ?? (config.startBlock || 0) - 1
+
+    const reorgedFrom = await findReorg(cursor)
+    if (reorgedFrom != undefined) {
+      rollback(reorgedFrom)
+      cursor = reorgedFrom - 1
+    }
+
+    const result: SyncResult = { fromBlock: cursor + 1, toBlock: head, events: 0, reorgedFrom }
+    if (sources.length == 0) return result
+
+    for (let from = cursor + 1; from <= head; from += batchSize) {
+      const to = Math.min(from + batchSize - 1, head)
+      const logs = await provider.getLogs({
+        address: sources.map((source) => source.address),
+        topics: [[...new Set(sources.flatMap((source) => [...source.events.keys()]))]],
+        fromBlock: from,
+        toBlock: to,
+      })
+      const block = await provider.getBlock(to)
+      store(logs, to, block!.hash!)
+      result.events += logs.length
+    }
+
+    return result
+  }
+
+  /**
+   * Syncs on every new block until the returned function is called
+   * @param onSync called after every sync
+   * @param onError called for every failed sync (default: logs the error)
+   * @returns function that stops following
+   */
+  const follow = (
+    onSync?: (result: SyncResult) => void,
+    onError: (error: any) => void = (error) => console.error(`Sync failed: ${error.message}`)
+  ) => {
+    let syncing = false
+    const listener = async () => {
+      if (syncing) return
+      syncing = true
+      try {
+        const result = await sync()
+        if (onSync) onSync(result)
+      } catch (error) {
+        onError(error)
+      } finally {
+        syncing = false
+      }
+    }
+
+    provider.on('block', listener)
+    return () => provider.off('block', listener)
+  }
+
+  /**
+   * Returns indexed events in chain order
+   * @dev args are decoded with the interface of the source contract
+   * @param filter event filter
+   * @returns list of events
+   */
+  const getEvents = <T = { [key: string]: any }>(filter: EventFilter = {}): IndexedEvent<T>[] => {
+    const conditions: string[] = []
+    const params: any[] = []
+
+    if (filter.contract) {
+      conditions.push('contract = ?')
+      params.push(filter.contract)
+    }
+    if (filter.event) {
+      const events = Array.isArray(filter.event) ? filter.event : [filter.event]
+      conditions.push(`event IN (${events.map(() => '?').join(', ')})`)
+      params.push(...events)
+    }
+    if (filter.account) {
+      conditions.push(
+        `? IN (json_extract(args, '$.account'), json_extract(args, '$.owner'),
+        json_extract(args, '$.sender'), json_extract(args, '$.receiver'),
+        json_extract(args, '$.from'), json_extract(args, '$.to'))`
+      )
+      params.push(filter.account.toLowerCase())
+    }
+    if (filter.lockId != undefined) {
+      conditions.push(
+        `COALESCE(json_extract(args, '$.lockId'), json_extract(args, '$.tokenId')) = ?`
+      )
+      params.push(filter.lockId.toString())
+    }
+    if (filter.fromBlock != undefined) {
+      conditions.push('block_number >= ?')
+      params.push(filter.fromBlock)
+    }
+    if (filter.toBlock != undefined) {
+      conditions.push('block_number <= ?')
+      params.push(filter.toBlock)
+    }
+
+    const rows = db
+      .prepare(
+        `SELECT * FROM events ${
+          conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''
+        } ORDER BY block_number, log_index`
+      )
+      .all(...params) as any[]
+
+    return rows.map((row) => {
+      const source = byName.get(row.contract)
+      const fragment = source?.events.get(JSON.parse(row.topics)[0])
+      return {
+        contract: row.contract,
+        address: row.address,
+        event: row.event,
+        blockNumber: row.block_number,
+        blockHash: row.block_hash,
+        transactionHash: row.tx_hash,
+        logIndex: row.log_index,
+        args:
+          source && fragment
+            ? source.iface.decodeEventLog(fragment, row.data, JSON.parse(row.topics)).toObject()
+            : JSON.parse(row.args),
+      }
+    })
+  }
+
+  type Range = Pick<EventFilter, 'fromBlock' | 'toBlock'>
+
+  const contractsOf = (contractNames: string[]) =>
+    sources.filter((source) => contractNames.includes(source.contractName)).map((s) => s.name)
+
+  // returns events of all sources with one of the contract names
+  const getEventsOf = <T>(contractNames: string[], filter: EventFilter) =>
+    contractsOf(contractNames)
+      .flatMap((contract) => getEvents<T>({ ...filter, contract }))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  return {
+    sync,
+    follow,
+    getEvents,
+    getCursor,
+    close: () => db.close(),
+
+    /** Returns strategy reward updates of all staking pools */
+    getStrategyRewards: (range: Range = {}) =>
+      getEventsOf<UpdateStrategyRewardsEvent.OutputObject>(['StakingPool'], {
+        ...range,
+        event: 'UpdateStrategyRewards',
+      }),
+
+    /** Returns burns and donations of all staking pools */
+    getBurnsAndDonations: (account?: string, range: Range = {}) =>
+      getEventsOf<BurnEvent.OutputObject | DonateTokensEvent.OutputObject>(['StakingPool'], {
+        ...range,
+        account,
+        event: ['Burn', 'DonateTokens'],
+      }),
+
+    /** Returns deposits into all priority pools */
+    getDeposits: (account?: string, range: Range = {}) =>
+      getEventsOf<DepositEvent.OutputObject>(['PriorityPool'], {
+        ...range,
+        account,
+        event: 'Deposit',
+      }),
+
+    /** Returns withdrawals, unqueues and claims of all priority pools */
+    getPriorityPoolExits: (account?: string, range: Range = {}) =>
+      getEventsOf<
+        | WithdrawEvent.OutputObject
+        | UnqueueTokensEvent.OutputObject
+        | ClaimLSDTokensEvent.OutputObject
+      >(['PriorityPool'], {
+        ...range,
+        account,
+        event: ['Withdraw', 'UnqueueTokens', 'ClaimLSDTokens'],
+      }),
+
+    /** Returns distribution updates of all priority pools */
+    getDistributions: (range: Range = {}) =>
+      getEventsOf<UpdateDistributionEvent.OutputObject>(['PriorityPool'], {
+        ...range,
+        event: 'UpdateDistribution',
+      }),
+
+    /** Returns queued withdrawals of all withdrawal pools */
+    getQueuedWithdrawals: (account?: string, range: Range = {}) =>
+      getEventsOf<QueueWithdrawalEvent.OutputObject>(['WithdrawalPool'], {
+        ...range,
+        account,
+        event: 'QueueWithdrawal',
+      }),
+
+    /** Returns finalized withdrawals of all withdrawal pools */
+    getFinalizedWithdrawals: (range: Range = {}) =>
+      getEventsOf<WithdrawalsFinalizedEvent.OutputObject>(['WithdrawalPool'], {
+        ...range,
+        event: 'WithdrawalsFinalized',
+      }),
+
+    /** Returns all events of a lock or all lock events of an account in all SDL pools */
+    getLockEvents: (filter: Pick<EventFilter, 'account' | 'lockId'> & Range = {}) =>
+      getEventsOf<
+        | CreateLockEvent.OutputObject
+        | UpdateLockEvent.OutputObject
+        | InitiateUnlockEvent.OutputObject
+        | WithdrawLockEvent.OutputObject
+        | { [key: string]: any }
+      >(['SDLPool', 'SDLPoolPrimary', 'SDLPoolSecondary'], filter),
+
+    /** Returns CCIP messages sent and received by all SDL pool CCIP controllers */
+    getCCIPMessages: (range: Range = {}) =>
+      getEventsOf<MessageSentEvent.OutputObject | MessageReceivedEvent.OutputObject>(
+        ['SDLPoolCCIPControllerPrimary', 'SDLPoolCCIPControllerSecondary'],
+        { ...range, event: ['MessageSent', 'MessageReceived'] }
+      ),
+  }
+}
+
+export type Indexer = ReturnType<typeof createIndexer>
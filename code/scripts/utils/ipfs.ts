@@ -0,0 +1,168 @@
+import path from 'path'
+import fse from 'fs-extra'
+import { ethers } from 'ethers'
+
+// default chunk size and max links per node used by `ipfs add` for CIDv0
+const CHUNK_SIZE = 262144
+const MAX_CHILDREN = 174
+
+// multihash prefix for sha2-256 with a 32 byte digest
+const MULTIHASH_PREFIX = '1220'
+
+interface DagNode {
+  multihash: Uint8Array // multihash of the serialized node
+  fileSize: number // size of the file data contained in this node and its children
+  tSize: number // size of the serialized node and all of its children
+}
+
+const encodeVarint = (value: number) => {
+  const bytes: number[] = []
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80)
+    value = Math.floor(value / 128)
+  }
+  bytes.push(value)
+  return Buffer.from(bytes)
+}
+
+const encodeField = (tag: number, value: Uint8Array) => {
+  return Buffer.concat([Buffer.from([tag]), encodeVarint(value.length), value])
+}
+
+const encodeVarintField = (tag: number, value: number) => {
+  return Buffer.concat([Buffer.from([tag]), encodeVarint(value)])
+}
+
+/**
+ * Serializes a UnixFS file node as a dag-pb block
+ * @param data file data for leaf nodes
+ * @param children child nodes for parent nodes
+ * @returns serialized block
+ */
+const encodeFileNode = (data: Uint8Array | undefined, children: DagNode[]) => {
+  const fileSize = data ? data.length : children.reduce((sum, child) => sum + child.fileSize, 0)
+
+  // UnixFS Data { Type = File, Data, filesize, blocksizes }
+  const unixfs = Buffer.concat([
+    encodeVarintField(0x08, 2),
+    data && data.length ? encodeField(0x12, data) : Buffer.alloc(0),
+    encodeVarintField(0x18, fileSize),
+    ...children.map((child) => encodeVarintField(0x20, child.fileSize)),
+  ])
+
+  // PBNode { Links, Data } - links are serialized before data
+  const links = children.map((child) =>
+    encodeField(
+      0x12,
+      Buffer.concat([
+        encodeField(0x0a, child.multihash),
+        encodeField(0x12, Buffer.alloc(0)),
+        encodeVarintField(0x18, child.tSize),
+      ])
+    )
+  )
+
+  return { block: Buffer.concat([...links, encodeField(0x0a, unixfs)]), fileSize }
+}
+
+const toDagNode = (block: Buffer, fileSize: number, children: DagNode[]): DagNode => {
+  return {
+    multihash: ethers.getBytes('0x' + MULTIHASH_PREFIX + ethers.sha256(block).substring(2)),
+    fileSize,
+    tSize: block.length + children.reduce((sum, child) => sum + child.tSize, 0),
+  }
+}
+
+/**
+ * Computes the CIDv0 of content as it would be added by `ipfs add` with default settings
+ * @dev uses the balanced layout with 256KiB chunks and dag-pb leaves, every leaf is a UnixFS File
+ * node (go-ipfs only uses Raw leaf nodes for the trickle layout)
+ * @param content content to hash
+ * @returns CIDv0 (Qm...)
+ */
+export const getCIDv0 = (content: string | Uint8Array) => {
+  const bytes = typeof content == 'string' ? Buffer.from(content, 'utf8') : Buffer.from(content)
+
+  let nodes: DagNode[] = []
+  for (let i = 0; i == 0 || i < bytes.length; i += CHUNK_SIZE) {
+    const { block, fileSize } = encodeFileNode(bytes.subarray(i, i + CHUNK_SIZE), [])
+    nodes.push(toDagNode(block, fileSize, []))
+  }
+
+  while (nodes.length > 1) {
+    const parents: DagNode[] = []
+    for (let i = 0; i < nodes.length; i += MAX_CHILDREN) {
+      const children = nodes.slice(i, i + MAX_CHILDREN)
+      const { block, fileSize } = encodeFileNode(undefined, children)
+      parents.push(toDagNode(block, fileSize, children))
+    }
+    nodes = parents
+  }
+
+  return ethers.encodeBase58(nodes[0].multihash)
+}
+
+/**
+ * Converts a CIDv0 to the bytes32 form stored on-chain (hash without multihash prefix)
+ * @param cid CIDv0
+ * @returns bytes32 hash
+ */
+export const cidToBytes32 = (cid: string) => {
+  const multihash = ethers.toBeHex(ethers.decodeBase58(cid), 34)
+
+  if (!multihash.startsWith('0x' + MULTIHASH_PREFIX)) {
+    throw Error(`Invalid CIDv0: ${cid}`)
+  }
+
+  return '0x' + multihash.substring(6)
+}
+
+/**
+ * Converts an on-chain bytes32 hash to a CIDv0
+ * @param hash bytes32 hash
+ * @returns CIDv0
+ */
+export const bytes32ToCID = (hash: string) => {
+  return ethers.encodeBase58('0x' + MULTIHASH_PREFIX + ethers.zeroPadValue(hash, 32).substring(2))
+}
+
+/**
+ * Creates a local content-addressed store that stands in for IPFS
+ * @dev content is stored in files named by CID so the same content always resolves to the same hash
+ * @param dir directory to store content in
+ * @returns local IPFS store
+ */
+export const createLocalIPFS = (dir = '.ipfs') => {
+  const toCID = (cidOrHash: string) =>
+    ethers.isHexString(cidOrHash, 32) ? bytes32ToCID(cidOrHash) : cidOrHash
+
+  const publish = (content: string | Uint8Array) => {
+    const cid = getCIDv0(content)
+    fse.outputFileSync(path.join(dir, cid), content)
+    return { cid, hash: cidToBytes32(cid) }
+  }
+
+  const resolve = (cidOrHash: string) => {
+    const cid = toCID(cidOrHash)
+    const file = path.join(dir, cid)
+
+    if (!fse.existsSync(file)) {
+      throw Error(`Content not found: ${cid}`)
+    }
+
+    const content = fse.readFileSync(file)
+    if (getCIDv0(content) != cid) {
+      throw Error(`Content does not match CID: ${cid}`)
+    }
+
+    return content
+  }
+
+  return {
+    publish,
+    resolve,
+    publishJSON: (data: any) => publish(JSON.stringify(data)),
+    resolveJSON: (cidOrHash: string) => JSON.parse(resolve(cidOrHash).toString()),
+    has: (cidOrHash: string) => fse.existsSync(path.join(dir, toCID(cidOrHash))),
+  }
+}
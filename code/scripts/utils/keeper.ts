@@ -0,0 +1,304 @@
+import { ethers, Signer } from 'ethers'
+import { ethers as hardhatEthers } from 'hardhat'
+import {
+  FundFlowController,
+  LSTRewardsSplitterController,
+  PriorityPool,
+  StakingPool,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { formatError } from './errors'
+import { createDataPlanner, encodePerformData } from './strategy-data'
+
+// artifacts of all contracts that implement checkUpkeep/performUpkeep
+export const keeperArtifacts = [
+  'PriorityPool',
+  'WithdrawalPool',
+  'DistributionOracle',
+  'RebaseController',
+  'CommunityVCS',
+  'CommunityVaultAutomation',
+  'PPKeeper',
+  'LSTRewardsSplitterController',
+  'LSTRewardsSplitter',
+]
+
+const keeperABI = [
+  'function checkUpkeep(bytes) returns (bool, bytes)',
+  'function performUpkeep(bytes)',
+]
+
+export interface KeeperTarget {
+  name: string // deployment name
+  artifact?: string // contract name used to decode errors
+  address: string
+  checkData: string // data passed to checkUpkeep
+  interval: number // ms between checks
+  gasLimit: bigint // max gas a single performUpkeep may use
+  fundFlowController?: string // used to build deposit/withdrawal data for priority/withdrawal pools
+}
+
+export interface KeeperTargetConfig {
+  enabled?: boolean
+  checkData?: string
+  interval?: number
+  gasLimit?: number | string
+  fundFlowController?: string // deployment name (default: the only FundFlowController deployment)
+}
+
+export interface KeeperConfig {
+  defaults?: KeeperTargetConfig
+  targets?: { [name: string]: KeeperTargetConfig }
+}
+
+export type KeeperResult =
+  | { status: 'idle' }
+  | { status: 'simulation-failed'; error: string }
+  | { status: 'gas-limit-exceeded'; gasEstimate: bigint }
+  | { status: 'dry-run'; gasEstimate: bigint; performData: string }
+  | { status: 'performed'; gasEstimate: bigint; txHash: string; gasUsed: bigint }
+
+/**
+ * Returns all keeper targets in a deployments file
+ * @dev targets are discovered by artifact, the splitters of every LSTRewardsSplitterController are read
+ * from the controller and named <controller name>_<account>, they inherit the controller's config
+ * @param deployments deployments as returned by getDeployments
+ * @param signer signer used to read splitters
+ * @param config keeper config, can disable targets or override their settings
+ * @returns list of keeper targets
+ */
+export const getKeeperTargets = async (
+  deployments: { [name: string]: { address: string; artifact: string } },
+  signer: Signer,
+  config: KeeperConfig = {}
+): Promise<KeeperTarget[]> => {
+  const fundFlowControllers = Object.keys(deployments).filter(
+    (name) => deployments[name].artifact == 'FundFlowController'
+  )
+
+  const toTarget = (
+    name: string,
+    artifact: string,
+    address: string,
+    targetConfig: KeeperTargetConfig
+  ): KeeperTarget => {
+    const fundFlowController =
+      targetConfig.fundFlowController ||
+      (fundFlowControllers.length == 1 ? fundFlowControllers[0] : undefined)
+
+    if (fundFlowController && !deployments[fundFlowController]) {
+      throw Error(`Fund flow controller ${fundFlowController} not found`)
+    }
+
+    return {
+      name,
+      artifact,
+      address,
+      checkData: targetConfig.checkData || '0x',
+      interval: targetConfig.interval || 60000,
+      gasLimit: BigInt(targetConfig.gasLimit || 5000000),
+      fundFlowController: fundFlowController && deployments[fundFlowController].address,
+    }
+  }
+
+  const targets: KeeperTarget[] = []
+
+  for (const name of Object.keys(deployments)) {
+    const { artifact, address } = deployments[name]
+    const targetConfig = { ...config.defaults, ...config.targets?.[name] }
+    if (!keeperArtifacts.includes(artifact) || targetConfig.enabled == false) continue
+
+    targets.push(toTarget(name, artifact, address, targetConfig))
+    if (artifact != 'LSTRewardsSplitterController') continue
+
+    const controller = (await hardhatEthers.getContractAt(
+      'LSTRewardsSplitterController',
+      address,
+      signer
+    )) as LSTRewardsSplitterController
+
+    for (const account of await controller.getAccounts()) {
+      const splitterName = `${name}_${account}`
+      const splitterConfig = { ...targetConfig, ...config.targets?.[splitterName] }
+      if (splitterConfig.enabled == false) continue
+
+      targets.push(
+        toTarget(
+          splitterName,
+          'LSTRewardsSplitter',
+          await controller.splitters(account),
+          splitterConfig
+        )
+      )
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Converts the performData returned by checkUpkeep into the performData expected by performUpkeep
+ * @dev PriorityPool.checkUpkeep returns the amount to deposit and WithdrawalPool.checkUpkeep returns
+ * nothing while both performUpkeeps expect a list of deposit/withdrawal data for every strategy, this
+ * data is built with the target's fund flow controller (if set), all other targets return performData
+ * that can be passed through
+ * @param target target
+ * @param signer signer used to read contract state
+ * @param checkPerformData performData returned by checkUpkeep
+ * @returns performData
+ */
+export const getPerformData = async (
+  target: KeeperTarget,
+  signer: Signer,
+  checkPerformData: string
+) => {
+  if (target.artifact != 'PriorityPool' && target.artifact != 'WithdrawalPool') {
+    return checkPerformData
+  }
+
+  const getPlanner = async (priorityPool: PriorityPool) => {
+    const stakingPool = (await hardhatEthers.getContractAt(
+      'StakingPool',
+      await priorityPool.stakingPool(),
+      signer
+    )) as StakingPool
+    const fundFlowController = target.fundFlowController
+      ? ((await hardhatEthers.getContractAt(
+          'FundFlowController',
+          target.fundFlowController,
+          signer
+        )) as FundFlowController)
+      : undefined
+
+    return createDataPlanner(stakingPool, fundFlowController)
+  }
+
+  if (target.artifact == 'PriorityPool') {
+    const priorityPool = (await hardhatEthers.getContractAt(
+      'PriorityPool',
+      target.address,
+      signer
+    )) as PriorityPool
+    const [amount] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], checkPerformData)
+    const plan = await (await getPlanner(priorityPool)).planDeposit(amount)
+    return encodePerformData(plan)
+  }
+
+  const withdrawalPool = (await hardhatEthers.getContractAt(
+    'WithdrawalPool',
+    target.address,
+    signer
+  )) as WithdrawalPool
+  const priorityPool = (await hardhatEthers.getContractAt(
+    'PriorityPool',
+    await withdrawalPool.priorityPool(),
+    signer
+  )) as PriorityPool
+  const [totalQueued, canWithdraw] = await Promise.all([
+    withdrawalPool.getTotalQueuedWithdrawals(),
+    priorityPool.canWithdraw(target.address, 0),
+  ])
+  const plan = await (
+    await getPlanner(priorityPool)
+  ).planWithdrawal(totalQueued < canWithdraw ? totalQueued : canWithdraw)
+  return encodePerformData(plan)
+}
+
+/**
+ * Formats a log entry as a single JSON line
+ * @param target name of target the entry belongs to
+ * @param event event name
+ * @param data additional data
+ */
+export const logKeeperEvent = (
+  target: string,
+  event: string,
+  data: { [key: string]: any } = {}
+) => {
+  console.log(
+    JSON.stringify({ time: new Date().toISOString(), target, event, ...data }, (_, value) =>
+      typeof value == 'bigint' ? value.toString() : value
+    )
+  )
+}
+
+/**
+ * Creates a keeper that runs upkeeps for a list of targets
+ * @dev performUpkeep is always simulated with eth_call first and is only submitted if the
+ * simulation succeeds and the gas estimate is within the target's gas limit
+ * @param signer signer used to submit transactions
+ * @param targets list of targets
+ * @param dryRun whether to skip submitting transactions
+ * @param log logger
+ * @returns keeper
+ */
+export const createKeeper = (
+  signer: Signer,
+  targets: KeeperTarget[],
+  dryRun = false,
+  log = logKeeperEvent
+) => {
+  const timers = new Map<string, NodeJS.Timeout>()
+  let running = false
+
+  /**
+   * Checks and if needed performs upkeep for a single target
+   * @param target target
+   * @returns result
+   */
+  const runUpkeep = async (target: KeeperTarget): Promise<KeeperResult> => {
+    const contract = new ethers.Contract(target.address, keeperABI, signer)
+
+    const [upkeepNeeded, checkPerformData] = await contract.checkUpkeep.staticCall(target.checkData)
+    if (!upkeepNeeded) return { status: 'idle' }
+
+    let performData: string
+    try {
+      performData = await getPerformData(target, signer, checkPerformData)
+      await contract.performUpkeep.staticCall(performData)
+    } catch (error: any) {
+      return { status: 'simulation-failed', error: await formatError(error, target.artifact) }
+    }
+
+    const gasEstimate = await contract.performUpkeep.estimateGas(performData)
+    if (gasEstimate > target.gasLimit) return { status: 'gas-limit-exceeded', gasEstimate }
+    if (dryRun) return { status: 'dry-run', gasEstimate, performData }
+
+    const tx = await contract.performUpkeep(performData, { gasLimit: target.gasLimit })
+    const receipt = await tx.wait()
+
+    return { status: 'performed', gasEstimate, txHash: tx.hash, gasUsed: receipt.gasUsed }
+  }
+
+  const schedule = (target: KeeperTarget, delay: number) => {
+    timers.set(
+      target.name,
+      setTimeout(async () => {
+        try {
+          const result = await runUpkeep(target)
+          log(target.name, result.status, result)
+        } catch (error: any) {
+          log(target.name, 'error', { error: await formatError(error, target.artifact) })
+        }
+        if (running) schedule(target, target.interval)
+      }, delay)
+    )
+  }
+
+  return {
+    runUpkeep,
+    start: () => {
+      if (running) return
+      running = true
+      targets.forEach((target) => {
+        log(target.name, 'start', { address: target.address, interval: target.interval, dryRun })
+        schedule(target, 0)
+      })
+    },
+    stop: () => {
+      running = false
+      timers.forEach((timer) => clearTimeout(timer))
+      timers.clear()
+    },
+  }
+}
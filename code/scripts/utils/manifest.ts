@@ -0,0 +1,279 @@
+import fse from 'fs-extra'
+import { ethers, network } from 'hardhat'
+import {
+  deploy,
+  deployImplementation,
+  deployUpgradeable,
+  getContract,
+  getDeployments,
+  updateDeployments,
+} from './deployment'
+
+// networks where recorded contracts without code are redeployed instead of failing
+const localNetworks = ['localhost', 'hardhat']
+
+export type ManifestArg =
+  | string
+  | number
+  | bigint
+  | boolean
+  | { ref: string } // address of a contract in the manifest or deployments file
+  | { account: number } // address of a local signer
+  | ManifestArg[]
+
+export interface ContractEntry {
+  name: string // deployment name
+  artifact: string // contract artifact
+  type?: 'contract' | 'upgradeable' | 'implementation' // how the contract is deployed (default: contract)
+  args?: ManifestArg[]
+  unsafeAllow?: string[] // upgrades validations to skip for upgradeable contracts
+  addresses?: { [network: string]: string } // existing addresses to record instead of deploying
+  networks?: string[] // networks the contract is deployed on (default: all)
+}
+
+export interface StepEntry {
+  name?: string // unique step name (default: contract.method(args))
+  contract: string // deployment name of contract to call
+  method: string
+  args?: ManifestArg[]
+  networks?: string[] // networks the step is run on (default: all)
+}
+
+export interface Manifest {
+  contracts: ContractEntry[]
+  steps?: StepEntry[]
+}
+
+interface StepRecord {
+  contract: string // address of contract the step was run on
+  args: string // resolved args
+  txHash: string
+}
+
+/**
+ * Returns a reference to the address of a contract
+ * @param name deployment name
+ */
+export const ref = (name: string) => ({ ref: name })
+
+/**
+ * Returns a reference to the address of a local signer
+ * @param index signer index
+ */
+export const account = (index: number) => ({ account: index })
+
+interface ManifestRecord {
+  contracts: { [name: string]: string } // addresses of contracts deployed by the executor
+  steps: { [name: string]: StepRecord }
+}
+
+const getRecordPath = () => `deployments/${network.name}.manifest.json`
+
+const getRecord = (): ManifestRecord => {
+  fse.ensureFileSync(getRecordPath())
+  return { contracts: {}, steps: {}, ...fse.readJSONSync(getRecordPath(), { throws: false }) }
+}
+
+const updateRecord = (update: (record: ManifestRecord) => void) => {
+  const record = getRecord()
+  update(record)
+  fse.outputJSONSync(getRecordPath(), record, { spaces: 2 })
+}
+
+const getRefs = (args: ManifestArg[] = []): string[] => {
+  return args.flatMap((arg: any) => {
+    if (Array.isArray(arg)) return getRefs(arg)
+    if (arg && typeof arg == 'object' && 'ref' in arg) return [arg.ref]
+    return []
+  })
+}
+
+const serialize = (value: any) =>
+  JSON.stringify(value, (_, v) => (typeof v == 'bigint' ? v.toString() : v))
+
+const isActive = (entry: { networks?: string[] }) =>
+  !entry.networks || entry.networks.includes(network.name)
+
+/**
+ * Returns the name of a step
+ * @param step step
+ * @returns step name
+ */
+export const getStepName = (step: StepEntry) => {
+  return step.name || `${step.contract}.${step.method}(${serialize(step.args || [])})`
+}
+
+/**
+ * Orders the contracts of a list of manifests so every contract is deployed after the contracts it
+ * references
+ * @dev references to contracts that are not part of any manifest must already be recorded in the
+ * deployments file
+ * @param manifests list of manifests
+ * @returns ordered list of contracts and list of steps in declaration order
+ */
+export const resolveManifests = (manifests: Manifest[]) => {
+  const contracts = manifests.flatMap((manifest) => manifest.contracts).filter(isActive)
+  const steps = manifests.flatMap((manifest) => manifest.steps || []).filter(isActive)
+  const entries = new Map(contracts.map((entry) => [entry.name, entry]))
+  const deployments = getDeployments()
+
+  if (entries.size != contracts.length) throw Error('Duplicate contract name in manifests')
+  if (new Set(steps.map(getStepName)).size != steps.length) {
+    throw Error('Duplicate step name in manifests')
+  }
+
+  const checkRef = (from: string, name: string) => {
+    if (!entries.has(name) && !deployments[name]) {
+      throw Error(`${from} references unknown contract ${name}`)
+    }
+  }
+
+  const ordered: ContractEntry[] = []
+  const visiting = new Set<string>()
+  const visit = (entry: ContractEntry) => {
+    if (ordered.includes(entry)) return
+    if (visiting.has(entry.name)) throw Error(`Circular reference to ${entry.name}`)
+    visiting.add(entry.name)
+
+    for (const name of getRefs(entry.args)) {
+      // args of recorded contracts are not needed so their references don't have to exist
+      if (!deployments[entry.name]) checkRef(entry.name, name)
+      if (entries.has(name)) visit(entries.get(name) as ContractEntry)
+    }
+
+    visiting.delete(entry.name)
+    ordered.push(entry)
+  }
+  contracts.forEach(visit)
+
+  steps.forEach((step) => {
+    if (deployments[step.contract]) return
+    checkRef(getStepName(step), step.contract)
+    getRefs(step.args).forEach((name) => checkRef(getStepName(step), name))
+  })
+
+  return { contracts: ordered, steps }
+}
+
+/**
+ * Deploys all contracts and runs all steps in a list of manifests
+ * @dev contracts already recorded in deployments/<network>.json and steps already recorded in
+ * deployments/<network>.manifest.json are skipped so an interrupted run can be resumed, a step is run
+ * again if the contract it calls or any of its resolved args have changed
+ * @dev steps are only run on contracts deployed by the executor, contracts that were recorded
+ * some other way are assumed to already be configured
+ * @param manifests list of manifests
+ * @param dryRun whether to only log what would be deployed/run
+ * @param log logger
+ * @returns names of deployed contracts and run steps
+ */
+export const executeManifests = async (
+  manifests: Manifest[],
+  dryRun = false,
+  log: (...args: any[]) => void = console.log
+) => {
+  const { contracts, steps } = resolveManifests(manifests)
+  const signers = await ethers.getSigners()
+  const result = { deployed: [] as string[], steps: [] as string[] }
+
+  const resolve = async (arg: any): Promise<any> => {
+    if (Array.isArray(arg)) return Promise.all(arg.map(resolve))
+    if (arg && typeof arg == 'object' && 'ref' in arg) {
+      const deployment = getDeployments()[arg.ref]
+      if (!deployment) {
+        if (dryRun) return `<${arg.ref}>`
+        throw Error(`Contract ${arg.ref} has not been deployed`)
+      }
+      return deployment.address
+    }
+    if (arg && typeof arg == 'object' && 'account' in arg) {
+      return signers[arg.account].getAddress()
+    }
+    return arg
+  }
+
+  const isDeployed = async (entry: ContractEntry) => {
+    const deployment = getDeployments()[entry.name]
+    if (!deployment) return false
+
+    if ((await ethers.provider.getCode(deployment.address)) == '0x') {
+      if (localNetworks.includes(network.name)) return false
+      throw Error(`${entry.name} is recorded at ${deployment.address} but has no code`)
+    }
+    return true
+  }
+
+  for (const entry of contracts) {
+    if (await isDeployed(entry)) {
+      log(`${entry.name} already deployed, skipping`)
+      continue
+    }
+
+    const existing = entry.addresses?.[network.name]
+    if (dryRun) {
+      log(`${entry.name} would be ${existing ? 'recorded at ' + existing : 'deployed'}`)
+      continue
+    }
+
+    let address = existing
+    if (!address) {
+      const args = await resolve(entry.args || [])
+
+      if (entry.type == 'upgradeable') {
+        const contract = await deployUpgradeable(entry.artifact, args, false, {
+          unsafeAllow: entry.unsafeAllow,
+        })
+        address = await contract.getAddress()
+      } else if (entry.type == 'implementation') {
+        address = (await deployImplementation(entry.artifact)) as string
+      } else {
+        const contract = await deploy(entry.artifact, args)
+        address = await contract.getAddress()
+      }
+      result.deployed.push(entry.name)
+    }
+
+    updateDeployments({ [entry.name]: address as string }, { [entry.name]: entry.artifact })
+    if (!existing) {
+      updateRecord((record) => {
+        record.contracts[entry.name] = address as string
+      })
+    }
+    log(`${entry.name} ${existing ? 'recorded' : 'deployed'}: `, address)
+  }
+
+  for (const step of steps) {
+    const name = getStepName(step)
+    const deployment = getDeployments()[step.contract]
+    const args = await resolve(step.args || [])
+    const { contracts: deployed, steps: stepRecords } = getRecord()
+
+    if (deployment && deployed[step.contract] != deployment.address) {
+      log(`${name} targets a contract not deployed from a manifest, skipping`)
+      continue
+    }
+    if (
+      stepRecords[name]?.contract == deployment?.address &&
+      stepRecords[name]?.args == serialize(args)
+    ) {
+      log(`${name} already run, skipping`)
+      continue
+    }
+    if (dryRun) {
+      log(`${name} would be run`)
+      continue
+    }
+
+    const contract = await getContract(step.contract)
+    const tx = await contract[step.method](...args)
+    await tx.wait()
+
+    updateRecord((record) => {
+      record.steps[name] = { contract: deployment.address, args: serialize(args), txHash: tx.hash }
+    })
+    result.steps.push(name)
+    log(`${name} run: `, tx.hash)
+  }
+
+  return result
+}
@@ -0,0 +1,415 @@
+import fse from 'fs-extra'
+import { BaseContract, ethers as Ethers, Interface } from 'ethers'
+import { ethers, network } from 'hardhat'
+import Safe from '@safe-global/protocol-kit'
+import SafeApiKit from '@safe-global/api-kit'
+import { MetaTransactionData } from '@safe-global/safe-core-sdk-types'
+import { getDeployments } from './deployment'
+import { getArgs } from './helpers'
+import { getSigner } from './signers'
+
+export type BatchMode = 'builder' | 'propose' | 'local'
+
+export interface BatchCall {
+  to: string
+  value: string
+  data: string
+  contractMethod?: {
+    name: string
+    inputs: { name: string; type: string; internalType: string; components?: any[] }[]
+    payable: boolean
+  }
+  contractInputsValues?: { [name: string]: string }
+}
+
+export interface SafeBatch {
+  safe: string // Safe address
+  chainId: bigint
+  name: string
+  description: string
+  calls: BatchCall[]
+}
+
+// args of a typechain contract method
+type MethodArgs<C, M extends keyof C> = C[M] extends (...args: infer A) => any ? A : any[]
+
+// networks a batch can be executed on with impersonated owners
+const localNetworks = ['localhost', 'hardhat']
+
+// Safe version deployed on local networks
+const localSafeVersion = '1.4.1'
+
+// Safe singleton factory (CREATE2 deployer used for the canonical Safe deployments)
+const safeSingletonFactory = '0x914d7Fec6aaC8cd542e72Bca78B30650d45643d7'
+const safeSingletonFactoryCode =
+  '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3'
+
+// Safe contracts the SDK requires, as artifact paths in @safe-global/safe-contracts
+const localSafeContracts = [
+  'Safe.sol/Safe',
+  'SafeL2.sol/SafeL2',
+  'proxies/SafeProxyFactory.sol/SafeProxyFactory',
+  'libraries/MultiSend.sol/MultiSend',
+  'libraries/MultiSendCallOnly.sol/MultiSendCallOnly',
+  'handler/CompatibilityFallbackHandler.sol/CompatibilityFallbackHandler',
+  'libraries/SignMessageLib.sol/SignMessageLib',
+  'libraries/CreateCall.sol/CreateCall',
+  'accessors/SimulateTxAccessor.sol/SimulateTxAccessor',
+]
+
+/**
+ * Returns the address of the multisig that owns the protocol
+ * @dev SAFE_ADDRESS overrides the Multisig entry in deployments/<network>.json
+ * @returns multisig address
+ */
+export const getMultisigAddress = () => {
+  const address = process.env.SAFE_ADDRESS || getDeployments().Multisig?.address
+  if (!address) throw Error('SAFE_ADDRESS is not set and Multisig is not in deployments')
+  return Ethers.getAddress(address)
+}
+
+// Transaction Builder stores all input values as strings, arrays and tuples as JSON
+const formatInput = (value: any, input: Ethers.ParamType): string => {
+  if (input.baseType != 'array' && input.baseType != 'tuple') return value.toString()
+  return JSON.stringify(value, (_, v) => (typeof v == 'bigint' ? v.toString() : v))
+}
+
+/**
+ * Encodes a contract call as a batch call
+ * @param contract contract to call
+ * @param method method name or signature
+ * @param args method args
+ * @param value amount of native tokens to send
+ * @returns batch call
+ */
+export const encodeCall = async <C extends BaseContract, M extends string & keyof C>(
+  contract: C,
+  method: M,
+  args: MethodArgs<C, M>,
+  value = 0n
+): Promise<BatchCall> => {
+  const fragment = contract.interface.getFunction(method, args as any[])
+  if (!fragment) throw Error(`Function ${method} does not exist`)
+
+  const data = contract.interface.encodeFunctionData(fragment, args as any[])
+  const result = contract.interface.decodeFunctionData(fragment, data)
+
+  return {
+    to: await contract.getAddress(),
+    value: value.toString(),
+    data,
+    contractMethod: {
+      name: fragment.name,
+      inputs: fragment.inputs.map((input, i) => ({
+        name: input.name || `arg${i}`,
+        type: input.type,
+        internalType: input.type,
+        components: input.components ? JSON.parse(input.format('json')).components : undefined,
+      })),
+      payable: fragment.payable,
+    },
+    contractInputsValues: fragment.inputs.reduce((acc, input, i) => {
+      acc[input.name || `arg${i}`] = formatInput(result[i], input)
+      return acc
+    }, {} as { [name: string]: string }),
+  }
+}
+
+/**
+ * Decodes a batch call with a contract interface
+ * @param call batch call
+ * @param iface contract interface
+ * @returns method signature and args or undefined if the call does not match the interface
+ */
+export const decodeCall = (call: BatchCall, iface: Interface) => {
+  const parsed = iface.parseTransaction({ data: call.data, value: BigInt(call.value) })
+  if (!parsed) return
+  return { signature: parsed.signature, args: parsed.args.toArray() }
+}
+
+/**
+ * Converts a batch to the Safe Transaction Builder file format
+ * @param batch batch
+ * @returns Transaction Builder JSON
+ */
+export const toTransactionBuilderJSON = (batch: SafeBatch) => {
+  return {
+    version: '1.0',
+    chainId: batch.chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: batch.name,
+      description: batch.description,
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: batch.safe,
+      createdFromOwnerAddress: '',
+    },
+    transactions: batch.calls.map((call) => ({
+      to: call.to,
+      value: call.value,
+      data: call.contractMethod ? null : call.data,
+      contractMethod: call.contractMethod || null,
+      contractInputsValues: call.contractInputsValues || null,
+    })),
+  }
+}
+
+/**
+ * Converts a Transaction Builder file back to a batch
+ * @param json Transaction Builder JSON
+ * @returns batch
+ */
+export const fromTransactionBuilderJSON = (json: any): SafeBatch => {
+  return {
+    safe: json.meta.createdFromSafeAddress,
+    chainId: BigInt(json.chainId),
+    name: json.meta.name,
+    description: json.meta.description || '',
+    calls: json.transactions.map((tx: any) => {
+      if (!tx.contractMethod) return { to: tx.to, value: tx.value, data: tx.data }
+
+      const fragment = Ethers.FunctionFragment.from({
+        type: 'function',
+        name: tx.contractMethod.name,
+        inputs: tx.contractMethod.inputs,
+        stateMutability: tx.contractMethod.payable ? 'payable' : 'nonpayable',
+      })
+      const args = fragment.inputs.map((input) => {
+        const value = tx.contractInputsValues[input.name]
+        return input.baseType == 'array' || input.baseType == 'tuple' ? JSON.parse(value) : value
+      })
+
+      return {
+        to: tx.to,
+        value: tx.value,
+        data: new Interface([fragment]).encodeFunctionData(fragment, args),
+        contractMethod: tx.contractMethod,
+        contractInputsValues: tx.contractInputsValues,
+      }
+    }),
+  }
+}
+
+const toMetaTransactions = (batch: SafeBatch): MetaTransactionData[] =>
+  batch.calls.map((call) => ({ to: call.to, value: call.value, data: call.data }))
+
+/**
+ * Writes a batch to a Safe Transaction Builder file
+ * @param batch batch
+ * @param path file path
+ */
+export const writeBatch = (batch: SafeBatch, path: string) => {
+  fse.outputJSONSync(path, toTransactionBuilderJSON(batch), { spaces: 2 })
+}
+
+/**
+ * Proposes a batch to a Safe transaction service
+ * @dev SAFE_TX_SERVICE_URL overrides the default service for the chain
+ * @param batch batch
+ * @param useLedgerSigner whether the proposal should be signed with a Ledger
+ * @returns Safe transaction hash
+ */
+export const proposeBatch = async (batch: SafeBatch, useLedgerSigner = false) => {
+  const sender = await (await getSigner(useLedgerSigner)).getAddress()
+  const apiKit = new SafeApiKit({
+    chainId: batch.chainId,
+    txServiceUrl: process.env.SAFE_TX_SERVICE_URL,
+  })
+  const safeSdk = await Safe.init({
+    provider: network.provider,
+    signer: sender,
+    safeAddress: batch.safe,
+  })
+
+  const safeTransaction = await safeSdk.createTransaction({
+    transactions: toMetaTransactions(batch),
+    options: { nonce: Number(await apiKit.getNextNonce(batch.safe)) },
+  })
+  const safeTxHash = await safeSdk.getTransactionHash(safeTransaction)
+  const senderSignature = await safeSdk.signHash(safeTxHash)
+
+  await apiKit.proposeTransaction({
+    safeAddress: batch.safe,
+    safeTransactionData: safeTransaction.data,
+    safeTxHash,
+    senderAddress: sender,
+    senderSignature: senderSignature.data,
+    origin: batch.name,
+  })
+
+  return safeTxHash
+}
+
+/**
+ * Deploys the Safe contracts on a local network if they do not exist
+ * @dev Safe v1.4.1 is deployed through the Safe singleton factory which places every contract at its
+ * canonical address so the Safe SDK finds them without a custom contract config, contracts that
+ * already exist (e.g. on a mainnet fork) are skipped
+ */
+export const deployLocalSafeContracts = async () => {
+  if (!localNetworks.includes(network.name)) {
+    throw Error(`Cannot deploy Safe contracts on ${network.name}`)
+  }
+
+  if ((await ethers.provider.getCode(safeSingletonFactory)) == '0x') {
+    await network.provider.send('hardhat_setCode', [safeSingletonFactory, safeSingletonFactoryCode])
+  }
+
+  const [signer] = await ethers.getSigners()
+  for (const path of localSafeContracts) {
+    const { bytecode } = fse.readJSONSync(
+      require.resolve(`@safe-global/safe-contracts/build/artifacts/contracts/${path}.json`)
+    )
+    const address = Ethers.getCreate2Address(
+      safeSingletonFactory,
+      Ethers.ZeroHash,
+      Ethers.keccak256(bytecode)
+    )
+    if ((await ethers.provider.getCode(address)) != '0x') continue
+
+    const data = Ethers.concat([Ethers.ZeroHash, bytecode])
+    await (await signer.sendTransaction({ to: safeSingletonFactory, data })).wait()
+  }
+}
+
+/**
+ * Deploys a Safe on a local network
+ * @dev deploys the Safe contracts first if they do not exist
+ * @param owners Safe owners
+ * @param threshold number of required confirmations
+ * @returns Safe address
+ */
+export const deployLocalSafe = async (owners: string[], threshold = 1) => {
+  if (!localNetworks.includes(network.name)) {
+    throw Error(`Cannot deploy a local Safe on ${network.name}`)
+  }
+
+  await deployLocalSafeContracts()
+
+  const safeSdk = await Safe.init({
+    provider: network.provider,
+    signer: owners[0],
+    predictedSafe: {
+      safeAccountConfig: { owners, threshold },
+      safeDeploymentConfig: { saltNonce: Date.now().toString(), safeVersion: localSafeVersion },
+    },
+  })
+  const deployment = await safeSdk.createSafeDeploymentTransaction()
+  const signer = await ethers.getSigner(owners[0])
+  await (await signer.sendTransaction(deployment)).wait()
+
+  return safeSdk.getAddress()
+}
+
+/**
+ * Executes a batch through a Safe on a local network
+ * @dev owners are impersonated and approve the transaction hash on-chain so any Safe on a fork or
+ * deployed with deployLocalSafe can be used
+ * @param batch batch
+ * @returns hash of the execution transaction
+ */
+export const executeBatchLocally = async (batch: SafeBatch) => {
+  if (!localNetworks.includes(network.name)) {
+    throw Error(`Cannot execute a batch locally on ${network.name}`)
+  }
+
+  let safeSdk = await Safe.init({ provider: network.provider, safeAddress: batch.safe })
+  const owners = (await safeSdk.getOwners()).slice(0, await safeSdk.getThreshold())
+  const safeTransaction = await safeSdk.createTransaction({
+    transactions: toMetaTransactions(batch),
+  })
+  const safeTxHash = await safeSdk.getTransactionHash(safeTransaction)
+
+  for (const owner of owners) {
+    await network.provider.send('hardhat_impersonateAccount', [owner])
+    await network.provider.send('hardhat_setBalance', [owner, '0x56BC75E2D63100000'])
+    safeSdk = await safeSdk.connect({ signer: owner })
+    if (owner != owners[owners.length - 1]) {
+      const result = await safeSdk.approveTransactionHash(safeTxHash)
+      await (result.transactionResponse as any)?.wait()
+    }
+  }
+
+  const result = await safeSdk.executeTransaction(safeTransaction)
+  await (result.transactionResponse as any)?.wait()
+  return result.hash
+}
+
+/**
+ * Creates a Safe batch
+ * @param name batch name
+ * @param description batch description
+ * @param safe Safe address (default: getMultisigAddress())
+ * @returns batch builder
+ */
+export const createSafeBatch = (name: string, description = '', safe?: string) => {
+  const calls: BatchCall[] = []
+
+  /**
+   * Builds the batch
+   * @returns batch
+   */
+  const build = async (): Promise<SafeBatch> => ({
+    safe: safe || getMultisigAddress(),
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    name,
+    description,
+    calls,
+  })
+
+  /**
+   * Writes, proposes or locally executes the batch
+   * @dev mode and output path are read from --mode (builder, propose or local, default: defaultMode)
+   * and --out (default: batches/<network>/<name>.json)
+   * @param useLedgerSigner whether proposals should be signed with a Ledger
+   * @param defaultMode mode used if --mode is not passed
+   * @returns batch
+   */
+  const submit = async (useLedgerSigner = false, defaultMode: BatchMode = 'builder') => {
+    const args = getArgs()
+    const mode = (args.mode || defaultMode) as BatchMode
+    const out = args.out || `batches/${network.name}/${name.replace(/[^a-zA-Z0-9]+/g, '-')}.json`
+    const batch = await build()
+
+    if (mode == 'builder') {
+      writeBatch(batch, out)
+      console.log(`Batch written to ${out}`)
+    } else if (mode == 'propose') {
+      console.log('Batch proposed: ', await proposeBatch(batch, useLedgerSigner))
+    } else if (mode == 'local') {
+      console.log('Batch executed: ', await executeBatchLocally(batch))
+    } else {
+      throw Error(`Invalid mode: ${mode}`)
+    }
+
+    return batch
+  }
+
+  return {
+    /**
+     * Adds a contract call to the batch
+     * @param contract contract to call
+     * @param method method name
+     * @param args method args
+     * @param value amount of native tokens to send
+     */
+    add: async <C extends BaseContract, M extends string & keyof C>(
+      contract: C,
+      method: M,
+      args: MethodArgs<C, M>,
+      value = 0n
+    ) => {
+      calls.push(await encodeCall(contract, method, args, value))
+    },
+    /**
+     * Adds a raw call to the batch
+     * @param call batch call
+     */
+    addCall: (call: BatchCall) => {
+      calls.push(call)
+    },
+    calls,
+    build,
+    submit,
+  }
+}
@@ -0,0 +1,196 @@
+import { ethers } from 'ethers'
+import cbor from 'cbor'
+import { DistributionOracle, Operator, PriorityPool } from '../../typechain-types'
+import { buildDistributionFromPool, DistributionData } from './distribution'
+import { formatError } from './errors'
+import { createLocalIPFS } from './ipfs'
+
+export interface OracleRequest {
+  requestId: string
+  payment: bigint
+  callbackAddress: string
+  callbackFunctionId: string
+  expiration: bigint
+  blockNumber: number // block the priority pool was paused at (request param)
+  requestBlockNumber: number // block the request was emitted in
+}
+
+export interface OracleNodeConfig {
+  operator: Operator // operator contract connected to an authorized sender
+  distributionOracle: DistributionOracle
+  priorityPool: PriorityPool
+  ipfs?: ReturnType<typeof createLocalIPFS> // store distributions are published to
+  confirmations?: number // number of blocks to wait after a request is emitted before fulfilling it
+  pollInterval?: number // ms between polls when running continuously
+  fromBlock?: number // block to start scanning for requests from
+  log?: (...args: any[]) => void
+}
+
+/**
+ * Decodes the CBOR encoded params of a Chainlink request
+ * @param data request data
+ * @returns request params keyed by name
+ */
+export const decodeRequestParams = (data: string) => {
+  const values = cbor.decodeAllSync(ethers.getBytes(data))
+  const params: { [key: string]: any } = {}
+
+  for (let i = 0; i < values.length; i += 2) {
+    params[values[i]] = values[i + 1]
+  }
+
+  return params
+}
+
+/**
+ * Creates a local stand-in for a Chainlink node running the distribution oracle external adapter
+ * @dev watches the operator for OracleRequest events sent by the distribution oracle, builds the
+ * distribution tree from chain state at the block the priority pool was paused at, publishes it to
+ * the local IPFS store and fulfills the request
+ * @param config node config
+ * @returns oracle node
+ */
+export const createDistributionOracleNode = (config: OracleNodeConfig) => {
+  const { operator, distributionOracle, priorityPool } = config
+  const ipfs = config.ipfs || createLocalIPFS()
+  const confirmations = config.confirmations || 0
+  const log = config.log || console.log
+  const pending = new Map<string, OracleRequest>()
+
+  let nextBlock = config.fromBlock || 0
+  let timer: NodeJS.Timeout | undefined
+
+  const fetchRequests = async (toBlock: number) => {
+    if (toBlock < nextBlock) return
+
+    const events = await operator.queryFilter(
+      operator.filters[
+        'OracleRequest(bytes32,address,bytes32,uint256,address,bytes4,uint256,uint256,bytes)'
+      ](),
+      nextBlock,
+      toBlock
+    )
+    const oracleAddress = await distributionOracle.getAddress()
+
+    for (const event of events) {
+      const args = event.args
+      if (args.requester != oracleAddress) continue
+
+      const params = decodeRequestParams(args.data)
+      pending.set(args.requestId, {
+        requestId: args.requestId,
+        payment: args.payment,
+        callbackAddress: args.callbackAddr,
+        callbackFunctionId: args.callbackFunctionId,
+        expiration: args.cancelExpiration,
+        blockNumber: Number(params.blockNumber),
+        requestBlockNumber: event.blockNumber,
+      })
+      log(`Received request ${args.requestId} for block ${params.blockNumber}`)
+    }
+
+    nextBlock = toBlock + 1
+  }
+
+  const isOpen = async (requestId: string) => {
+    const [responses, cancellations] = await Promise.all([
+      operator.queryFilter(operator.filters.OracleResponse(requestId)),
+      operator.queryFilter(operator.filters.CancelOracleRequest(requestId)),
+    ])
+    return responses.length == 0 && cancellations.length == 0
+  }
+
+  /**
+   * Builds the distribution for a request and fulfills it
+   * @param request request to fulfill
+   * @returns new distribution
+   */
+  const fulfill = async (request: OracleRequest) => {
+    const blockTag = request.blockNumber
+    const ipfsHash = await priorityPool.ipfsHash({ blockTag })
+
+    let previous: DistributionData | undefined
+    if (ipfsHash != ethers.ZeroHash) {
+      if (!ipfs.has(ipfsHash)) throw Error(`Previous distribution ${ipfsHash} not found`)
+      previous = ipfs.resolveJSON(ipfsHash)
+    }
+
+    const { distribution, amountDistributed, sharesAmountDistributed } =
+      await buildDistributionFromPool(priorityPool, previous, blockTag)
+    const { cid, hash } = ipfs.publishJSON(distribution)
+
+    const data = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['bytes32', 'bytes32', 'bytes32', 'uint256', 'uint256'],
+      [request.requestId, distribution.merkleRoot, hash, amountDistributed, sharesAmountDistributed]
+    )
+    const fulfillArgs = [
+      request.requestId,
+      request.payment,
+      request.callbackAddress,
+      request.callbackFunctionId,
+      request.expiration,
+      data,
+    ] as const
+
+    // the operator does not revert if the callback fails so it's simulated first
+    if (!(await operator.fulfillOracleRequest2.staticCall(...fulfillArgs))) {
+      throw Error(`Callback would fail for request ${request.requestId}`)
+    }
+    await (await operator.fulfillOracleRequest2(...fulfillArgs)).wait()
+
+    log(`Fulfilled request ${request.requestId}: root ${distribution.merkleRoot}, CID ${cid}`)
+    return distribution
+  }
+
+  /**
+   * Fetches new requests and fulfills every request that has enough confirmations
+   * @returns list of fulfilled request ids
+   */
+  const processRequests = async () => {
+    const latest = await operator.runner!.provider!.getBlockNumber()
+    const minBlockConfirmations = Number(await distributionOracle.minBlockConfirmations())
+    const fulfilled: string[] = []
+
+    await fetchRequests(latest)
+
+    for (const request of pending.values()) {
+      if (
+        latest < request.requestBlockNumber + confirmations ||
+        latest < request.blockNumber + minBlockConfirmations
+      ) {
+        continue
+      }
+
+      if (await isOpen(request.requestId)) {
+        await fulfill(request)
+        fulfilled.push(request.requestId)
+      }
+      pending.delete(request.requestId)
+    }
+
+    return fulfilled
+  }
+
+  const poll = async () => {
+    try {
+      await processRequests()
+    } catch (error) {
+      log('Error processing requests: ', await formatError(error, 'DistributionOracle'))
+    }
+    if (timer) timer = setTimeout(poll, config.pollInterval || 5000)
+  }
+
+  return {
+    processRequests,
+    fulfill,
+    getPendingRequests: () => [...pending.values()],
+    start: () => {
+      if (timer) return
+      timer = setTimeout(poll, 0)
+    },
+    stop: () => {
+      clearTimeout(timer)
+      timer = undefined
+    },
+  }
+}
@@ -0,0 +1,269 @@
+import { Interface } from 'ethers'
+import { ethers, network } from 'hardhat'
+import { Deployments } from './deployment'
+import { getKnownContracts, KnownContract } from './batch-simulation'
+
+// getters that return an address with privileged access to a contract
+export const privilegedGetters = [
+  'owner',
+  'pendingOwner',
+  'rebaseController',
+  'distributionOracle',
+  'depositController',
+  'ccipController',
+  'updateInitiator',
+  'transferInitiator',
+]
+
+// used for deployments whose artifact is not compiled in this repo
+const fallbackABI = privilegedGetters.map((getter) => `function ${getter}() view returns (address)`)
+
+const safeABI = [
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+]
+
+export type HolderType = 'unset' | 'eoa' | 'contract'
+
+export type AuditFlag =
+  | 'eoa-owner' // contract is owned by an EOA
+  | 'eoa-pending-owner' // ownership is being transferred to an EOA
+  | 'owner-not-multisig' // contract is owned by a contract other than the multisig or a governance controller
+  | 'eoa-governance-role' // an EOA holds a governance controller role that can call functions on the contract
+
+export interface ControlEntry {
+  contract: string // deployment name
+  address: string
+  role: string // getter name, governance controller role or safe signer
+  holder: string
+  holderName?: string // deployment name of holder
+  holderType: HolderType
+}
+
+export interface GovernanceRole {
+  controller: string // deployment name of governance controller
+  id: number
+  name: string
+  members: string[]
+  functions: string[] // contract.method for every function the role can call
+}
+
+export interface AuditFinding {
+  contract: string
+  flag: AuditFlag
+  holder: string
+}
+
+export interface OwnershipReport {
+  network: string
+  blockNumber: number
+  multisig?: string
+  entries: ControlEntry[]
+  roles: GovernanceRole[]
+  findings: AuditFinding[]
+}
+
+/**
+ * Returns the function selectors of a governance controller role
+ * @dev functions are collected from AddRole/AddRoleFunctions events and verified with hasFunction
+ * so removed functions are excluded
+ * @param controller governance controller
+ * @param roleId id of role
+ * @param logs role events of the governance controller
+ * @param blockTag block to read state at
+ * @returns contract addresses and selectors of functions
+ */
+const getRoleFunctions = async (
+  controller: any,
+  roleId: number,
+  logs: any[],
+  blockTag: number
+): Promise<{ contract: string; selector: string }[]> => {
+  const candidates = new Map<string, { contract: string; selector: string }>()
+  for (const log of logs) {
+    if (Number(log.args.roleId) != roleId || !log.args.functionSelectors) continue
+    log.args.contracts.forEach((contract: string, i: number) => {
+      for (const selector of log.args.functionSelectors[i]) {
+        candidates.set(`${contract.toLowerCase()}${selector}`, { contract, selector })
+      }
+    })
+  }
+
+  const functions = []
+  for (const fn of candidates.values()) {
+    if (await controller.hasFunction(roleId, fn.contract, fn.selector, { blockTag })) {
+      functions.push(fn)
+    }
+  }
+  return functions
+}
+
+/**
+ * Audits who controls every contract in a deployments file
+ * @dev reads owner(), pending owners and other privileged addresses of every deployment, the
+ * signers of the multisig and the members of every governance controller role, role members are
+ * collected from AddRole/GrantRole events and verified with hasRole
+ * @param deployments deployments to audit
+ * @param multisig address expected to own all contracts (default: Multisig deployment)
+ * @param blockTag block to read state at
+ * @returns ownership report
+ */
+export const auditOwnership = async (
+  deployments: Deployments,
+  multisig: string | undefined = deployments.Multisig?.address,
+  blockTag: number | string = 'latest'
+): Promise<OwnershipReport> => {
+  const provider = ethers.provider
+  const blockNumber = (await provider.getBlock(blockTag))!.number
+  const known = await getKnownContracts(deployments)
+  const names = new Map(
+    Object.keys(deployments).map((name) => [deployments[name].address.toLowerCase(), name])
+  )
+  const holderTypes = new Map<string, HolderType>()
+
+  const getHolder = async (holder: string) => {
+    const address = holder.toLowerCase()
+    if (!holderTypes.has(address)) {
+      let type: HolderType = 'contract'
+      if (holder == ethers.ZeroAddress) type = 'unset'
+      else if ((await provider.getCode(holder, blockNumber)) == '0x') type = 'eoa'
+      holderTypes.set(address, type)
+    }
+    return { holder, holderName: names.get(address), holderType: holderTypes.get(address)! }
+  }
+
+  const report: OwnershipReport = {
+    network: network.name,
+    blockNumber,
+    multisig,
+    entries: [],
+    roles: [],
+    findings: [],
+  }
+
+  for (const name of Object.keys(deployments)) {
+    const { address, artifact } = deployments[name]
+    const contract: KnownContract | undefined = known[address.toLowerCase()]
+
+    if (artifact == 'Safe') {
+      const safe = new ethers.Contract(address, safeABI, provider)
+      try {
+        const [owners, threshold] = await Promise.all([
+          safe.getOwners({ blockTag: blockNumber }),
+          safe.getThreshold({ blockTag: blockNumber }),
+        ])
+        for (const owner of owners) {
+          report.entries.push({
+            contract: name,
+            address,
+            role: `signer (${threshold}/${owners.length})`,
+            ...(await getHolder(owner)),
+          })
+        }
+      } catch (error) {}
+      continue
+    }
+
+    const iface = contract ? contract.iface : new Interface(fallbackABI)
+    const instance = new ethers.Contract(address, iface, provider)
+
+    for (const getter of privilegedGetters) {
+      const fragment = iface.getFunction(getter)
+      if (!fragment || fragment.inputs.length != 0 || fragment.outputs[0]?.type != 'address') {
+        continue
+      }
+
+      let holder: string
+      try {
+        holder = await instance.getFunction(getter).staticCall({ blockTag: blockNumber })
+      } catch (error) {
+        continue
+      }
+      report.entries.push({ contract: name, address, role: getter, ...(await getHolder(holder)) })
+    }
+
+    if (contract?.contractName == 'GovernanceController') {
+      const controller = new ethers.Contract(address, contract.iface, provider)
+      const fromBlock = deployments[name].blockNumber || 0
+      const logs = (
+        await Promise.all(
+          ['AddRole', 'GrantRole', 'AddRoleFunctions'].map((event) =>
+            controller.queryFilter(event, fromBlock, blockNumber)
+          )
+        )
+      ).flat()
+      const roleNames: string[] = await controller.getRoles({ blockTag: blockNumber })
+
+      for (let id = 0; id < roleNames.length; id++) {
+        const candidates = new Set<string>()
+        for (const log of logs as any[]) {
+          if (Number(log.args.roleId) != id) continue
+          if (log.args.members) log.args.members.forEach((m: string) => candidates.add(m))
+          if (log.args.account) candidates.add(log.args.account)
+        }
+
+        const members = []
+        for (const member of candidates) {
+          if (await controller.hasRole(id, member, { blockTag: blockNumber })) members.push(member)
+        }
+
+        const functions = await getRoleFunctions(controller, id, logs, blockNumber)
+        report.roles.push({
+          controller: name,
+          id,
+          name: roleNames[id],
+          members,
+          functions: functions.map(({ contract, selector }) => {
+            const target = known[contract.toLowerCase()]
+            const method = target?.iface.getFunction(selector)?.name || selector
+            return `${target?.name || contract}.${method}`
+          }),
+        })
+
+        for (const member of members) {
+          const entry = await getHolder(member)
+          report.entries.push({ contract: name, address, role: `role:${roleNames[id]}`, ...entry })
+
+          if (entry.holderType != 'eoa') continue
+          const targets = new Set(functions.map(({ contract }) => contract.toLowerCase()))
+          for (const target of targets) {
+            report.findings.push({
+              contract: names.get(target) || target,
+              flag: 'eoa-governance-role',
+              holder: member,
+            })
+          }
+        }
+      }
+    }
+  }
+
+  const isGovernanceController = (address: string) =>
+    known[address.toLowerCase()]?.contractName == 'GovernanceController'
+
+  for (const entry of report.entries) {
+    if (entry.role == 'owner' && entry.holderType == 'eoa') {
+      report.findings.push({ contract: entry.contract, flag: 'eoa-owner', holder: entry.holder })
+    } else if (entry.role == 'pendingOwner' && entry.holderType == 'eoa') {
+      report.findings.push({
+        contract: entry.contract,
+        flag: 'eoa-pending-owner',
+        holder: entry.holder,
+      })
+    } else if (
+      entry.role == 'owner' &&
+      entry.holderType == 'contract' &&
+      multisig &&
+      entry.holder.toLowerCase() != multisig.toLowerCase() &&
+      !isGovernanceController(entry.holder)
+    ) {
+      report.findings.push({
+        contract: entry.contract,
+        flag: 'owner-not-multisig',
+        holder: entry.holder,
+      })
+    }
+  }
+
+  return report
+}
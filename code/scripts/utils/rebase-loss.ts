@@ -0,0 +1,247 @@
+import { ethers, network } from 'hardhat'
+import {
+  ERC677__factory,
+  InsurancePool,
+  IStrategy,
+  PriorityPool,
+  RebaseController,
+  StakingMock,
+  StakingPool,
+  VaultControllerStrategy,
+} from '../../typechain-types'
+import { Deployments } from './deployment'
+import { createSafeBatch } from './multisig'
+
+export interface StrategyLoss {
+  index: number // index of strategy in the staking pool
+  name?: string // deployment name of strategy
+  address: string
+  depositChange: bigint
+  loss: bigint // 0 if the deposit change is not negative
+}
+
+export interface RebaseLossStatus {
+  blockNumber: number
+  stakingPool: string
+  priorityPool: string
+  rebaseController: string
+  insurancePool: string
+  poolStatus: number
+  claimInProgress: boolean
+  strategies: StrategyLoss[]
+  strategyIdxs: number[] // indexes of strategies with losses
+  totalLoss: bigint
+  totalSupply: bigint
+  lossBP: number // loss in basis points of total supply, computed like RebaseController.performUpkeep
+  maxRebaseLossBP: number
+  exceedsMaxRebaseLoss: boolean // performUpkeep will close the pool and initiate a claim
+  upkeepNeeded: boolean // result of RebaseController.checkUpkeep
+  performData?: string // performData returned by RebaseController.checkUpkeep
+  insuranceToken: string
+  insuranceDeposits: bigint
+  maxClaimAmountBP: number
+  maxClaimAmount: bigint // max amount that can be withdrawn by a single executeClaim
+}
+
+// networks strategies can be slashed on
+const localNetworks = ['localhost', 'hardhat']
+
+/**
+ * Reads the losses of all strategies in a staking pool and the state of its rebase controller and
+ * insurance pool
+ * @dev the rebase controller and insurance pool are read from the staking pool so deployments are
+ * only used to name strategies, losses are read from each strategy so they are still reported once
+ * the pool is closed and checkUpkeep no longer returns them
+ * @param stakingPool staking pool
+ * @param deployments deployments used to name strategies
+ * @param blockTag block to read state at
+ * @returns loss status
+ */
+export const getRebaseLossStatus = async (
+  stakingPool: StakingPool,
+  deployments: Deployments = {},
+  blockTag: number | string = 'latest'
+): Promise<RebaseLossStatus> => {
+  const provider = stakingPool.runner!.provider!
+  const block = (await provider.getBlock(blockTag))!
+  const overrides = { blockTag: block.number }
+  const names = new Map(
+    Object.keys(deployments).map((name) => [deployments[name].address.toLowerCase(), name])
+  )
+
+  const rebaseController = (await ethers.getContractAt(
+    'RebaseController',
+    await stakingPool.rebaseController(overrides)
+  )) as RebaseController
+  const [priorityPoolAddress, insurancePoolAddress] = await Promise.all([
+    rebaseController.priorityPool(overrides),
+    rebaseController.insurancePool(overrides),
+  ])
+  const priorityPool = (await ethers.getContractAt(
+    'PriorityPool',
+    priorityPoolAddress
+  )) as PriorityPool
+  const insurancePool = (await ethers.getContractAt(
+    'InsurancePool',
+    insurancePoolAddress
+  )) as InsurancePool
+
+  const strategies = await Promise.all(
+    (
+      await stakingPool.getStrategies(overrides)
+    ).map(async (address, index) => {
+      const strategy = (await ethers.getContractAt('IStrategy', address)) as IStrategy
+      const depositChange = await strategy.getDepositChange(overrides)
+      return {
+        index,
+        name: names.get(address.toLowerCase()),
+        address,
+        depositChange,
+        loss: depositChange < 0n ? -depositChange : 0n,
+      }
+    })
+  )
+  const strategyIdxs = strategies.filter((s) => s.loss != 0n).map((s) => s.index)
+  const totalLoss = strategies.reduce((sum, s) => sum + s.loss, 0n)
+
+  const [
+    poolStatus,
+    totalSupply,
+    maxRebaseLossBP,
+    upkeep,
+    claimInProgress,
+    insuranceToken,
+    insuranceDeposits,
+    maxClaimAmountBP,
+  ] = await Promise.all([
+    priorityPool.poolStatus(overrides),
+    stakingPool.totalSupply(overrides),
+    rebaseController.maxRebaseLossBP(overrides),
+    rebaseController.checkUpkeep('0x', overrides),
+    insurancePool.claimInProgress(overrides),
+    insurancePool.token(overrides),
+    insurancePool.totalDeposits(overrides),
+    insurancePool.maxClaimAmountBP(overrides),
+  ])
+  const lossBP = totalSupply == 0n ? 0 : Number((10000n * totalLoss) / totalSupply)
+
+  return {
+    blockNumber: block.number,
+    stakingPool: stakingPool.target as string,
+    priorityPool: priorityPoolAddress,
+    rebaseController: rebaseController.target as string,
+    insurancePool: insurancePoolAddress,
+    poolStatus: Number(poolStatus),
+    claimInProgress,
+    strategies,
+    strategyIdxs,
+    totalLoss,
+    totalSupply,
+    lossBP,
+    maxRebaseLossBP: Number(maxRebaseLossBP),
+    exceedsMaxRebaseLoss: lossBP > Number(maxRebaseLossBP),
+    upkeepNeeded: upkeep[0],
+    performData: upkeep[0] ? upkeep[1] : undefined,
+    insuranceToken,
+    insuranceDeposits,
+    maxClaimAmountBP: Number(maxClaimAmountBP),
+    maxClaimAmount: (insuranceDeposits * maxClaimAmountBP) / 10000n,
+  }
+}
+
+/**
+ * Returns the amount to claim from the insurance pool
+ * @dev mirrors the ExceedsMaxClaimAmount check in InsurancePool.executeClaim
+ * @param status loss status
+ * @param amount amount to claim (default: total loss)
+ * @returns claim amount capped at the max claim amount
+ */
+export const getClaimAmount = (status: RebaseLossStatus, amount = status.totalLoss) =>
+  amount > status.maxClaimAmount ? status.maxClaimAmount : amount
+
+/**
+ * Builds the multisig batch that covers a loss with the insurance pool and reopens the pool
+ * @dev the batch calls InsurancePool.executeClaim, donates the claimed tokens to the staking pool
+ * (only if the insurance pool holds the staking pool's token, otherwise claimed tokens stay with the
+ * multisig) and calls RebaseController.reopenPool which reopens the priority pool, calls
+ * InsurancePool.resolveClaim (only callable by the rebase controller) and rebases the strategies
+ * with losses
+ * @param status loss status
+ * @param amount amount to claim (capped at the max claim amount, default: total loss)
+ * @param safe Safe address (default: getMultisigAddress())
+ * @returns batch builder
+ */
+export const buildLossClaimBatch = async (
+  status: RebaseLossStatus,
+  amount?: bigint,
+  safe?: string
+) => {
+  if (status.poolStatus != 2 || !status.claimInProgress) {
+    throw Error('Pool is not closed or no claim is in progress')
+  }
+
+  const stakingPool = (await ethers.getContractAt('StakingPool', status.stakingPool)) as StakingPool
+  const rebaseController = (await ethers.getContractAt(
+    'RebaseController',
+    status.rebaseController
+  )) as RebaseController
+  const insurancePool = (await ethers.getContractAt(
+    'InsurancePool',
+    status.insurancePool
+  )) as InsurancePool
+  const token = ERC677__factory.connect(status.insuranceToken, ethers.provider)
+
+  const claimAmount = getClaimAmount(status, amount)
+  const batch = createSafeBatch(
+    `Resolve claim ${status.blockNumber}`,
+    `Claims ${ethers.formatEther(claimAmount)} of a ${ethers.formatEther(
+      status.totalLoss
+    )} loss from the insurance pool and reopens the pool`,
+    safe
+  )
+
+  if (claimAmount != 0n) {
+    await batch.add(insurancePool, 'executeClaim', [claimAmount])
+    if (status.insuranceToken.toLowerCase() == (await stakingPool.token()).toLowerCase()) {
+      await batch.add(token, 'approve', [status.stakingPool, claimAmount])
+      await batch.add(stakingPool, 'donateTokens', [claimAmount])
+    }
+  }
+  await batch.add(rebaseController, 'reopenPool', [status.strategyIdxs])
+
+  return batch
+}
+
+/**
+ * Slashes the vaults of a vault controller strategy that stakes into a StakingMock
+ * @dev only works on local networks, vaults are slashed in order until the amount is reached
+ * @param strategy vault controller strategy
+ * @param amount total amount to slash
+ * @returns amount slashed per vault address
+ */
+export const slashVaults = async (strategy: VaultControllerStrategy, amount: bigint) => {
+  if (!localNetworks.includes(network.name)) {
+    throw Error(`Cannot slash vaults on ${network.name}`)
+  }
+
+  const stakingMock = (await ethers.getContractAt(
+    'StakingMock',
+    await strategy.stakeController()
+  )) as StakingMock
+  const slashed: { [vault: string]: bigint } = {}
+
+  let remaining = amount
+  for (const vault of await strategy.getVaults()) {
+    if (remaining == 0n) break
+    const principal = await stakingMock.getStakerPrincipal(vault)
+    const toSlash = principal < remaining ? principal : remaining
+    if (toSlash == 0n) continue
+
+    await (await stakingMock.slashOperator(vault, toSlash)).wait()
+    slashed[vault] = toSlash
+    remaining -= toSlash
+  }
+
+  if (remaining != 0n) throw Error('Amount exceeds principal of all vaults')
+  return slashed
+}
@@ -0,0 +1,280 @@
+import { BlockTag } from 'ethers'
+import { ethers } from 'hardhat'
+import { RebaseController, StakingPool } from '../../typechain-types'
+import { Deployments } from './deployment'
+import { Indexer } from './indexer'
+
+// artifacts of contracts that receive the SDL pool's share of fees
+const sdlPoolArtifacts = [
+  'SDLPool',
+  'SDLPoolPrimary',
+  'SDLPoolSecondary',
+  'SDLPoolCCIPControllerPrimary',
+  'SDLPoolCCIPControllerSecondary',
+]
+
+const year = 365 * 86400
+
+export type FeeType = 'pool' | 'sdl-pool' | 'strategy'
+
+export interface FeePayment {
+  receiver: string
+  name?: string // deployment name of receiver
+  type: FeeType // sdl-pool, staking pool fee (getFees) or strategy fee
+  amount: bigint
+}
+
+export interface RebaseRecord {
+  blockNumber: number
+  timestamp: number
+  transactionHash: string
+  totalStaked: bigint // total staked after the rebase
+  rewards: bigint // gross rewards, negative for losses
+  totalFees: bigint
+  fees: FeePayment[]
+  sharePriceBefore: bigint // stake per 1e18 shares before the rebase block
+  sharePriceAfter: bigint // stake per 1e18 shares after the rebase block
+  lossBP?: number // loss in basis points of total supply, computed like RebaseController.performUpkeep
+  maxRebaseLossBP?: number
+  hitMaxRebaseLoss: boolean // loss exceeds the rebase controller's maxRebaseLossBP
+}
+
+export interface YieldWindow {
+  fromBlock: number
+  toBlock: number
+  fromTime: number
+  toTime: number
+  sharePriceStart: bigint
+  sharePriceEnd: bigint
+  apr: number // realized APR from share price growth
+  apy: number // realized APY from share price growth
+  grossRewards: bigint
+  fees: { [type in FeeType]: bigint }
+  netRewards: bigint
+  rebases: number
+  negativeRebases: number
+  maxLossHits: number
+}
+
+/**
+ * Returns all rebases of a staking pool within a block range
+ * @dev rebases are read from UpdateStrategyRewards events (from the indexer if one is passed), fee
+ * payments are read from the pool's Transfer events in the rebase transaction and classified as SDL
+ * pool fees (by deployment artifact), staking pool fees (receivers returned by getFees) or strategy fees
+ * @param stakingPool staking pool
+ * @param deployments deployments used to name and classify fee receivers
+ * @param fromBlock first block
+ * @param toBlock last block
+ * @param indexer indexer to read events from instead of scanning logs
+ * @returns list of rebases
+ */
+export const getRebaseHistory = async (
+  stakingPool: StakingPool,
+  deployments: Deployments,
+  fromBlock: number,
+  toBlock: number,
+  indexer?: Indexer
+): Promise<RebaseRecord[]> => {
+  const provider = stakingPool.runner!.provider!
+  const poolAddress = (stakingPool.target as string).toLowerCase()
+  const names = new Map(
+    Object.keys(deployments).map((name) => [deployments[name].address.toLowerCase(), name])
+  )
+  const sdlPools = new Set(
+    Object.values(deployments)
+      .filter((deployment) => sdlPoolArtifacts.includes(deployment.artifact))
+      .map((deployment) => deployment.address.toLowerCase())
+  )
+
+  const events = indexer
+    ? indexer
+        .getStrategyRewards({ fromBlock, toBlock })
+        .filter((event) => event.address == poolAddress)
+    : (
+        await stakingPool.queryFilter(
+          stakingPool.filters.UpdateStrategyRewards(),
+          fromBlock,
+          toBlock
+        )
+      ).map((event) => ({
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        args: event.args,
+      }))
+
+  const transferTopic = stakingPool.interface.getEvent('Transfer').topicHash
+  const records: RebaseRecord[] = []
+
+  for (const event of events) {
+    const blockTag = event.blockNumber
+    const [block, receipt, poolFees, sharePriceBefore, sharePriceAfter, supplyBefore] =
+      await Promise.all([
+        provider.getBlock(blockTag),
+        provider.getTransactionReceipt(event.transactionHash),
+        stakingPool.getFees({ blockTag }),
+        stakingPool.getStakeByShares(ethers.parseEther('1'), { blockTag: blockTag - 1 }),
+        stakingPool.getStakeByShares(ethers.parseEther('1'), { blockTag }),
+        stakingPool.totalSupply({ blockTag: blockTag - 1 }),
+      ])
+    const poolFeeReceivers = new Set(poolFees.map((fee) => fee.receiver.toLowerCase()))
+
+    const fees: FeePayment[] = []
+    for (const log of receipt!.logs) {
+      if (log.address.toLowerCase() != poolAddress || log.topics[0] != transferTopic) continue
+      const { from, to, value } = stakingPool.interface.decodeEventLog(
+        'Transfer',
+        log.data,
+        log.topics
+      )
+      if (from.toLowerCase() != poolAddress) continue
+
+      const receiver = to.toLowerCase()
+      fees.push({
+        receiver: to,
+        name: names.get(receiver),
+        type: sdlPools.has(receiver)
+          ? 'sdl-pool'
+          : poolFeeReceivers.has(receiver)
+          ? 'pool'
+          : 'strategy',
+        amount: value,
+      })
+    }
+
+    const rewards = BigInt(event.args.rewardsAmount)
+    const record: RebaseRecord = {
+      blockNumber: event.blockNumber,
+      timestamp: block!.timestamp,
+      transactionHash: event.transactionHash,
+      totalStaked: BigInt(event.args.totalStaked),
+      rewards,
+      totalFees: BigInt(event.args.totalFees),
+      fees,
+      sharePriceBefore,
+      sharePriceAfter,
+      hitMaxRebaseLoss: false,
+    }
+
+    if (rewards < 0n) {
+      record.lossBP = supplyBefore == 0n ? 0 : Number((10000n * -rewards) / supplyBefore)
+      try {
+        const rebaseController = (await ethers.getContractAt(
+          'RebaseController',
+          await stakingPool.rebaseController({ blockTag })
+        )) as RebaseController
+        record.maxRebaseLossBP = Number(
+          await rebaseController.connect(provider).maxRebaseLossBP({ blockTag })
+        )
+        record.hitMaxRebaseLoss = record.lossBP > record.maxRebaseLossBP
+      } catch (error) {}
+    }
+
+    records.push(record)
+  }
+
+  return records
+}
+
+/**
+ * Computes realized yield of a staking pool over a block range
+ * @dev APR/APY are derived from share price growth between the first and last block of the window,
+ * rewards and fees are summed from the rebases within the window
+ * @param stakingPool staking pool
+ * @param rebases rebases as returned by getRebaseHistory (may cover more than the window)
+ * @param fromBlock first block of window
+ * @param toBlock last block of window
+ * @returns yield window
+ */
+export const getYieldWindow = async (
+  stakingPool: StakingPool,
+  rebases: RebaseRecord[],
+  fromBlock: number,
+  toBlock: number
+): Promise<YieldWindow> => {
+  const provider = stakingPool.runner!.provider!
+  const sharePrice = (blockTag: BlockTag) =>
+    stakingPool.getStakeByShares(ethers.parseEther('1'), { blockTag })
+
+  const [start, end, sharePriceStart, sharePriceEnd] = await Promise.all([
+    provider.getBlock(fromBlock),
+    provider.getBlock(toBlock),
+    sharePrice(fromBlock),
+    sharePrice(toBlock),
+  ])
+
+  const inWindow = rebases.filter(
+    (rebase) => rebase.blockNumber > fromBlock && rebase.blockNumber <= toBlock
+  )
+  const fees: { [type in FeeType]: bigint } = { pool: 0n, 'sdl-pool': 0n, strategy: 0n }
+  inWindow.forEach((rebase) => rebase.fees.forEach((fee) => (fees[fee.type] += fee.amount)))
+  const grossRewards = inWindow.reduce((sum, rebase) => sum + rebase.rewards, 0n)
+
+  const duration = end!.timestamp - start!.timestamp
+  const growth =
+    sharePriceStart == 0n ? 1 : Number((sharePriceEnd * 10n ** 18n) / sharePriceStart) / 1e18
+
+  return {
+    fromBlock,
+    toBlock,
+    fromTime: start!.timestamp,
+    toTime: end!.timestamp,
+    sharePriceStart,
+    sharePriceEnd,
+    apr: duration == 0 ? 0 : ((growth - 1) * year) / duration,
+    apy: duration == 0 ? 0 : Math.pow(growth, year / duration) - 1,
+    grossRewards,
+    fees,
+    netRewards: grossRewards - fees.pool - fees['sdl-pool'] - fees.strategy,
+    rebases: inWindow.length,
+    negativeRebases: inWindow.filter((rebase) => rebase.rewards < 0n).length,
+    maxLossHits: inWindow.filter((rebase) => rebase.hitMaxRebaseLoss).length,
+  }
+}
+
+/**
+ * Splits a block range into windows of equal length
+ * @param fromBlock first block
+ * @param toBlock last block
+ * @param blocksPerWindow number of blocks per window (default: whole range)
+ * @returns list of [fromBlock, toBlock] pairs
+ */
+export const splitWindows = (fromBlock: number, toBlock: number, blocksPerWindow?: number) => {
+  const size = blocksPerWindow || toBlock - fromBlock
+  const windows: [number, number][] = []
+  for (let start = fromBlock; start < toBlock; start += size) {
+    windows.push([start, Math.min(start + size, toBlock)])
+  }
+  return windows
+}
+
+/**
+ * Converts rows to CSV
+ * @dev nested objects are flattened into <key>.<nested key> columns
+ * @param rows list of rows
+ * @returns CSV string
+ */
+export const toCSV = (rows: { [key: string]: any }[]) => {
+  const flatten = (row: any, prefix = ''): { [key: string]: any } =>
+    Object.keys(row).reduce((flat: { [key: string]: any }, key) => {
+      const value = row[key]
+      if (value && typeof value == 'object' && !Array.isArray(value)) {
+        Object.assign(flat, flatten(value, `${prefix}${key}.`))
+      } else {
+        flat[`${prefix}${key}`] = Array.isArray(value) ? JSON.stringify(value, stringify) : value
+      }
+      return flat
+    }, {})
+  const stringify = (_: string, value: any) => (typeof value == 'bigint' ? value.toString() : value)
+  const escape = (value: any) => {
+    const str = value == undefined ? '' : String(value)
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+  }
+
+  const flatRows = rows.map((row) => flatten(row))
+  const columns = [...new Set(flatRows.flatMap((row) => Object.keys(row)))]
+
+  return [
+    columns.join(','),
+    ...flatRows.map((row) => columns.map((column) => escape(row[column])).join(',')),
+  ].join('\n')
+}
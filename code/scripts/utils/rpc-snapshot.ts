@@ -0,0 +1,96 @@
+import http from 'http'
+import fse from 'fs-extra'
+
+export interface RpcSnapshot {
+  blockNumber: number // block the snapshot was recorded for
+  responses: { [request: string]: { result?: any; error?: any } }
+}
+
+// requests are keyed without their id so the same request always maps to the same response
+const getKey = (request: any) => JSON.stringify([request.method, request.params || []])
+
+/**
+ * Starts a JSON-RPC server that records or replays responses for a forked network
+ * @dev if an upstream url is passed every response is fetched from upstream and saved to the
+ * snapshot file when the server is closed, otherwise all responses are served from the snapshot file
+ * so a fork pinned to the snapshot block can be created without network access
+ * @param snapshotPath path of snapshot file
+ * @param upstream url of upstream JSON-RPC endpoint (omit to replay)
+ * @param blockNumber block the fork is pinned to (only required when recording)
+ * @returns server url, snapshot block and close function
+ */
+export const startRpcSnapshotServer = async (
+  snapshotPath: string,
+  upstream?: string,
+  blockNumber?: number
+) => {
+  let snapshot: RpcSnapshot
+  if (upstream) {
+    if (blockNumber == undefined) throw Error('Block number is required to record a snapshot')
+    snapshot = fse.existsSync(snapshotPath)
+      ? fse.readJSONSync(snapshotPath)
+      : { blockNumber, responses: {} }
+    if (snapshot.blockNumber != blockNumber) {
+      throw Error(`Snapshot ${snapshotPath} was recorded at block ${snapshot.blockNumber}`)
+    }
+  } else {
+    if (!fse.existsSync(snapshotPath)) throw Error(`Snapshot ${snapshotPath} does not exist`)
+    snapshot = fse.readJSONSync(snapshotPath)
+  }
+
+  const handle = async (request: any) => {
+    const key = getKey(request)
+    let response = snapshot.responses[key]
+
+    if (!response && upstream) {
+      const res = await fetch(upstream, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: request.method,
+          params: request.params,
+        }),
+      })
+      const { result, error } = await res.json()
+      response = error ? { error } : { result }
+      snapshot.responses[key] = response
+    }
+    if (!response) {
+      response = { error: { code: -32000, message: `Request not in snapshot: ${key}` } }
+    }
+
+    return { jsonrpc: '2.0', id: request.id, ...response }
+  }
+
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', async () => {
+      try {
+        const request = JSON.parse(body)
+        const response = Array.isArray(request)
+          ? await Promise.all(request.map(handle))
+          : await handle(request)
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(response))
+      } catch (error: any) {
+        res.writeHead(500)
+        res.end(error.message)
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as { port: number }
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    blockNumber: snapshot.blockNumber,
+    close: async () => {
+      await new Promise((resolve) => server.close(resolve))
+      if (upstream) fse.outputJSONSync(snapshotPath, snapshot)
+    },
+  }
+}
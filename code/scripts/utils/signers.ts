@@ -0,0 +1,188 @@
+import readline from 'readline'
+import {
+  ethers as Ethers,
+  Signer,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataField,
+} from 'ethers'
+import { ethers, network } from 'hardhat'
+import { accounts as devKeys, ledgerAccount } from '../../hardhat.config'
+
+export type SignerType = 'default' | 'ledger' | 'key' | 'mock-hardware'
+
+// networks where dev keys can never be used and the signer must be confirmed
+export const productionNetworks = ['mainnet', 'metis']
+
+// networks where the signer does not need to be confirmed
+const localNetworks = ['localhost', 'hardhat']
+
+const devAddresses = devKeys.map((key) => new Ethers.Wallet(key).address.toLowerCase())
+
+// signers that have been checked and confirmed in this process by type
+const selected: { [type: string]: Signer } = {}
+
+/**
+ * Throws if a signer address belongs to one of the dev keys in hardhat.config.ts and the network is
+ * a production network
+ * @param address signer address
+ * @param networkName network name
+ */
+export const checkSigner = (address: string, networkName: string = network.name) => {
+  if (productionNetworks.includes(networkName) && devAddresses.includes(address.toLowerCase())) {
+    throw Error(`Refusing to use dev key ${address} on ${networkName}`)
+  }
+}
+
+/**
+ * Returns the type of signer to use
+ * @dev SIGNER_TYPE overrides the type requested by the script
+ * @param useLedgerSigner whether the script requested a Ledger signer
+ * @returns signer type
+ */
+export const getSignerType = (useLedgerSigner = false): SignerType => {
+  const type = (process.env.SIGNER_TYPE || (useLedgerSigner ? 'ledger' : 'default')) as SignerType
+  if (!['default', 'ledger', 'key', 'mock-hardware'].includes(type)) {
+    throw Error(`Invalid signer type: ${type}`)
+  }
+  return type
+}
+
+const getPrivateKey = () => {
+  if (!process.env.PRIVATE_KEY) throw Error('PRIVATE_KEY is not set')
+  return process.env.PRIVATE_KEY
+}
+
+/**
+ * A local signer that behaves like a hardware wallet
+ * @dev every signature has to be approved, approval can be scripted in tests and a rejected request
+ * fails the same way a request denied on a device does
+ */
+class MockHardwareSigner extends Ethers.Wallet {
+  approve: (request: string, data: any) => boolean | Promise<boolean>
+  requests: { request: string; data: any; approved: boolean }[] = []
+
+  constructor(
+    privateKey: string,
+    provider: Ethers.Provider | null,
+    approve: (request: string, data: any) => boolean | Promise<boolean>
+  ) {
+    super(privateKey, provider)
+    this.approve = approve
+  }
+
+  private async confirm(request: string, data: any) {
+    const approved = await this.approve(request, data)
+    this.requests.push({ request, data, approved })
+    if (!approved) throw Error('Mock hardware signer: request denied by the user')
+  }
+
+  connect(provider: Ethers.Provider | null): MockHardwareSigner {
+    return new MockHardwareSigner(this.privateKey, provider, this.approve)
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    await this.confirm('signTransaction', tx)
+    return super.signTransaction(tx)
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    await this.confirm('signMessage', message)
+    return super.signMessage(message)
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    await this.confirm('signTypedData', { domain, types, value })
+    return super.signTypedData(domain, types, value)
+  }
+}
+
+/**
+ * Creates a local mock hardware signer
+ * @param privateKey private key (default: first dev key in hardhat.config.ts)
+ * @param approve called for every signature request, returns whether the request is approved
+ * @returns signer
+ */
+export const createMockHardwareSigner = (
+  privateKey: string = devKeys[0],
+  approve: (request: string, data: any) => boolean | Promise<boolean> = () => true
+) => {
+  return new MockHardwareSigner(privateKey, ethers.provider, approve)
+}
+
+const createSigner = async (type: SignerType): Promise<Signer> => {
+  switch (type) {
+    case 'ledger':
+      // hardhat-ledger signs transactions from ledgerAccounts on the device
+      return ethers.getSigner(process.env.LEDGER_ACCOUNT || ledgerAccount)
+    case 'key':
+      return new Ethers.Wallet(getPrivateKey(), ethers.provider)
+    case 'mock-hardware':
+      if (!localNetworks.includes(network.name)) {
+        throw Error(`Mock hardware signer cannot be used on ${network.name}`)
+      }
+      return createMockHardwareSigner(process.env.PRIVATE_KEY)
+    default:
+      return (await ethers.getSigners())[0]
+  }
+}
+
+const confirmSigner = async (type: SignerType, address: string) => {
+  const balance = await ethers.provider.getBalance(address)
+  console.log(
+    `Network: ${network.name}\nSigner: ${type} ${address}\nBalance: ${Ethers.formatEther(balance)}`
+  )
+
+  if (localNetworks.includes(network.name) || process.env.CONFIRM_SIGNER == 'false') return
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+  const answer = await new Promise<string>((resolve) =>
+    rl.question('Use this signer? (y/n) ', resolve)
+  )
+  rl.close()
+
+  if (answer.trim().toLowerCase() != 'y') throw Error('Signer was not confirmed')
+}
+
+/**
+ * Returns the signer used to deploy and interact with contracts
+ * @dev the signer is selected, checked and confirmed once per process and type
+ * @dev configured with SIGNER_TYPE (default, ledger, key, mock-hardware), LEDGER_ACCOUNT (default:
+ * ledgerAccount in hardhat.config.ts), PRIVATE_KEY for key signers and CONFIRM_SIGNER=false to skip
+ * confirmation on non-local networks
+ * @param useLedgerSigner whether the script requested a Ledger signer
+ * @returns signer
+ */
+export const getSigner = async (useLedgerSigner = false) => {
+  const type = getSignerType(useLedgerSigner)
+  if (selected[type]) return selected[type]
+
+  const signer = await createSigner(type)
+  const address = await signer.getAddress()
+
+  checkSigner(address)
+  await confirmSigner(type, address)
+
+  selected[type] = signer
+  return signer
+}
+
+/**
+ * Overrides the signer returned by getSigner for a signer type
+ * @dev used in tests to inject a mock hardware signer
+ * @param signer signer (pass undefined to reset)
+ * @param type signer type
+ */
+export const setSigner = async (signer: Signer | undefined, type: SignerType = 'default') => {
+  if (!signer) {
+    delete selected[type]
+    return
+  }
+
+  checkSigner(await signer.getAddress())
+  selected[type] = signer
+}
@@ -0,0 +1,328 @@
+import { ethers, network } from 'hardhat'
+import {
+  IStrategy,
+  IVault,
+  IVaultControllerStrategy,
+  PriorityPool,
+  SDLPoolCCIPControllerPrimary,
+  SDLPoolCCIPControllerSecondary,
+  SDLPoolPrimary,
+  SDLPoolSecondary,
+  StakingPool,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { Deployments } from './deployment'
+import { getStructKeys } from './helpers'
+import { readWithdrawalBatches } from './withdrawals'
+
+// deployment artifacts included in snapshots by section
+const sections = {
+  stakingPools: ['StakingPool'],
+  priorityPools: ['PriorityPool'],
+  withdrawalPools: ['WithdrawalPool'],
+  sdlPools: ['SDLPool', 'SDLPoolPrimary', 'SDLPoolSecondary'],
+  ccipControllers: ['SDLPoolCCIPControllerPrimary', 'SDLPoolCCIPControllerSecondary'],
+}
+
+type Section = keyof typeof sections
+
+export interface ProtocolSnapshot {
+  network: string
+  chainId: string
+  blockNumber: number
+  timestamp: number
+  stakingPools: { [name: string]: any }
+  priorityPools: { [name: string]: any }
+  withdrawalPools: { [name: string]: any }
+  sdlPools: { [name: string]: any }
+  ccipControllers: { [name: string]: any }
+}
+
+export interface SnapshotDiff {
+  path: string
+  before: any
+  after: any
+}
+
+/**
+ * Normalizes a value read from a contract so snapshots can be serialized and compared
+ * @dev bigints are converted to strings, addresses are lowercased and structs are converted to
+ * objects with named keys
+ * @param value value to normalize
+ * @returns normalized value
+ */
+export const normalize = (value: any): any => {
+  if (typeof value == 'bigint') return value.toString()
+  if (typeof value == 'string' && ethers.isAddress(value)) return value.toLowerCase()
+  if (value instanceof ethers.Result) {
+    const keys = getStructKeys(value)
+    if (keys) return Object.fromEntries(keys.map((key) => [key, normalize(value.getValue(key))]))
+    return value.toArray().map(normalize)
+  }
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value == 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, normalize(v)]))
+  }
+  return value
+}
+
+// returns undefined for calls that revert or are not implemented by the contract
+const tryRead = async <T>(read: () => Promise<T>): Promise<T | undefined> => {
+  try {
+    return await read()
+  } catch (error) {
+    return undefined
+  }
+}
+
+const inChunks = async <T, R>(items: T[], size: number, fn: (chunk: T[]) => Promise<R[]>) => {
+  const results: R[] = []
+  for (let i = 0; i < items.length; i += size) {
+    results.push(...(await fn(items.slice(i, i + size))))
+  }
+  return results
+}
+
+const snapshotStakingPool = async (
+  address: string,
+  names: Map<string, string>,
+  blockTag: number
+) => {
+  const pool = (await ethers.getContractAt('StakingPool', address)) as StakingPool
+  const strategies = await pool.getStrategies({ blockTag })
+
+  const strategySnapshots: { [address: string]: any } = {}
+  for (const strategyAddress of strategies) {
+    const strategy = (await ethers.getContractAt('IStrategy', strategyAddress)) as IStrategy
+    const vcs = (await ethers.getContractAt(
+      'IVaultControllerStrategy',
+      strategyAddress
+    )) as IVaultControllerStrategy
+    const vaults = (await tryRead(() => vcs.getVaults({ blockTag }))) || []
+
+    strategySnapshots[strategyAddress.toLowerCase()] = {
+      name: names.get(strategyAddress.toLowerCase()),
+      totalDeposits: await strategy.getTotalDeposits({ blockTag }),
+      maxDeposits: await strategy.getMaxDeposits({ blockTag }),
+      minDeposits: await strategy.getMinDeposits({ blockTag }),
+      depositChange: await tryRead(() => strategy.getDepositChange({ blockTag })),
+      pendingFees: await tryRead(() => strategy.getPendingFees({ blockTag })),
+      vaults: await inChunks(vaults, 50, (chunk) =>
+        Promise.all(
+          chunk.map(async (vaultAddress) => {
+            const vault = (await ethers.getContractAt('IVault', vaultAddress)) as IVault
+            return {
+              address: vaultAddress,
+              principalDeposits: await tryRead(() => vault.getPrincipalDeposits({ blockTag })),
+              rewards: await tryRead(() => vault.getRewards({ blockTag })),
+              totalDeposits: await tryRead(() => vault.getTotalDeposits({ blockTag })),
+            }
+          })
+        )
+      ),
+    }
+  }
+
+  return {
+    address,
+    totalStaked: await pool.totalStaked({ blockTag }),
+    totalShares: await pool.totalShares({ blockTag }),
+    totalSupply: await pool.totalSupply({ blockTag }),
+    unusedDeposits: await tryRead(() => pool.getUnusedDeposits({ blockTag })),
+    maxDeposits: await pool.getMaxDeposits({ blockTag }),
+    minDeposits: await pool.getMinDeposits({ blockTag }),
+    priorityPool: await pool.priorityPool({ blockTag }),
+    rebaseController: await pool.rebaseController({ blockTag }),
+    fees: await pool.getFees({ blockTag }),
+    strategies: strategySnapshots,
+  }
+}
+
+const snapshotPriorityPool = async (address: string, blockTag: number) => {
+  const pool = (await ethers.getContractAt('PriorityPool', address)) as PriorityPool
+
+  return {
+    address,
+    poolStatus: await pool.poolStatus({ blockTag }),
+    totalQueued: await pool.totalQueued({ blockTag }),
+    depositsSinceLastUpdate: await pool.depositsSinceLastUpdate({ blockTag }),
+    queueDepositMin: await pool.queueDepositMin({ blockTag }),
+    queueDepositMax: await pool.queueDepositMax({ blockTag }),
+    numAccounts: (await pool.getAccounts({ blockTag })).length,
+    merkleRoot: await pool.merkleRoot({ blockTag }),
+    ipfsHash: await pool.ipfsHash({ blockTag }),
+    merkleTreeSize: await pool.merkleTreeSize({ blockTag }),
+    distributionOracle: await pool.distributionOracle({ blockTag }),
+    withdrawalPool: await tryRead(() => pool.withdrawalPool({ blockTag })),
+  }
+}
+
+const snapshotWithdrawalPool = async (address: string, blockTag: number) => {
+  const pool = (await ethers.getContractAt('WithdrawalPool', address)) as WithdrawalPool
+
+  return {
+    address,
+    totalQueuedWithdrawals: await pool.getTotalQueuedWithdrawals({ blockTag }),
+    indexOfNextWithdrawal: await pool.indexOfNextWithdrawal({ blockTag }),
+    withdrawalBatchIdCutoff: await pool.withdrawalBatchIdCutoff({ blockTag }),
+    withdrawalIdCutoff: await pool.withdrawalIdCutoff({ blockTag }),
+    minWithdrawalAmount: await pool.minWithdrawalAmount({ blockTag }),
+    timeOfLastWithdrawal: await pool.timeOfLastWithdrawal({ blockTag }),
+    batches: await readWithdrawalBatches(address, blockTag),
+  }
+}
+
+const snapshotSDLPool = async (address: string, artifact: string, blockTag: number) => {
+  const pool = (await ethers.getContractAt('SDLPoolPrimary', address)) as SDLPoolPrimary
+  const lastLockId = Number(await pool.lastLockId({ blockTag }))
+
+  const lockIds = [...Array(lastLockId).keys()].map((i) => i + 1)
+  const owners = await inChunks(lockIds, 100, (ids) =>
+    Promise.all(ids.map((id) => tryRead(() => pool.ownerOf(id, { blockTag }))))
+  )
+  const activeIds = lockIds.filter((_, i) => owners[i] != undefined)
+  const locks = await inChunks(activeIds, 100, (ids) => pool.getLocks(ids, { blockTag }))
+
+  const snapshot: any = {
+    address,
+    totalEffectiveBalance: await pool.totalEffectiveBalance({ blockTag }),
+    totalStaked: await pool.totalStaked({ blockTag }),
+    lastLockId,
+    locks: Object.fromEntries(
+      activeIds.map((id, i) => [id, { owner: owners[id - 1], ...normalize(locks[i]) }])
+    ),
+  }
+
+  if (artifact == 'SDLPoolSecondary') {
+    const secondary = (await ethers.getContractAt('SDLPoolSecondary', address)) as SDLPoolSecondary
+    snapshot.updateBatchIndex = await secondary.updateBatchIndex({ blockTag })
+    snapshot.queuedRESDLSupplyChange = await secondary.queuedRESDLSupplyChange({ blockTag })
+    snapshot.queuedNewLockLimit = await secondary.queuedNewLockLimit({ blockTag })
+    snapshot.isUpdateInProgress = await secondary.isUpdateInProgress({ blockTag })
+  }
+
+  return snapshot
+}
+
+const snapshotCCIPController = async (address: string, artifact: string, blockTag: number) => {
+  if (artifact == 'SDLPoolCCIPControllerSecondary') {
+    const controller = (await ethers.getContractAt(
+      'SDLPoolCCIPControllerSecondary',
+      address
+    )) as SDLPoolCCIPControllerSecondary
+    return {
+      address,
+      shouldUpdate: await controller.shouldUpdate({ blockTag }),
+      updateInitiator: await controller.updateInitiator({ blockTag }),
+    }
+  }
+
+  const controller = (await ethers.getContractAt(
+    'SDLPoolCCIPControllerPrimary',
+    address
+  )) as SDLPoolCCIPControllerPrimary
+  const chains = await controller.getWhitelistedChains({ blockTag })
+
+  return {
+    address,
+    queuedUpdates: await controller.getQueuedUpdates({ blockTag }),
+    chains: Object.fromEntries(
+      await Promise.all(
+        chains.map(async (chain) => [
+          chain.toString(),
+          {
+            destination: await controller.whitelistedDestinations(chain, { blockTag }),
+            reSDLSupply: await controller.reSDLSupplyByChain(chain, { blockTag }),
+          },
+        ])
+      )
+    ),
+    updateInitiator: await controller.updateInitiator({ blockTag }),
+  }
+}
+
+/**
+ * Takes a normalized snapshot of protocol state at a block
+ * @dev contracts are found in deployments by artifact: staking pools (with strategies and every
+ * vault's principal/rewards), priority pools, withdrawal pools, SDL pools (with every lock) and
+ * SDL pool CCIP controllers (with queued updates)
+ * @param deployments deployments to snapshot
+ * @param blockTag block to read state at
+ * @returns snapshot
+ */
+export const takeSnapshot = async (
+  deployments: Deployments,
+  blockTag: number | string = 'latest'
+): Promise<ProtocolSnapshot> => {
+  const block = (await ethers.provider.getBlock(blockTag))!
+  const names = new Map(
+    Object.keys(deployments).map((name) => [deployments[name].address.toLowerCase(), name])
+  )
+
+  const snapshot: ProtocolSnapshot = {
+    network: network.name,
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    stakingPools: {},
+    priorityPools: {},
+    withdrawalPools: {},
+    sdlPools: {},
+    ccipControllers: {},
+  }
+
+  for (const name of Object.keys(deployments)) {
+    const { address, artifact } = deployments[name]
+    const section = (Object.keys(sections) as Section[]).find((key) =>
+      sections[key].includes(artifact)
+    )
+    if (!section) continue
+
+    if (section == 'stakingPools') {
+      snapshot[section][name] = await snapshotStakingPool(address, names, block.number)
+    } else if (section == 'priorityPools') {
+      snapshot[section][name] = await snapshotPriorityPool(address, block.number)
+    } else if (section == 'withdrawalPools') {
+      snapshot[section][name] = await snapshotWithdrawalPool(address, block.number)
+    } else if (section == 'sdlPools') {
+      snapshot[section][name] = await snapshotSDLPool(address, artifact, block.number)
+    } else {
+      snapshot[section][name] = await snapshotCCIPController(address, artifact, block.number)
+    }
+  }
+
+  return normalize(snapshot)
+}
+
+const flatten = (value: any, path: string, out: Map<string, any>) => {
+  if (value && typeof value == 'object') {
+    const keys = Object.keys(value)
+    if (keys.length == 0) out.set(path, Array.isArray(value) ? [] : {})
+    keys.forEach((key) => flatten(value[key], path ? `${path}.${key}` : key, out))
+  } else {
+    out.set(path, value)
+  }
+  return out
+}
+
+/**
+ * Compares two snapshots
+ * @dev snapshot metadata (network, block and timestamp) is not compared
+ * @param before earlier snapshot
+ * @param after later snapshot
+ * @returns list of values that differ by path, missing values are undefined
+ */
+export const diffSnapshots = (before: ProtocolSnapshot, after: ProtocolSnapshot) => {
+  const strip = ({ network, chainId, blockNumber, timestamp, ...state }: ProtocolSnapshot) => state
+  const a = flatten(strip(before), '', new Map())
+  const b = flatten(strip(after), '', new Map())
+  const diffs: SnapshotDiff[] = []
+
+  for (const path of new Set([...a.keys(), ...b.keys()])) {
+    if (JSON.stringify(a.get(path)) != JSON.stringify(b.get(path))) {
+      diffs.push({ path, before: a.get(path), after: b.get(path) })
+    }
+  }
+
+  return diffs
+}
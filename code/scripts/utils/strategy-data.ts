@@ -0,0 +1,163 @@
+import { ethers } from 'ethers'
+import {
+  FundFlowController,
+  PriorityPool,
+  StakingPool,
+  WithdrawalPool,
+} from '../../typechain-types'
+
+export type DataPlanType = 'deposit' | 'withdrawal'
+
+export interface StrategyData {
+  strategy: string // strategy address
+  data: string // encoded data passed to the strategy
+  vaults?: number[] // decoded vault order, only set for strategies managed by the fund flow controller
+}
+
+export interface DataPlan {
+  type: DataPlanType
+  amount: bigint
+  strategies: StrategyData[]
+  data: string[] // list of data passed to the staking pool in strategy order
+}
+
+/**
+ * Encodes a list of vault ids as deposit/withdrawal data for a vault controller strategy
+ * @param vaultIds list of vault ids
+ * @returns encoded data
+ */
+export const encodeVaultIds = (vaultIds: number[]) => {
+  return ethers.AbiCoder.defaultAbiCoder().encode(['uint64[]'], [vaultIds])
+}
+
+/**
+ * Decodes vault controller strategy deposit/withdrawal data into a list of vault ids
+ * @param data encoded data
+ * @returns list of vault ids
+ */
+export const decodeVaultIds = (data: string): number[] => {
+  if (ethers.dataLength(data) == 0) return []
+  return ethers.AbiCoder.defaultAbiCoder()
+    .decode(['uint64[]'], data)[0]
+    .map((id: bigint) => Number(id))
+}
+
+/**
+ * Encodes a plan as performData for PPKeeper/WithdrawalPool.performUpkeep
+ * @param plan deposit or withdrawal plan
+ * @returns encoded perform data
+ */
+export const encodePerformData = (plan: DataPlan) => {
+  return ethers.AbiCoder.defaultAbiCoder().encode(['bytes[]'], [plan.data])
+}
+
+/**
+ * Creates a planner that builds deposit/withdrawal data for every strategy in a staking pool
+ * @dev the fund flow controller returns data for the operator VCS at index 0 and the community VCS
+ * at index 1, this data is mapped to the position of each VCS in the staking pool's strategy list and
+ * all other strategies receive empty data
+ * @param stakingPool staking pool
+ * @param fundFlowController fund flow controller (omit for pools without vault controller strategies)
+ * @returns planner
+ */
+export const createDataPlanner = (
+  stakingPool: StakingPool,
+  fundFlowController?: FundFlowController
+) => {
+  const getStrategies = async () => {
+    const strategies = await stakingPool.getStrategies()
+    const vcs = fundFlowController
+      ? await Promise.all([fundFlowController.operatorVCS(), fundFlowController.communityVCS()])
+      : []
+
+    return strategies.map((strategy) => ({
+      strategy,
+      vcsIndex: vcs.findIndex((address) => address.toLowerCase() == strategy.toLowerCase()),
+    }))
+  }
+
+  /**
+   * Decodes a list of staking pool data into a plan
+   * @param type plan type
+   * @param amount amount the data was built for
+   * @param data list of data in strategy order
+   * @returns plan
+   */
+  const decode = async (type: DataPlanType, amount: bigint, data: string[]): Promise<DataPlan> => {
+    const strategies = await getStrategies()
+
+    if (data.length != strategies.length) {
+      throw Error(`Expected data for ${strategies.length} strategies, got ${data.length}`)
+    }
+
+    return {
+      type,
+      amount,
+      strategies: strategies.map(({ strategy, vcsIndex }, i) => ({
+        strategy,
+        data: data[i],
+        vaults: vcsIndex == -1 ? undefined : decodeVaultIds(data[i]),
+      })),
+      data,
+    }
+  }
+
+  /**
+   * Builds a deposit or withdrawal plan
+   * @param type plan type
+   * @param amount amount to deposit or withdraw
+   * @returns plan
+   */
+  const plan = async (type: DataPlanType, amount: bigint) => {
+    const strategies = await getStrategies()
+
+    let vcsData: string[] = []
+    if (fundFlowController && strategies.some(({ vcsIndex }) => vcsIndex != -1)) {
+      vcsData =
+        type == 'deposit'
+          ? await fundFlowController.getDepositData(amount)
+          : await fundFlowController.getWithdrawalData(amount)
+    }
+
+    return decode(
+      type,
+      amount,
+      strategies.map(({ vcsIndex }) => (vcsIndex == -1 ? '0x' : vcsData[vcsIndex]))
+    )
+  }
+
+  return {
+    decode,
+    planDeposit: (amount: bigint) => plan('deposit', amount),
+    planWithdrawal: (amount: bigint) => plan('withdrawal', amount),
+  }
+}
+
+/**
+ * Estimates gas for depositing queued tokens with a deposit plan
+ * @param priorityPool priority pool
+ * @param plan deposit plan
+ * @param queueDepositMin min amount of tokens required for the deposit to succeed
+ * @returns gas estimate
+ */
+export const estimateDepositGas = async (
+  priorityPool: PriorityPool,
+  plan: DataPlan,
+  queueDepositMin = 0n
+) => {
+  if (plan.type != 'deposit') throw Error('Plan is not a deposit plan')
+  return priorityPool.depositQueuedTokens.estimateGas(queueDepositMin, plan.amount, plan.data)
+}
+
+/**
+ * Estimates gas for executing queued withdrawals with a withdrawal plan
+ * @dev the withdrawal pool decides the amount withdrawn so the plan should be built for
+ * min(total queued withdrawals, priorityPool.canWithdraw(withdrawalPool, 0))
+ * @param withdrawalPool withdrawal pool
+ * @param plan withdrawal plan
+ * @returns gas estimate
+ */
+export const estimateWithdrawalGas = async (withdrawalPool: WithdrawalPool, plan: DataPlan) => {
+  if (plan.type != 'withdrawal') throw Error('Plan is not a withdrawal plan')
+  return withdrawalPool.performUpkeep.estimateGas(encodePerformData(plan))
+}
@@ -0,0 +1,229 @@
+import { Interface } from 'ethers'
+import fse from 'fs-extra'
+import { artifacts, ethers, network, upgrades } from 'hardhat'
+import { UpgradeOptions as PluginUpgradeOptions } from '@openzeppelin/hardhat-upgrades'
+import { getContract, getDeployments, recordUpgrade } from './deployment'
+import { getImplementation } from './deployment-backfill'
+import { readGetters } from './batch-simulation'
+import { createSafeBatch } from './multisig'
+
+export interface UpgradeOptions {
+  artifact?: string // artifact of new implementation (default: artifact of deployment)
+  call?: { fn: string; args?: unknown[] } // function to call on the proxy during the upgrade
+  unsafeAllow?: PluginUpgradeOptions['unsafeAllow'] // upgrades validations to skip
+}
+
+export interface SmokeTestResult {
+  passed: boolean
+  implementation?: string // implementation the proxy points to
+  reverted: string[] // getters that revert after the upgrade but did not before
+  changed: { getter: string; before: any; after: any }[] // getters whose value changed
+}
+
+interface PendingUpgrade {
+  implementation: string // implementation the proxy will be upgraded to
+  before: { [getter: string]: any } // getter values before the upgrade
+}
+
+const getRecordPath = () => `deployments/${network.name}.upgrades.json`
+
+const getRecord = (): { [name: string]: PendingUpgrade } => {
+  fse.ensureFileSync(getRecordPath())
+  return fse.readJSONSync(getRecordPath(), { throws: false }) || {}
+}
+
+const updateRecord = (update: (record: { [name: string]: PendingUpgrade }) => void) => {
+  const record = getRecord()
+  update(record)
+  fse.outputJSONSync(getRecordPath(), record, { spaces: 2 })
+}
+
+/**
+ * Encodes the call that upgrades a UUPS proxy
+ * @dev upgradeTo is used when there is no call as OZ 4.x upgradeToAndCall always calls the new
+ * implementation, which reverts for contracts without a fallback function when the data is empty
+ * @param iface interface of the new implementation
+ * @param implementation address of new implementation
+ * @param call function to call on the proxy during the upgrade
+ * @returns method and args of the upgrade call
+ */
+export const encodeUpgradeCall = (
+  iface: Interface,
+  implementation: string,
+  call?: UpgradeOptions['call']
+) => {
+  if (!call) return { method: 'upgradeTo', args: [implementation] }
+  return {
+    method: 'upgradeToAndCall',
+    args: [implementation, iface.encodeFunctionData(call.fn, call.args || [])],
+  }
+}
+
+/**
+ * Reads the zero-arg view functions of a contract that are checked by the smoke test
+ * @param address contract address
+ * @param artifact artifact whose view functions are read
+ * @returns getter values by signature
+ */
+export const readSmokeValues = async (address: string, artifact: string) => {
+  const { abi, contractName } = await artifacts.readArtifact(artifact)
+  return readGetters({ name: contractName, contractName, address, iface: new Interface(abi) })
+}
+
+/**
+ * Compares the view functions of a contract before and after an upgrade
+ * @dev the test fails if a getter reverts after the upgrade that did not revert before, changed
+ * values are reported but do not fail the test as an upgrade call may change state
+ * @dev without values from before the upgrade there is nothing to compare so the test passes
+ * @param before getter values before the upgrade
+ * @param after getter values after the upgrade
+ * @returns smoke test result
+ */
+export const checkSmokeValues = (
+  before: { [getter: string]: any } | undefined,
+  after: { [getter: string]: any }
+): SmokeTestResult => {
+  const result: SmokeTestResult = { passed: true, reverted: [], changed: [] }
+  if (!before) return result
+
+  for (const getter of Object.keys(after)) {
+    if (after[getter] == 'reverted' && before[getter] != 'reverted') {
+      result.reverted.push(getter)
+    } else if (getter in before && before[getter] != 'reverted') {
+      if (JSON.stringify(before[getter]) != JSON.stringify(after[getter])) {
+        result.changed.push({ getter, before: before[getter], after: after[getter] })
+      }
+    }
+  }
+
+  result.passed = result.reverted.length == 0
+  return result
+}
+
+/**
+ * Validates the storage layout of a new implementation against the current implementation of a
+ * proxy as recorded in .openzeppelin/<network>.json
+ * @param name deployment name of proxy
+ * @param options upgrade options
+ */
+export const validateUpgrade = async (name: string, options: UpgradeOptions = {}) => {
+  const deployment = getDeployments()[name]
+  if (!deployment) throw Error('Deployed contract does not exist')
+
+  const Contract = await ethers.getContractFactory(options.artifact || deployment.artifact)
+  await upgrades.validateUpgrade(deployment.address, Contract, {
+    kind: 'uups',
+    unsafeAllow: options.unsafeAllow,
+  })
+}
+
+/**
+ * Records an upgrade that was executed outside of this process (e.g. by the multisig) and runs the
+ * post-upgrade smoke test
+ * @dev if before is omitted the getter values stored in deployments/<network>.upgrades.json when
+ * the upgrade batch was submitted are used, they are only used if the proxy now points to the
+ * implementation they were stored for and are removed once the upgrade is finalized
+ * @param name deployment name of proxy
+ * @param artifact artifact of new implementation (default: artifact of deployment)
+ * @param before getter values before the upgrade (default: stored values)
+ * @returns smoke test result
+ */
+export const finalizeUpgrade = async (
+  name: string,
+  artifact?: string,
+  before?: { [getter: string]: any }
+) => {
+  const deployment = getDeployments()[name]
+  if (!deployment) throw Error('Deployed contract does not exist')
+
+  const implementation = await getImplementation(ethers.provider, deployment.address)
+  if (!implementation) throw Error(`${name} is not a proxy`)
+
+  if (implementation.toLowerCase() != deployment.implementation?.toLowerCase()) {
+    await recordUpgrade(name, implementation, undefined, artifact)
+  }
+
+  const pending = getRecord()[name]
+  if (pending?.implementation.toLowerCase() == implementation.toLowerCase()) {
+    before = before || pending.before
+    updateRecord((record) => delete record[name])
+  }
+
+  const after = await readSmokeValues(deployment.address, artifact || deployment.artifact)
+  return { ...checkSmokeValues(before, after), implementation }
+}
+
+/**
+ * Upgrades a UUPS proxy
+ * @dev validates the storage layout, deploys the new implementation (an identical implementation
+ * that was already deployed is reused) and either upgrades the proxy directly or submits a Safe
+ * batch with the upgrade call, the upgrade is recorded in the deployments file and smoke tested
+ * once it has been executed
+ * @dev Safe batches are submitted using --mode/--out (see createSafeBatch), if the batch is not
+ * executed right away the getter values from before the upgrade are stored and finalizeUpgrade
+ * should be run after it has been
+ * @param name deployment name of proxy
+ * @param useMultisig whether to submit the upgrade as a Safe batch
+ * @param options upgrade options
+ * @param dryRun whether to only validate the upgrade
+ * @param useLedgerSigner whether to use a Ledger to deploy and sign
+ * @param log logger
+ * @returns implementation address and smoke test result if the upgrade was executed
+ */
+export const upgradeContract = async (
+  name: string,
+  useMultisig = false,
+  options: UpgradeOptions = {},
+  dryRun = false,
+  useLedgerSigner = false,
+  log: (...args: any[]) => void = console.log
+) => {
+  const deployment = getDeployments()[name]
+  if (!deployment) throw Error('Deployed contract does not exist')
+
+  const artifact = options.artifact || deployment.artifact
+  const current = await getImplementation(ethers.provider, deployment.address)
+  if (!current) throw Error(`${name} is not a proxy`)
+
+  await validateUpgrade(name, options)
+  log(`Storage layout of ${artifact} is compatible with ${name} implementation ${current}`)
+
+  if (dryRun) {
+    log(`${name} would be upgraded with ${options.call ? 'upgradeToAndCall' : 'upgradeTo'}`)
+    return {}
+  }
+
+  const before = await readSmokeValues(deployment.address, artifact)
+  const Contract = await ethers.getContractFactory(artifact)
+  const implementation = (await upgrades.prepareUpgrade(deployment.address, Contract, {
+    kind: 'uups',
+    unsafeAllow: options.unsafeAllow,
+  })) as string
+  log(`${artifact} implementation deployed: `, implementation)
+
+  const contract = await getContract(name, useLedgerSigner)
+  const { method, args } = encodeUpgradeCall(Contract.interface, implementation, options.call)
+
+  if (useMultisig) {
+    const batch = createSafeBatch(
+      `Upgrade ${name}`,
+      `Upgrade ${name} to ${artifact} implementation ${implementation}`
+    )
+    await batch.add(contract, method, args as any)
+    await batch.submit(useLedgerSigner)
+
+    const upgraded = await getImplementation(ethers.provider, deployment.address)
+    if (upgraded?.toLowerCase() != implementation.toLowerCase()) {
+      updateRecord((record) => (record[name] = { implementation, before }))
+      log(`${name} will be upgraded once the batch is executed, run finalize afterwards`)
+      return { implementation }
+    }
+    return { implementation, smokeTest: await finalizeUpgrade(name, artifact, before) }
+  }
+
+  const tx = await contract[method](...args)
+  await recordUpgrade(name, implementation, tx, artifact)
+  log(`${name} upgraded: `, tx.hash)
+
+  return { implementation, smokeTest: await finalizeUpgrade(name, artifact, before) }
+}
@@ -0,0 +1,323 @@
+import { ethers, BlockTag } from 'ethers'
+import { FundFlowController, OperatorVCS } from '../../typechain-types'
+import { formatError } from './errors'
+
+const vaultABI = [
+  'function stakeController() view returns (address)',
+  'function getPrincipalDeposits() view returns (uint256)',
+  'function claimPeriodActive() view returns (bool)',
+  'function isRemoved() view returns (bool)',
+]
+
+const vcsABI = ['function getVaults() view returns (address[])']
+
+const stakingABI = [
+  'function getUnbondingEndsAt(address) view returns (uint256)',
+  'function getClaimPeriodEndsAt(address) view returns (uint256)',
+]
+
+export interface VaultGroupState {
+  numVaultGroups: number
+  curUnbondedVaultGroup: number
+  nextUnbondedVaultGroup: number
+  unbondingPeriod: number
+  claimPeriod: number
+  timeOfLastUpdateByGroup: number[]
+  claimPeriodActive: boolean
+}
+
+export interface ClaimWindow {
+  start: number // latest time unbonding ends for a vault in the group
+  end: number // earliest time the claim period ends for a vault in the group
+}
+
+export interface VaultGroupAccounting {
+  vaultGroups: number[] // operator vault groups with outdated accounting
+  totalDepositRoom: bigint[] // expected totalDepositRoom for each group in vaultGroups
+  totalUnbonded: bigint // expected totalUnbonded
+}
+
+/**
+ * Returns the vault group state of a fund flow controller
+ * @param fundFlowController fund flow controller
+ * @param blockTag block to read state at
+ * @returns vault group state
+ */
+export const getVaultGroupState = async (
+  fundFlowController: FundFlowController,
+  blockTag: BlockTag = 'latest'
+): Promise<VaultGroupState> => {
+  const [numVaultGroups, curUnbondedVaultGroup, unbondingPeriod, claimPeriod, claimPeriodActive] =
+    await Promise.all([
+      fundFlowController.numVaultGroups({ blockTag }),
+      fundFlowController.curUnbondedVaultGroup({ blockTag }),
+      fundFlowController.unbondingPeriod({ blockTag }),
+      fundFlowController.claimPeriod({ blockTag }),
+      fundFlowController.claimPeriodActive({ blockTag }),
+    ])
+
+  const timeOfLastUpdateByGroup = await Promise.all(
+    [...Array(Number(numVaultGroups)).keys()].map((i) =>
+      fundFlowController.timeOfLastUpdateByGroup(i, { blockTag })
+    )
+  )
+
+  return {
+    numVaultGroups: Number(numVaultGroups),
+    curUnbondedVaultGroup: Number(curUnbondedVaultGroup),
+    nextUnbondedVaultGroup: (Number(curUnbondedVaultGroup) + 1) % Number(numVaultGroups),
+    unbondingPeriod: Number(unbondingPeriod),
+    claimPeriod: Number(claimPeriod),
+    timeOfLastUpdateByGroup: timeOfLastUpdateByGroup.map((time) => Number(time)),
+    claimPeriodActive,
+  }
+}
+
+/**
+ * Returns the earliest block timestamp at which updateVaultGroups can be called
+ * @dev mirrors the NoUpdateNeeded conditions in FundFlowController.updateVaultGroups
+ * @param state vault group state
+ * @returns earliest valid timestamp
+ */
+export const getNextUpdateTime = (state: VaultGroupState) => {
+  const { curUnbondedVaultGroup: cur, nextUnbondedVaultGroup: next, unbondingPeriod } = state
+  const times = state.timeOfLastUpdateByGroup
+  let nextUpdateTime = 0
+
+  // claim period must have expired for current group
+  if (times[next] != 0) {
+    nextUpdateTime = Math.max(nextUpdateTime, times[cur] + unbondingPeriod + state.claimPeriod + 1)
+  }
+
+  // groups must be spaced out by a full claim period during the first cycle
+  if (cur != 0 && times[cur] == 0) {
+    nextUpdateTime = Math.max(nextUpdateTime, times[cur - 1] + state.claimPeriod + 1)
+  }
+
+  // unbonding period must have concluded for next group
+  return Math.max(nextUpdateTime, times[next] + unbondingPeriod)
+}
+
+/**
+ * Returns the claim window of a vault group as reported by the Chainlink staking contract
+ * @dev only vaults with an active or completed unbonding are considered
+ * @param vcs vault controller strategy
+ * @param numVaultGroups total number of vault groups
+ * @param vaultGroup index of vault group
+ * @param blockTag block to read state at
+ * @returns claim window or undefined if no vault in the group has unbonded
+ */
+export const getClaimWindow = async (
+  vcs: ethers.BaseContract,
+  numVaultGroups: number,
+  vaultGroup: number,
+  blockTag: BlockTag = 'latest'
+): Promise<ClaimWindow | undefined> => {
+  const runner = vcs.runner
+  const vaults: string[] = await new ethers.Contract(vcs.target, vcsABI, runner).getVaults({
+    blockTag,
+  })
+  if (vaults.length == 0) return
+
+  const stakingAddress = await new ethers.Contract(vaults[0], vaultABI, runner).stakeController({
+    blockTag,
+  })
+  const staking = new ethers.Contract(stakingAddress, stakingABI, runner)
+
+  let window: ClaimWindow | undefined
+  for (let i = vaultGroup; i < vaults.length; i += numVaultGroups) {
+    const [unbondingEndsAt, claimPeriodEndsAt] = await Promise.all([
+      staking.getUnbondingEndsAt(vaults[i], { blockTag }),
+      staking.getClaimPeriodEndsAt(vaults[i], { blockTag }),
+    ])
+    if (unbondingEndsAt == 0n) continue
+
+    window = {
+      start: Math.max(window?.start || 0, Number(unbondingEndsAt)),
+      end: Math.min(window?.end || Infinity, Number(claimPeriodEndsAt)),
+    }
+  }
+
+  return window
+}
+
+/**
+ * Returns the operator vault groups whose accounting has drifted from vault state
+ * @dev mirrors the calculations in FundFlowController.updateOperatorVaultGroupAccounting so the
+ * returned groups can be passed to it directly
+ * @param operatorVCS operator vault controller strategy
+ * @param state vault group state
+ * @param blockTag block to read state at
+ * @returns groups to update and their expected accounting
+ */
+export const getOperatorVaultGroupAccounting = async (
+  operatorVCS: OperatorVCS,
+  state: VaultGroupState,
+  blockTag: BlockTag = 'latest'
+): Promise<VaultGroupAccounting> => {
+  const [vaults, [, maxDeposits], globalVaultState, totalUnbonded] = await Promise.all([
+    operatorVCS.getVaults({ blockTag }),
+    operatorVCS.getVaultDepositLimits({ blockTag }),
+    operatorVCS.globalVaultState({ blockTag }),
+    operatorVCS.totalUnbonded({ blockTag }),
+  ])
+  const depositIndex = Number(globalVaultState[3])
+
+  const vaultData = await Promise.all(
+    vaults.map(async (address) => {
+      const vault = new ethers.Contract(address, vaultABI, operatorVCS.runner)
+      const [principalDeposits, claimPeriodActive, isRemoved] = await Promise.all([
+        vault.getPrincipalDeposits({ blockTag }),
+        vault.claimPeriodActive({ blockTag }),
+        vault.isRemoved({ blockTag }),
+      ])
+      return { principalDeposits, claimPeriodActive, isRemoved }
+    })
+  )
+
+  const accounting: VaultGroupAccounting = {
+    vaultGroups: [],
+    totalDepositRoom: [],
+    totalUnbonded,
+  }
+
+  for (let group = 0; group < state.numVaultGroups; ++group) {
+    let totalDepositRoom = 0n
+    for (let i = group; i < depositIndex; i += state.numVaultGroups) {
+      if (vaultData[i].isRemoved) continue
+      totalDepositRoom += maxDeposits - vaultData[i].principalDeposits
+    }
+
+    let groupUnbonded = totalUnbonded
+    if (group == state.curUnbondedVaultGroup) {
+      groupUnbonded = 0n
+      for (let i = group; i < vaults.length; i += state.numVaultGroups) {
+        if (!vaultData[i].claimPeriodActive || vaultData[i].isRemoved) continue
+        groupUnbonded += vaultData[i].principalDeposits
+      }
+    }
+
+    const [, curDepositRoom] = await operatorVCS.vaultGroups(group, { blockTag })
+    if (curDepositRoom != totalDepositRoom || groupUnbonded != totalUnbonded) {
+      accounting.vaultGroups.push(group)
+      accounting.totalDepositRoom.push(totalDepositRoom)
+      accounting.totalUnbonded = groupUnbonded
+    }
+  }
+
+  return accounting
+}
+
+/**
+ * Creates a scheduler that rotates vault groups and corrects operator vault group accounting
+ * @dev every run reads the current state, calls updateVaultGroups if the next update time has been
+ * reached and calls updateOperatorVaultGroupAccounting for any groups whose accounting has drifted
+ * @param fundFlowController fund flow controller connected to the signer that sends transactions
+ * @param operatorVCS operator vault controller strategy
+ * @param communityVCS community vault controller strategy
+ * @param log logger
+ * @returns scheduler
+ */
+export const createVaultGroupScheduler = (
+  fundFlowController: FundFlowController,
+  operatorVCS: OperatorVCS,
+  communityVCS: ethers.BaseContract,
+  log: (...args: any[]) => void = console.log
+) => {
+  const provider = fundFlowController.runner!.provider!
+  let timer: NodeJS.Timeout | undefined
+
+  /**
+   * Returns the current vault group state and the predicted time of the next update
+   * @returns scheduler status
+   */
+  const getStatus = async () => {
+    const block = await provider.getBlock('latest')
+    const state = await getVaultGroupState(fundFlowController, block!.number)
+
+    const [operatorClaimWindow, communityClaimWindow] = await Promise.all([
+      getClaimWindow(
+        operatorVCS,
+        state.numVaultGroups,
+        state.nextUnbondedVaultGroup,
+        block!.number
+      ),
+      getClaimWindow(
+        communityVCS,
+        state.numVaultGroups,
+        state.nextUnbondedVaultGroup,
+        block!.number
+      ),
+    ])
+
+    return {
+      ...state,
+      timestamp: block!.timestamp,
+      nextUpdateTime: getNextUpdateTime(state),
+      nextGroupClaimWindows: { operator: operatorClaimWindow, community: communityClaimWindow },
+    }
+  }
+
+  /**
+   * Executes all updates that are currently due
+   * @returns hashes of sent transactions
+   */
+  const run = async () => {
+    const status = await getStatus()
+    const txs: { updateVaultGroups?: string; updateOperatorVaultGroupAccounting?: string } = {}
+
+    // the next block will have a timestamp greater than the latest block
+    if (status.timestamp + 1 >= status.nextUpdateTime) {
+      for (const window of Object.values(status.nextGroupClaimWindows)) {
+        if (window && window.start > status.timestamp + 1) {
+          log(`Warning: next group unbonding in staking contract ends at ${window.start}`)
+        }
+      }
+
+      const tx = await fundFlowController.updateVaultGroups()
+      await tx.wait()
+      txs.updateVaultGroups = tx.hash
+      log(
+        `Updated vault groups: group ${status.nextUnbondedVaultGroup} is now unbonded (${tx.hash})`
+      )
+    }
+
+    const state = await getVaultGroupState(fundFlowController)
+    const accounting = await getOperatorVaultGroupAccounting(operatorVCS, state)
+
+    if (accounting.vaultGroups.length != 0) {
+      const tx = await fundFlowController.updateOperatorVaultGroupAccounting(accounting.vaultGroups)
+      await tx.wait()
+      txs.updateOperatorVaultGroupAccounting = tx.hash
+      log(`Updated accounting for operator vault groups ${accounting.vaultGroups} (${tx.hash})`)
+    }
+
+    return txs
+  }
+
+  const schedule = async () => {
+    let delay = 60000
+    try {
+      await run()
+      const status = await getStatus()
+      log(`Next vault group update at ${new Date(status.nextUpdateTime * 1000).toISOString()}`)
+      delay = Math.min(Math.max((status.nextUpdateTime - status.timestamp) * 1000, 0), 3600000)
+    } catch (error: any) {
+      log('Error running vault group scheduler: ', await formatError(error, 'FundFlowController'))
+    }
+    if (timer) timer = setTimeout(schedule, delay)
+  }
+
+  return {
+    getStatus,
+    run,
+    start: () => {
+      if (timer) return
+      timer = setTimeout(schedule, 0)
+    },
+    stop: () => {
+      clearTimeout(timer)
+      timer = undefined
+    },
+  }
+}
@@ -0,0 +1,142 @@
+import { BlockTag } from 'ethers'
+import { VaultControllerStrategy } from '../../typechain-types'
+import { getImplementation } from './deployment-backfill'
+import { createSafeBatch, SafeBatch } from './multisig'
+
+export interface VaultState {
+  index: number
+  address: string
+  implementation?: string // current implementation of the vault proxy
+}
+
+export interface VaultUpgradeStatus {
+  vaultImplementation: string // implementation vaults should be upgraded to
+  vaults: VaultState[]
+  outdated: number[] // indexes of vaults not running vaultImplementation
+}
+
+export interface VaultUpgradeChunk {
+  vaults: number[]
+  data: string[]
+  gas: bigint // estimated gas of upgradeVaults for this chunk
+}
+
+/**
+ * Returns the vaults of a strategy whose implementation differs from vaultImplementation
+ * @dev works for any strategy that implements getVaults/vaultImplementation/upgradeVaults like
+ * VaultControllerStrategy and SequencerVCS
+ * @param strategy vault controller strategy
+ * @param blockTag block to read state at
+ * @returns upgrade status
+ */
+export const getVaultUpgradeStatus = async (
+  strategy: VaultControllerStrategy,
+  blockTag: BlockTag = 'latest'
+): Promise<VaultUpgradeStatus> => {
+  const provider = strategy.runner!.provider!
+  const [vaults, vaultImplementation] = await Promise.all([
+    strategy.getVaults({ blockTag }),
+    strategy.vaultImplementation({ blockTag }),
+  ])
+
+  const states = await Promise.all(
+    vaults.map(async (address, index) => ({
+      index,
+      address,
+      implementation: await getImplementation(provider, address, blockTag as string | number),
+    }))
+  )
+
+  return {
+    vaultImplementation,
+    vaults: states,
+    outdated: states
+      .filter((vault) => vault.implementation?.toLowerCase() != vaultImplementation.toLowerCase())
+      .map((vault) => vault.index),
+  }
+}
+
+/**
+ * Splits a list of vaults into chunks of upgradeVaults calls that each fit within a gas limit
+ * @dev the size of each chunk is extrapolated from the estimated cost of upgrading one and two
+ * vaults and reduced until the estimate for the whole chunk fits, estimates are sent from the
+ * strategy owner so the calls do not revert
+ * @param strategy vault controller strategy
+ * @param vaults indexes of vaults to upgrade
+ * @param maxGas max gas of a single upgradeVaults call
+ * @param data encoded call executed on every vault after its upgrade (empty for none)
+ * @returns list of chunks
+ */
+export const planVaultUpgrades = async (
+  strategy: VaultControllerStrategy,
+  vaults: number[],
+  maxGas: bigint,
+  data = '0x'
+): Promise<VaultUpgradeChunk[]> => {
+  const from = await strategy.owner()
+  const estimate = (indexes: number[]) =>
+    strategy.upgradeVaults.estimateGas(
+      indexes,
+      indexes.map(() => data),
+      { from }
+    )
+
+  const chunks: VaultUpgradeChunk[] = []
+  if (vaults.length == 0) return chunks
+
+  const single = await estimate(vaults.slice(0, 1))
+  if (single > maxGas) throw Error(`Upgrading a single vault requires ${single} gas`)
+
+  let perVault = vaults.length > 1 ? (await estimate(vaults.slice(0, 2))) - single : single
+  if (perVault <= 0n) perVault = single
+  const base = single - perVault
+
+  let start = 0
+  while (start < vaults.length) {
+    let size = Math.max(Number((maxGas - base) / perVault), 1)
+    size = Math.min(size, vaults.length - start)
+
+    let gas = await estimate(vaults.slice(start, start + size))
+    while (gas > maxGas && size > 1) {
+      size = Math.max(Math.floor((size * 9) / 10), 1)
+      gas = await estimate(vaults.slice(start, start + size))
+    }
+
+    const chunk = vaults.slice(start, start + size)
+    chunks.push({ vaults: chunk, data: chunk.map(() => data), gas })
+    start += size
+  }
+
+  return chunks
+}
+
+/**
+ * Builds one Safe batch for every chunk of vault upgrades
+ * @dev each chunk is a separate Safe transaction so every batch fits in a block
+ * @param strategy vault controller strategy
+ * @param name deployment name of strategy
+ * @param chunks list of chunks
+ * @param safe Safe address (default: getMultisigAddress())
+ * @returns list of batches
+ */
+export const buildVaultUpgradeBatches = async (
+  strategy: VaultControllerStrategy,
+  name: string,
+  chunks: VaultUpgradeChunk[],
+  safe?: string
+): Promise<SafeBatch[]> => {
+  const batches: SafeBatch[] = []
+
+  for (let i = 0; i < chunks.length; i++) {
+    const { vaults, data, gas } = chunks[i]
+    const batch = createSafeBatch(
+      `Upgrade ${name} vaults ${i + 1} of ${chunks.length}`,
+      `Upgrade vaults ${vaults.join(', ')} to vaultImplementation (~${gas} gas)`,
+      safe
+    )
+    await batch.add(strategy, 'upgradeVaults', [vaults, data])
+    batches.push(await batch.build())
+  }
+
+  return batches
+}
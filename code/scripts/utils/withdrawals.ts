@@ -0,0 +1,228 @@
+import { BlockTag, Provider } from 'ethers'
+import { artifacts, ethers } from 'hardhat'
+import { WithdrawalPool } from '../../typechain-types'
+
+export interface FinalizedWithdrawal {
+  withdrawalId: bigint
+  batchId: bigint // 0 for withdrawals that are only partially finalized
+  amount: bigint // exact amount paid out by withdraw
+}
+
+export interface WithdrawCall {
+  withdrawalIds: bigint[]
+  batchIds: bigint[]
+  amount: bigint // total paid out by this call
+}
+
+export interface BatchIdCutoffStatus {
+  withdrawalIdCutoff: bigint
+  withdrawalBatchIdCutoff: bigint
+  newWithdrawalIdCutoff: bigint // withdrawalIdCutoff after updateWithdrawalBatchIdCutoff
+  newWithdrawalBatchIdCutoff: bigint // withdrawalBatchIdCutoff after updateWithdrawalBatchIdCutoff
+  batchesSkipped: number // number of batches getBatchIds would no longer iterate over
+  shouldUpdate: boolean
+}
+
+// slots are cached since reading the build info parses the whole compiler output
+const arraySlots = new Map<string, bigint | undefined>()
+
+// returns the base slot of a WithdrawalPool storage array from the storage layout that the upgrades
+// plugin adds to the compiler output
+const getArraySlot = async (label: string) => {
+  if (arraySlots.has(label)) return arraySlots.get(label)
+
+  const source = 'contracts/core/priorityPool/WithdrawalPool.sol'
+  const buildInfo = await artifacts.getBuildInfo(`${source}:WithdrawalPool`)
+  const layout = (buildInfo?.output.contracts as any)?.[source]?.WithdrawalPool?.storageLayout
+  const variable = layout?.storage.find((v: any) => v.label == label)
+  const slot = variable ? BigInt(variable.slot) : undefined
+
+  arraySlots.set(label, slot)
+  return slot
+}
+
+/**
+ * Reads the withdrawal batches of a withdrawal pool from storage
+ * @dev withdrawalBatches has no getter, every batch is packed in a single slot
+ * (indexOfLastWithdrawal in the lower 128 bits, stakePerShares in the upper 128 bits)
+ * @param address withdrawal pool address
+ * @param blockTag block to read state at
+ * @param batchIds ids of batches to read (default: all batches)
+ * @param provider provider to read storage from
+ * @returns list of withdrawal batches or undefined if the storage layout is not available
+ */
+export const readWithdrawalBatches = async (
+  address: string,
+  blockTag: BlockTag,
+  batchIds?: number[],
+  provider: Provider = ethers.provider
+) => {
+  const slot = await getArraySlot('withdrawalBatches')
+  if (slot == undefined) return
+
+  const length = Number(await provider.getStorage(address, slot, blockTag))
+  const start = BigInt(ethers.keccak256(ethers.toBeHex(slot, 32)))
+  const mask = (1n << 128n) - 1n
+  const ids = batchIds ? batchIds.filter((id) => id < length) : [...Array(length).keys()]
+
+  const batches: { id: number; indexOfLastWithdrawal: string; stakePerShares: string }[] = []
+  for (let i = 0; i < ids.length; i += 100) {
+    const chunk = await Promise.all(
+      ids.slice(i, i + 100).map(async (id) => {
+        const word = BigInt(await provider.getStorage(address, start + BigInt(id), blockTag))
+        return {
+          id,
+          indexOfLastWithdrawal: (word & mask).toString(),
+          stakePerShares: (word >> 128n).toString(),
+        }
+      })
+    )
+    batches.push(...chunk)
+  }
+
+  return batches
+}
+
+/**
+ * Returns all withdrawals of an owner that can currently be withdrawn
+ * @dev batch ids are resolved with getBatchIds and payouts are computed the same way as
+ * WithdrawalPool.withdraw: withdrawals in a batch pay out their partially withdrawable amount plus
+ * their remaining shares at the batch's stake per share, withdrawals that are not in a batch yet only
+ * pay out their partially withdrawable amount
+ * @param pool withdrawal pool
+ * @param owner owner of withdrawals
+ * @param blockTag block to read state at
+ * @returns list of finalized withdrawals
+ */
+export const getFinalizedWithdrawals = async (
+  pool: WithdrawalPool,
+  owner: string,
+  blockTag: BlockTag = 'latest'
+): Promise<FinalizedWithdrawal[]> => {
+  const withdrawalIds = [...(await pool.getWithdrawalIdsByOwner(owner, { blockTag }))]
+  if (withdrawalIds.length == 0) return []
+
+  const [withdrawals, batchIds] = await Promise.all([
+    pool.getWithdrawals(withdrawalIds, { blockTag }),
+    pool.getBatchIds(withdrawalIds, { blockTag }),
+  ])
+  const batchesToRead = [...new Set(batchIds.filter((id) => id != 0n).map(Number))]
+  const batches = await readWithdrawalBatches(
+    pool.target as string,
+    blockTag,
+    batchesToRead,
+    pool.runner!.provider!
+  )
+  if (batchesToRead.length != 0 && !batches) throw Error('WithdrawalPool storage layout not found')
+  const stakePerShares = new Map(batches?.map((batch) => [batch.id, BigInt(batch.stakePerShares)]))
+
+  const finalized: FinalizedWithdrawal[] = []
+  for (let i = 0; i < withdrawalIds.length; i++) {
+    const { sharesRemaining, partiallyWithdrawableAmount } = withdrawals[i]
+    const batchId = batchIds[i]
+
+    if (batchId != 0n) {
+      const amount =
+        partiallyWithdrawableAmount +
+        (stakePerShares.get(Number(batchId))! * sharesRemaining) / 10n ** 18n
+      finalized.push({ withdrawalId: withdrawalIds[i], batchId, amount })
+    } else if (partiallyWithdrawableAmount != 0n) {
+      finalized.push({
+        withdrawalId: withdrawalIds[i],
+        batchId,
+        amount: partiallyWithdrawableAmount,
+      })
+    }
+  }
+
+  return finalized
+}
+
+/**
+ * Splits finalized withdrawals into WithdrawalPool.withdraw calls
+ * @param withdrawals finalized withdrawals
+ * @param maxWithdrawalsPerCall max number of withdrawals in a single call
+ * @returns list of calls
+ */
+export const buildWithdrawCalls = (
+  withdrawals: FinalizedWithdrawal[],
+  maxWithdrawalsPerCall = 50
+): WithdrawCall[] => {
+  const calls: WithdrawCall[] = []
+
+  for (let i = 0; i < withdrawals.length; i += maxWithdrawalsPerCall) {
+    const chunk = withdrawals.slice(i, i + maxWithdrawalsPerCall)
+    calls.push({
+      withdrawalIds: chunk.map((w) => w.withdrawalId),
+      batchIds: chunk.map((w) => w.batchId),
+      amount: chunk.reduce((sum, w) => sum + w.amount, 0n),
+    })
+  }
+
+  return calls
+}
+
+/**
+ * Returns the effect updateWithdrawalBatchIdCutoff would have if called now
+ * @dev getBatchIds (and every view built on it) iterates over all batches from
+ * withdrawalBatchIdCutoff, the update is worth calling once enough fully withdrawn batches would be
+ * skipped, mirrors the loops of updateWithdrawalBatchIdCutoff off-chain
+ * @param pool withdrawal pool
+ * @param minBatchesSkipped min number of skipped batches for the update to be worth calling
+ * @param blockTag block to read state at
+ * @returns cutoff status
+ */
+export const getBatchIdCutoffStatus = async (
+  pool: WithdrawalPool,
+  minBatchesSkipped = 10,
+  blockTag: BlockTag = 'latest'
+): Promise<BatchIdCutoffStatus> => {
+  const provider = pool.runner!.provider!
+  const address = pool.target as string
+  const slot = await getArraySlot('queuedWithdrawals')
+  if (slot == undefined) throw Error('WithdrawalPool storage layout not found')
+
+  const [withdrawalIdCutoff, withdrawalBatchIdCutoff, numWithdrawals] = await Promise.all([
+    pool.withdrawalIdCutoff({ blockTag }),
+    pool.withdrawalBatchIdCutoff({ blockTag }),
+    provider.getStorage(address, slot, blockTag).then((length) => BigInt(length)),
+  ])
+
+  // find the first withdrawal that has funds remaining
+  let newWithdrawalIdCutoff = withdrawalIdCutoff
+  search: for (let i = withdrawalIdCutoff; i < numWithdrawals; i += 100n) {
+    const size = numWithdrawals - i < 100n ? numWithdrawals - i : 100n
+    const ids = [...Array(Number(size)).keys()].map((j) => i + BigInt(j))
+    const withdrawals = await pool.getWithdrawals(ids, { blockTag })
+    for (let j = 0; j < ids.length; j++) {
+      newWithdrawalIdCutoff = ids[j]
+      if (
+        withdrawals[j].sharesRemaining != 0n ||
+        withdrawals[j].partiallyWithdrawableAmount != 0n
+      ) {
+        break search
+      }
+    }
+  }
+
+  // find the first batch that still contains withdrawals with funds remaining
+  const batches =
+    (await readWithdrawalBatches(address, blockTag, undefined, provider))?.slice(
+      Number(withdrawalBatchIdCutoff)
+    ) || []
+  let newWithdrawalBatchIdCutoff = withdrawalBatchIdCutoff
+  for (const batch of batches) {
+    newWithdrawalBatchIdCutoff = BigInt(batch.id)
+    if (BigInt(batch.indexOfLastWithdrawal) >= newWithdrawalIdCutoff) break
+  }
+
+  const batchesSkipped = Number(newWithdrawalBatchIdCutoff - withdrawalBatchIdCutoff)
+  return {
+    withdrawalIdCutoff,
+    withdrawalBatchIdCutoff,
+    newWithdrawalIdCutoff,
+    newWithdrawalBatchIdCutoff,
+    batchesSkipped,
+    shouldUpdate: batchesSkipped >= minBatchesSkipped,
+  }
+}
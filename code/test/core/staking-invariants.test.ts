@@ -0,0 +1,485 @@
+import { ethers } from 'hardhat'
+import { assert } from 'chai'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { toEther, deploy, deployUpgradeable, getAccounts, setupToken } from '../utils/helpers'
+import {
+  ERC677,
+  SDLPoolMock,
+  StakingPool,
+  PriorityPool,
+  StrategyMock,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { fuzz, FuzzAction, FuzzConfig, FuzzInvariant, shrinkSteps, runSteps } from '../utils/fuzz'
+import { buildDistributionFromPool, DistributionData } from '../../scripts/utils/distribution'
+import {
+  getDistributionProof,
+  getUnqueueArgs,
+  getWithdrawArgs,
+} from '../../scripts/utils/distribution-proofs'
+import { getFinalizedWithdrawals } from '../../scripts/utils/withdrawals'
+
+// max rounding error in shares that can accumulate over a sequence
+const dust = 1000n
+
+describe('StakingPool and PriorityPool invariants', () => {
+  async function deployFixture() {
+    const { accounts, signers } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await setupToken(token, accounts, true)
+
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [[accounts[6], 1000]],
+      toEther(10000),
+    ])) as StakingPool
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(3000),
+      toEther(0),
+    ])) as StrategyMock
+
+    const sdlPool = (await deploy('SDLPoolMock')) as SDLPoolMock
+
+    const pp = (await deployUpgradeable('PriorityPool', [
+      token.target,
+      stakingPool.target,
+      sdlPool.target,
+      toEther(100),
+      toEther(1000),
+    ])) as PriorityPool
+
+    const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+      token.target,
+      stakingPool.target,
+      pp.target,
+      toEther(10),
+      0,
+    ])) as WithdrawalPool
+
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(pp.target)
+    await stakingPool.setRebaseController(accounts[0])
+    await pp.setDistributionOracle(accounts[0])
+    await pp.setWithdrawalPool(withdrawalPool.target)
+    await sdlPool.setEffectiveBalance(accounts[2], toEther(100))
+    await sdlPool.setEffectiveBalance(accounts[4], toEther(300))
+
+    for (let i = 0; i < signers.length; i++) {
+      await token.connect(signers[i]).approve(pp.target, ethers.MaxUint256)
+      await token.connect(signers[i]).approve(stakingPool.target, ethers.MaxUint256)
+      await stakingPool.connect(signers[i]).approve(pp.target, ethers.MaxUint256)
+    }
+
+    await pp.deposit(toEther(1000), false, ['0x'])
+
+    // users start with staked tokens and a queued withdrawal so withdrawals can be queued and
+    // executed before deposits queue enough tokens to fill them
+    for (let i = 1; i <= 5; i++) {
+      await pp.connect(signers[i]).deposit(toEther(300), false, ['0x'])
+    }
+    await pp.connect(signers[1]).withdraw(toEther(100), 0, 0, [], false, true)
+
+    return { signers, accounts, token, stakingPool, strategy, pp, withdrawalPool }
+  }
+
+  type Context = Awaited<ReturnType<typeof deployFixture>> & {
+    users: number[] // indexes of accounts that interact with the pools
+    distribution?: DistributionData // latest distribution
+    sharesClaimed: Map<string, bigint> // shares claimed through claimLSDTokens by account
+  }
+
+  const setup = async (): Promise<Context> => ({
+    ...(await loadFixture(deployFixture)),
+    users: [1, 2, 3, 4, 5],
+    sharesClaimed: new Map(),
+  })
+
+  const getUser = (context: Context, param: number) => {
+    const index = context.users[param % context.users.length]
+    return { signer: context.signers[index], account: context.accounts[index] }
+  }
+
+  const getProof = (context: Context, account: string) =>
+    context.distribution
+      ? getDistributionProof(context.distribution, account)
+      : { account, amount: '0', sharesAmount: '0', merkleProof: [] }
+
+  // returns the cumulative amounts distributed to an account in the latest distribution
+  const getDistributed = (context: Context, account: string) => {
+    const entry = context.distribution?.data[ethers.getAddress(account)]
+    return { amount: BigInt(entry?.amount || 0), sharesAmount: BigInt(entry?.sharesAmount || 0) }
+  }
+
+  const actions: FuzzAction<Context>[] = [
+    {
+      name: 'deposit',
+      weight: 3,
+      generate: (random) => [random.int(5), random.int(2000), random.int(2)],
+      run: async (context, [user, amount, shouldQueue]) => {
+        const { signer } = getUser(context, user)
+        await context.pp.connect(signer).deposit(toEther(amount + 1), shouldQueue % 2 == 1, ['0x'])
+      },
+    },
+    {
+      name: 'withdraw',
+      weight: 2,
+      generate: (random) => [random.int(5), random.int(100), random.int(2), random.int(2)],
+      run: async (context, [user, percent, shouldUnqueue, shouldQueueWithdrawal]) => {
+        const { signer, account } = getUser(context, user)
+        const proof = getProof(context, account)
+        const balance =
+          (await context.stakingPool.balanceOf(account)) +
+          (await context.pp.getQueuedTokens(account, proof.amount))
+        const amount = (balance * BigInt((percent % 100) + 1)) / 100n
+        if (amount == 0n) return false
+
+        await context.pp
+          .connect(signer)
+          .withdraw(
+            ...getWithdrawArgs(
+              proof,
+              amount,
+              shouldUnqueue % 2 == 1,
+              shouldQueueWithdrawal % 2 == 1
+            )
+          )
+      },
+    },
+    {
+      name: 'unqueue',
+      generate: (random) => [random.int(5), random.int(100)],
+      run: async (context, [user, percent]) => {
+        const { signer, account } = getUser(context, user)
+        const proof = getProof(context, account)
+        const queued = await context.pp.getQueuedTokens(account, proof.amount)
+        const amount = (queued * BigInt((percent % 100) + 1)) / 100n
+        if (amount == 0n) return false
+
+        await context.pp.connect(signer).unqueueTokens(...getUnqueueArgs(proof, amount))
+      },
+    },
+    {
+      name: 'depositQueuedTokens',
+      generate: () => [],
+      run: async (context) => {
+        await context.pp.depositQueuedTokens(0, toEther(100000), ['0x'])
+      },
+    },
+    {
+      name: 'updateDistribution',
+      generate: () => [],
+      run: async (context) => {
+        await context.pp.pauseForUpdate()
+        const { distribution, amountDistributed, sharesAmountDistributed } =
+          await buildDistributionFromPool(context.pp, context.distribution)
+        await context.pp.updateDistribution(
+          distribution.merkleRoot,
+          ethers.encodeBytes32String('ipfs'),
+          amountDistributed,
+          sharesAmountDistributed
+        )
+        context.distribution = distribution
+      },
+    },
+    {
+      name: 'claimLSDTokens',
+      generate: (random) => [random.int(5)],
+      run: async (context, [user]) => {
+        const { signer, account } = getUser(context, user)
+        const proof = getProof(context, account)
+        if (proof.merkleProof.length == 0) return false
+
+        const owed = await context.stakingPool.getStakeByShares(
+          BigInt(proof.sharesAmount) - (context.sharesClaimed.get(account) || 0n)
+        )
+        const balance = await context.stakingPool.balanceOf(account)
+        await context.pp
+          .connect(signer)
+          .claimLSDTokens(proof.amount, proof.sharesAmount, proof.merkleProof)
+        context.sharesClaimed.set(account, BigInt(proof.sharesAmount))
+
+        const claimed = (await context.stakingPool.balanceOf(account)) - balance
+        assert.isTrue(claimed <= owed, `claimed ${claimed} but was owed ${owed}`)
+      },
+    },
+    {
+      name: 'updateStrategyRewards',
+      generate: (random) => [random.int(2), random.int(100)],
+      run: async (context, [isLoss, amount]) => {
+        const { token, strategy, stakingPool } = context
+        if (isLoss % 2 == 1) {
+          // losses are capped at 1% of the strategy's deposits
+          const deposits = await strategy.getTotalDeposits()
+          await strategy.simulateSlash((deposits * BigInt((amount % 10) + 1)) / 1000n)
+        } else {
+          await token.transfer(strategy.target, toEther(amount + 1))
+        }
+        await stakingPool.updateStrategyRewards([0], '0x')
+      },
+    },
+    {
+      name: 'donateTokens',
+      generate: (random) => [random.int(5), random.int(100)],
+      run: async (context, [user, amount]) => {
+        const { signer } = getUser(context, user)
+        await context.stakingPool.connect(signer).donateTokens(toEther(amount + 1))
+      },
+    },
+    {
+      name: 'executeQueuedWithdrawals',
+      generate: () => [],
+      run: async (context) => {
+        const [upkeepNeeded] = await context.withdrawalPool.checkUpkeep('0x')
+        if (!upkeepNeeded) return false
+
+        await context.withdrawalPool.performUpkeep(
+          ethers.AbiCoder.defaultAbiCoder().encode(['bytes[]'], [['0x']])
+        )
+      },
+    },
+    {
+      name: 'withdrawFinalized',
+      generate: (random) => [random.int(5)],
+      run: async (context, [user]) => {
+        const { signer, account } = getUser(context, user)
+        const finalized = await getFinalizedWithdrawals(context.withdrawalPool, account)
+        if (finalized.length == 0) return false
+
+        const owed = finalized.reduce((sum, withdrawal) => sum + withdrawal.amount, 0n)
+        const balance = await context.token.balanceOf(account)
+        await context.withdrawalPool.connect(signer).withdraw(
+          finalized.map((withdrawal) => withdrawal.withdrawalId),
+          finalized.map((withdrawal) => withdrawal.batchId)
+        )
+
+        const withdrawn = (await context.token.balanceOf(account)) - balance
+        assert.equal(withdrawn, owed, 'withdrawn amount does not match finalized withdrawals')
+      },
+    },
+  ]
+
+  const invariants: FuzzInvariant<Context>[] = [
+    {
+      name: 'shares match totalStaked',
+      check: async ({ accounts, stakingPool, pp, withdrawalPool }) => {
+        const feeReceivers = (await stakingPool.getFees()).map((fee) => fee.receiver)
+        const holders = new Set([
+          ethers.ZeroAddress,
+          stakingPool.target as string,
+          pp.target as string,
+          withdrawalPool.target as string,
+          ...feeReceivers,
+          ...accounts,
+        ])
+        const shares = await Promise.all([...holders].map((holder) => stakingPool.sharesOf(holder)))
+        const totalShares = await stakingPool.totalShares()
+        const totalStaked = await stakingPool.totalStaked()
+
+        assert.equal(
+          shares.reduce((sum, s) => sum + s, 0n),
+          totalShares,
+          'sum of shares != totalShares'
+        )
+        assert.isTrue(
+          (await stakingPool.getStakeByShares(totalShares)) <= totalStaked,
+          'stake of all shares exceeds totalStaked'
+        )
+      },
+    },
+    {
+      name: 'totalStaked matches deposits',
+      check: async ({ token, stakingPool, strategy }) => {
+        assert.equal(
+          await stakingPool.totalStaked(),
+          (await token.balanceOf(stakingPool.target)) + (await strategy.getTotalDeposits()),
+          'totalStaked != unused deposits + strategy deposits'
+        )
+      },
+    },
+    {
+      name: 'totalQueued matches queued tokens',
+      check: async (context) => {
+        const { token, pp } = context
+        const totalQueued = await pp.totalQueued()
+        const [depositsSinceLastUpdate] = await pp.getDepositsSinceLastUpdate()
+        const [accounts, , queuedBalances] = await pp.getAccountData()
+        const undistributed = accounts.reduce(
+          (sum, account, i) => sum + queuedBalances[i] - getDistributed(context, account).amount,
+          0n
+        )
+
+        assert.equal(await token.balanceOf(pp.target), totalQueued, 'token balance != totalQueued')
+        assert.equal(
+          undistributed,
+          totalQueued + depositsSinceLastUpdate,
+          'undistributed queued tokens != totalQueued + depositsSinceLastUpdate'
+        )
+      },
+    },
+    {
+      name: 'distributions are backed',
+      check: async (context) => {
+        const { stakingPool, pp } = context
+        const [, sharesSinceLastUpdate] = await pp.getDepositsSinceLastUpdate()
+        const unclaimed = Object.keys(context.distribution?.data || {}).reduce(
+          (sum, account) =>
+            sum +
+            getDistributed(context, account).sharesAmount -
+            (context.sharesClaimed.get(account) || 0n),
+          0n
+        )
+
+        assert.isTrue(
+          (await stakingPool.sharesOf(pp.target)) + dust >= sharesSinceLastUpdate + unclaimed,
+          'priority pool holds fewer shares than it owes'
+        )
+      },
+    },
+    {
+      name: 'finalized withdrawals are backed',
+      check: async (context) => {
+        const { token, withdrawalPool } = context
+        let owed = 0n
+        for (const user of context.users) {
+          const finalized = await getFinalizedWithdrawals(withdrawalPool, context.accounts[user])
+          owed += finalized.reduce((sum, withdrawal) => sum + withdrawal.amount, 0n)
+        }
+
+        assert.isTrue(
+          (await token.balanceOf(withdrawalPool.target)) >= owed,
+          'withdrawal pool holds fewer tokens than it owes'
+        )
+      },
+    },
+  ]
+
+  it('invariants should hold for random sequences', async function () {
+    // every sequence replays from a fixture so runs take longer than the default timeout
+    this.timeout(300000)
+    await fuzz({ setup, actions, invariants, runs: 5, steps: 40 })
+  })
+
+  it('failing sequences should shrink to minimal reproductions', async () => {
+    const config: FuzzConfig<{ values: number[] }> = {
+      setup: async () => ({ values: [] }),
+      actions: [
+        {
+          name: 'push',
+          generate: (random) => [random.int(100)],
+          run: async (context, [value]) => {
+            context.values.push(value)
+          },
+        },
+        {
+          name: 'pop',
+          generate: () => [],
+          run: async (context) => {
+            context.values.pop()
+          },
+        },
+      ],
+      invariants: [
+        {
+          name: 'values < 50',
+          check: async (context) => {
+            assert.isTrue(context.values.every((value) => value < 50))
+          },
+        },
+      ],
+    }
+    const steps = [
+      { action: 'push', params: [10] },
+      { action: 'pop', params: [] },
+      { action: 'push', params: [20] },
+      { action: 'push', params: [87] },
+      { action: 'pop', params: [] },
+      { action: 'push', params: [99] },
+    ]
+
+    const failure = await runSteps(config, steps)
+    assert.equal(failure?.label, 'values < 50')
+    assert.equal(failure?.stepIndex, 3)
+
+    const shrunk = await shrinkSteps(config, steps, failure!)
+    assert.deepEqual(shrunk.steps, [{ action: 'push', params: [50] }])
+    assert.equal(shrunk.failure.stepIndex, 0)
+
+    try {
+      await fuzz({ ...config, runs: 3, steps: 20 })
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.include(error.message, `values < 50 failed after 1 steps`)
+      assert.include(error.message, `FUZZ_REPLAY='[{"action":"push","params":[50]}]'`)
+    }
+  })
+
+  it('actions that never execute should fail the run', async () => {
+    const config: FuzzConfig<{ values: number[] }> = {
+      setup: async () => ({ values: [] }),
+      actions: [
+        {
+          name: 'push',
+          generate: (random) => [random.int(100)],
+          run: async (context, [value]) => {
+            context.values.push(value)
+          },
+        },
+        {
+          name: 'pop',
+          generate: () => [],
+          run: async (context) => {
+            if (context.values.length == 0) return false
+            context.values.pop()
+          },
+        },
+        {
+          name: 'clear',
+          generate: () => [],
+          run: async () => {
+            throw Error('reverted')
+          },
+        },
+      ],
+      invariants: [],
+    }
+
+    const executed = new Map<string, number>()
+    await runSteps(
+      config,
+      [
+        { action: 'pop', params: [] },
+        { action: 'push', params: [1] },
+        { action: 'clear', params: [] },
+        { action: 'pop', params: [] },
+      ],
+      executed
+    )
+    assert.deepEqual(
+      [...executed],
+      [
+        ['push', 1],
+        ['pop', 1],
+      ]
+    )
+
+    try {
+      await fuzz({ ...config, runs: 2, steps: 10 })
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.match(
+        error.message,
+        /^clear never executed in \d+ runs \(seed \d+\), every step reverted or was skipped$/
+      )
+    }
+  })
+})
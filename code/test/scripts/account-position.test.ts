@@ -0,0 +1,304 @@
+import { assert } from 'chai'
+import os from 'os'
+import path from 'path'
+import fse from 'fs-extra'
+import { ethers } from 'hardhat'
+import { toEther, deploy, deployUpgradeable, getAccounts } from '../utils/helpers'
+import { ERC677, SDLPoolSecondary, StakingPool, StrategyMock } from '../../typechain-types'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { Deployments, getContract, getDeployments } from '../../scripts/utils/deployment'
+import { executeManifests } from '../../scripts/utils/manifest'
+import { createLocalIPFS } from '../../scripts/utils/ipfs'
+import { getAccountPosition, PositionChain } from '../../scripts/utils/account-position'
+import { setupTestEnv } from '../../scripts/test/setup-test-env'
+import { testContractsManifest } from '../../scripts/test/deploy/manifests/test-contracts'
+import { coreManifest } from '../../scripts/test/deploy/manifests/core'
+import { linkStakingManifest } from '../../scripts/test/deploy/manifests/link-staking'
+import { metisStakingManifest } from '../../scripts/test/deploy/manifests/metis-staking'
+
+const deploymentFiles = ['deployments/hardhat.json', 'deployments/hardhat.manifest.json']
+
+describe('AccountPosition', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(1000),
+      toEther(10),
+    ])) as StrategyMock
+
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(accounts[0])
+    await stakingPool.setRebaseController(accounts[0])
+    await token.approve(stakingPool.target, ethers.MaxUint256)
+    // the first deposit locks dead shares so it is made by another account
+    await stakingPool.deposit(accounts[0], toEther(10), ['0x'])
+    await stakingPool.deposit(accounts[1], toEther(100), ['0x'])
+
+    const deployments: Deployments = {
+      LINK_StakingPool: {
+        address: stakingPool.target as string,
+        artifact: 'StakingPool',
+        history: [],
+      },
+    }
+    const chain: PositionChain = { network: 'localhost', provider: ethers.provider, deployments }
+
+    return { accounts, stakingPool, chain }
+  }
+
+  it('should return staking pool positions with their source', async () => {
+    const { accounts, stakingPool, chain } = await loadFixture(deployFixture)
+    const blockNumber = await ethers.provider.getBlockNumber()
+
+    const position = await getAccountPosition(accounts[1], [chain])
+    assert.equal(position.account, accounts[1])
+    assert.deepEqual(position.stakingPools.LINK_StakingPool.balance, {
+      value: toEther(100),
+      source: {
+        network: 'localhost',
+        contract: 'LINK_StakingPool',
+        address: stakingPool.target as string,
+        call: 'balanceOf',
+        blockNumber,
+      },
+    })
+    assert.equal(
+      position.stakingPools.LINK_StakingPool.shares.value,
+      await stakingPool.sharesOf(accounts[1])
+    )
+    assert.deepEqual(position.priorityPools, {})
+    assert.deepEqual(position.sdlPools, {})
+  })
+
+  it('should read every chain at its own block and key sections by network', async () => {
+    const { accounts, chain } = await loadFixture(deployFixture)
+    const blockNumber = await ethers.provider.getBlockNumber()
+
+    const position = await getAccountPosition(accounts[1], [
+      { ...chain, network: 'primary', blockTag: blockNumber - 1 },
+      { ...chain, network: 'secondary' },
+    ])
+
+    assert.deepEqual(Object.keys(position.stakingPools), [
+      'primary:LINK_StakingPool',
+      'secondary:LINK_StakingPool',
+    ])
+    assert.equal(position.stakingPools['primary:LINK_StakingPool'].balance.value, 0n)
+    assert.equal(
+      position.stakingPools['primary:LINK_StakingPool'].balance.source.blockNumber,
+      blockNumber - 1
+    )
+    assert.equal(position.stakingPools['secondary:LINK_StakingPool'].balance.value, toEther(100))
+  })
+
+  describe('test environment', () => {
+    let ipfsDir: string
+
+    before(() => {
+      deploymentFiles.forEach((file) => fse.removeSync(file))
+      ipfsDir = fse.mkdtempSync(path.join(os.tmpdir(), 'account-position-'))
+    })
+    after(() => {
+      deploymentFiles.forEach((file) => fse.removeSync(file))
+      fse.removeSync(ipfsDir)
+    })
+
+    // deploys and populates the test environment and a secondary SDL pool where account 5 has a lock
+    async function deployEnvFixture() {
+      const { signers, accounts } = await getAccounts()
+
+      await executeManifests(
+        [testContractsManifest, coreManifest, linkStakingManifest, metisStakingManifest],
+        false,
+        () => {}
+      )
+      await setupTestEnv(createLocalIPFS(ipfsDir))
+
+      const sdlToken = (await getContract('SDLToken')) as ERC677
+      const sdlPoolSecondary = (await deployUpgradeable('SDLPoolSecondary', [
+        'Reward Escrowed SDL',
+        'reSDL',
+        sdlToken.target,
+        getDeployments().LinearBoostController.address,
+        5,
+      ])) as SDLPoolSecondary
+      await sdlPoolSecondary.setCCIPController(accounts[0])
+      await sdlToken
+        .connect(signers[5])
+        .transferAndCall(
+          sdlPoolSecondary.target,
+          toEther(100),
+          ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'uint64'], [0, 0])
+        )
+      await sdlPoolSecondary.handleOutgoingUpdate()
+      await sdlPoolSecondary.handleIncomingUpdate(1)
+      await sdlPoolSecondary.connect(signers[5]).executeQueuedOperations([])
+
+      const chains: PositionChain[] = [
+        {
+          network: 'primary',
+          provider: ethers.provider,
+          deployments: getDeployments(),
+          ipfs: createLocalIPFS(ipfsDir),
+        },
+        {
+          network: 'secondary',
+          provider: ethers.provider,
+          deployments: {
+            SDLPool: {
+              address: sdlPoolSecondary.target as string,
+              artifact: 'SDLPoolSecondary',
+              history: [],
+            },
+          },
+        },
+      ]
+
+      return { accounts, chains }
+    }
+
+    it('should return priority pool, withdrawal pool, SDL pool and rewards positions with their source', async () => {
+      const { accounts, ...fixture } = await loadFixture(deployEnvFixture)
+      // chains are read at a fixed block since the network also mines blocks on an interval
+      const blockNumber = await ethers.provider.getBlockNumber()
+      const chains = fixture.chains.map((chain) => ({ ...chain, blockTag: blockNumber }))
+      const deployments = chains[0].deployments
+      const source = (network: string, contract: string, address: string, call: string) => ({
+        network,
+        contract,
+        address,
+        call,
+        blockNumber,
+      })
+
+      let position = await getAccountPosition(accounts[4], chains)
+      assert.deepEqual(position.priorityPools['primary:LINK_PriorityPool'].queuedTokens, {
+        value: toEther(100),
+        source: source(
+          'primary',
+          'LINK_PriorityPool',
+          deployments.LINK_PriorityPool.address,
+          'getQueuedTokens'
+        ),
+      })
+      assert.deepEqual(position.withdrawalPools['primary:LINK_WithdrawalPool'].withdrawals, {
+        value: [
+          {
+            withdrawalId: 1n,
+            batchId: 0n,
+            sharesRemaining: toEther(100),
+            partiallyWithdrawableAmount: toEther(100),
+            claimable: toEther(100),
+          },
+        ],
+        source: source(
+          'primary',
+          'LINK_WithdrawalPool',
+          deployments.LINK_WithdrawalPool.address,
+          'getWithdrawals'
+        ),
+      })
+      assert.deepEqual(
+        position.withdrawalPools['primary:LINK_WithdrawalPool'].finalizedWithdrawalIds.value,
+        [1n]
+      )
+      assert.equal(
+        position.withdrawalPools['primary:LINK_WithdrawalPool'].totalClaimable.value,
+        toEther(100)
+      )
+      assert.deepEqual(
+        position.withdrawalPools['primary:METIS_WithdrawalPool'].withdrawals.value,
+        []
+      )
+
+      position = await getAccountPosition(accounts[5], chains)
+      const primary = position.sdlPools['primary:SDLPool']
+      assert.equal(primary.chain, 'primary')
+      assert.deepEqual(
+        primary.locks.value.map((lock) => [lock.lockId, lock.amount]),
+        [[1n, toEther(2000)]]
+      )
+      assert.deepEqual(
+        primary.effectiveBalance.source,
+        source('primary', 'SDLPool', deployments.SDLPool.address, 'effectiveBalanceOf')
+      )
+
+      const secondary = position.sdlPools['secondary:SDLPool']
+      assert.equal(secondary.chain, 'secondary')
+      assert.deepEqual(
+        secondary.locks.value.map((lock) => [lock.lockId, lock.amount]),
+        [[1n, toEther(100)]]
+      )
+      assert.deepEqual(
+        secondary.locks.source,
+        source('secondary', 'SDLPool', chains[1].deployments.SDLPool.address, 'getLocks')
+      )
+      assert.equal(secondary.effectiveBalance.value, toEther(100))
+
+      assert.deepEqual(position.rewards['primary:SDLPool'].value[0], {
+        token: deployments.LINK_StakingPool.address,
+        tokenName: 'LINK_StakingPool',
+        amount: toEther(80),
+      })
+      assert.deepEqual(
+        position.rewards['primary:SDLPool'].source,
+        source('primary', 'SDLPool', deployments.SDLPool.address, 'withdrawableRewards')
+      )
+      assert.deepEqual(
+        position.rewards['primary:DelegatorPool'].value.map((reward) => reward.tokenName),
+        ['LINK_StakingPool']
+      )
+      assert.deepEqual(position.rewards['secondary:SDLPool'].value, [])
+    })
+
+    it('should resolve the latest distribution for accounts that have claimed', async () => {
+      const { accounts, chains } = await loadFixture(deployEnvFixture)
+      const blockNumber = await ethers.provider.getBlockNumber()
+
+      let position = await getAccountPosition(accounts[5], chains)
+      assert.equal(
+        position.priorityPools['primary:LINK_PriorityPool'].queuedTokens.value,
+        toEther(120)
+      )
+      assert.equal(position.priorityPools['primary:LINK_PriorityPool'].lsdTokens.value, 0n)
+      assert.equal(
+        position.priorityPools['primary:METIS_PriorityPool'].lsdTokens.value,
+        toEther(80) - 1n
+      )
+
+      // amounts are unavailable when the latest distribution is not in the store
+      const emptyDir = fse.mkdtempSync(path.join(os.tmpdir(), 'account-position-'))
+      position = await getAccountPosition(accounts[5], [
+        { ...chains[0], ipfs: createLocalIPFS(emptyDir), blockTag: blockNumber },
+      ])
+      fse.removeSync(emptyDir)
+      assert.deepEqual(position.priorityPools.LINK_PriorityPool.queuedTokens, {
+        value: undefined,
+        source: {
+          network: 'primary',
+          contract: 'LINK_PriorityPool',
+          address: chains[0].deployments.LINK_PriorityPool.address,
+          call: 'getQueuedTokens',
+          blockNumber,
+        },
+      })
+      assert.equal(position.priorityPools.LINK_PriorityPool.lsdTokens.value, undefined)
+      assert.equal(position.stakingPools.LINK_StakingPool.balance.value, toEther(80))
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { assert } from 'chai'
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { toEther, deploy, deployUpgradeable, getAccounts } from '../utils/helpers'
+import { ERC677, StakingPool } from '../../typechain-types'
+import { encodeCall, SafeBatch } from '../../scripts/utils/multisig'
+import { simulateBatch } from '../../scripts/utils/batch-simulation'
+
+describe('BatchSimulation', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+    const safe = ethers.Wallet.createRandom().address
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+    await stakingPool.transferOwnership(safe)
+
+    const contracts = {
+      [(stakingPool.target as string).toLowerCase()]: {
+        name: 'LINK_StakingPool',
+        contractName: 'StakingPool',
+        address: stakingPool.target as string,
+        iface: stakingPool.interface,
+      },
+    }
+
+    return { accounts, safe, stakingPool, contracts }
+  }
+
+  it('should report events and state diffs of successful batches', async () => {
+    const { accounts, safe, stakingPool, contracts } = await loadFixture(deployFixture)
+
+    const batch: SafeBatch = {
+      safe,
+      chainId: 1n,
+      name: 'test',
+      description: '',
+      calls: [await encodeCall(stakingPool, 'addFee', [accounts[1], 100])],
+    }
+    const report = await simulateBatch(batch, contracts)
+
+    assert.equal(report.success, true)
+    assert.equal(report.calls[0].status, 'success')
+    assert.equal(report.calls[0].method, `addFee(${accounts[1]}, 100)`)
+    assert.deepEqual(report.diffs, [
+      {
+        contract: 'LINK_StakingPool',
+        address: stakingPool.target as string,
+        getter: 'getFees()',
+        before: [],
+        after: [{ receiver: accounts[1], basisPoints: '100' }],
+      },
+    ])
+  })
+
+  it('should decode reverts and roll back failed batches', async () => {
+    const { accounts, safe, stakingPool, contracts } = await loadFixture(deployFixture)
+
+    const batch: SafeBatch = {
+      safe,
+      chainId: 1n,
+      name: 'test',
+      description: '',
+      calls: [
+        await encodeCall(stakingPool, 'addFee', [accounts[1], 100]),
+        await encodeCall(stakingPool, 'deposit', [accounts[1], toEther(1), []]),
+        await encodeCall(stakingPool, 'addFee', [accounts[2], 100]),
+      ],
+    }
+    const report = await simulateBatch(batch, contracts)
+
+    assert.equal(report.success, false)
+    assert.deepEqual(
+      report.calls.map((call) => call.status),
+      ['success', 'reverted', 'skipped']
+    )
+    assert.equal(report.calls[1].error, 'StakingPool.SenderNotAuthorized()')
+    assert.deepEqual(report.diffs, [])
+    assert.equal((await stakingPool.getFees()).length, 0)
+  })
+})
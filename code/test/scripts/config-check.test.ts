@@ -0,0 +1,69 @@
+import { assert } from 'chai'
+import { toEther, deploy, deployUpgradeable, getAccounts } from '../utils/helpers'
+import { ERC677, StakingPool } from '../../typechain-types'
+import { checkConfig, defineConfig, normalizeValue } from '../../scripts/utils/config-check'
+import { account, ref } from '../../scripts/utils/manifest'
+import { Deployments } from '../../scripts/utils/deployment'
+
+describe('ConfigCheck', () => {
+  it('normalizeValue should normalize addresses, numbers and tuples', async () => {
+    const { accounts } = await getAccounts()
+
+    assert.equal(normalizeValue(accounts[1]), normalizeValue(accounts[1].toLowerCase()))
+    assert.equal(normalizeValue(300), normalizeValue(300n))
+    assert.equal(normalizeValue([[accounts[1], 300n]]), `[["${accounts[1].toLowerCase()}","300"]]`)
+    assert.notEqual(normalizeValue(true), normalizeValue('true'))
+  })
+
+  it('checkConfig should report drift from declared config', async () => {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [[accounts[2], 300]],
+      toEther(10000),
+    ])) as StakingPool
+    await stakingPool.setPriorityPool(accounts[3])
+
+    const deployments = {
+      StakingPool: { address: stakingPool.target, artifact: 'StakingPool', history: [] },
+      PriorityPool: { address: accounts[3], artifact: 'PriorityPool', history: [] },
+    } as any as Deployments
+
+    const diffs = await checkConfig(
+      [
+        defineConfig<StakingPool>('StakingPool', {
+          owner: account(0),
+          priorityPool: ref('PriorityPool'),
+          rebaseController: ref('RebaseController'),
+          getFees: [[accounts[2], 400]],
+          unusedDepositLimit: toEther(10000),
+        }),
+        defineConfig<StakingPool>('LINK_StakingPool', { owner: account(0) }),
+      ],
+      deployments
+    )
+
+    assert.deepEqual(
+      diffs.map((diff) => [diff.contract, diff.getter, diff.match]),
+      [
+        ['StakingPool', 'owner', true],
+        ['StakingPool', 'priorityPool', true],
+        ['StakingPool', 'rebaseController', false],
+        ['StakingPool', 'getFees', false],
+        ['StakingPool', 'unusedDepositLimit', true],
+        ['LINK_StakingPool', 'owner', false],
+      ]
+    )
+    assert.equal(diffs[2].expected, '"<RebaseController not deployed>"')
+    assert.equal(diffs[3].actual, `[["${accounts[2].toLowerCase()}","300"]]`)
+    assert.equal(diffs[5].actual, 'not deployed')
+  })
+})
@@ -0,0 +1,183 @@
+import { assert } from 'chai'
+import os from 'os'
+import path from 'path'
+import fse from 'fs-extra'
+import { ethers } from 'hardhat'
+import { toEther, deploy, deployUpgradeable, getAccounts, setupToken } from '../utils/helpers'
+import {
+  ERC677,
+  PriorityPool,
+  SDLPoolMock,
+  StakingPool,
+  StrategyMock,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { Deployments } from '../../scripts/utils/deployment'
+import { readDashboard, renderDashboard } from '../../scripts/utils/dashboard'
+import { buildDistributionFromPool } from '../../scripts/utils/distribution'
+import { createLocalIPFS } from '../../scripts/utils/ipfs'
+
+describe('Dashboard', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(1000),
+      toEther(10),
+    ])) as StrategyMock
+
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(accounts[0])
+    await stakingPool.setRebaseController(accounts[0])
+    await token.approve(stakingPool.target, ethers.MaxUint256)
+    await stakingPool.deposit(accounts[0], toEther(100), ['0x'])
+
+    const deployments: Deployments = {
+      LINK_StakingPool: {
+        address: stakingPool.target as string,
+        artifact: 'StakingPool',
+        history: [],
+      },
+      LINK_StrategyMock: {
+        address: strategy.target as string,
+        artifact: 'StrategyMock',
+        history: [],
+      },
+    }
+
+    return { token, stakingPool, strategy, deployments }
+  }
+
+  it('readDashboard should read share price and strategy limits', async () => {
+    const { token, strategy, deployments } = await loadFixture(deployFixture)
+
+    let state = await readDashboard(deployments, 'localhost')
+    assert.equal(state.stakingPools.length, 1)
+    assert.equal(state.stakingPools[0].symbol, 'stLINK')
+    assert.equal(state.stakingPools[0].sharePrice, toEther(1))
+    assert.equal(state.stakingPools[0].totalStaked, toEther(100))
+    assert.deepEqual(state.stakingPools[0].strategies, [
+      {
+        name: 'LINK_StrategyMock',
+        address: strategy.target as string,
+        depositChange: 0n,
+        maxDeposits: toEther(1000),
+        minDeposits: toEther(10),
+      },
+    ])
+    assert.deepEqual(state.priorityPools, [])
+
+    await token.transfer(strategy.target, toEther(100))
+    state = await readDashboard(deployments, 'localhost')
+    assert.equal(state.stakingPools[0].strategies[0].depositChange, toEther(100))
+  })
+
+  it('renderDashboard should escape values', async () => {
+    const { deployments } = await loadFixture(deployFixture)
+    const state = await readDashboard(deployments, '<script>')
+    const html = renderDashboard(state)
+
+    assert.include(html, '&lt;script&gt; at block')
+    assert.include(html, '1.0 stLINK')
+    assert.notInclude(html, 'Priority pools')
+  })
+
+  it('readDashboard should count accounts with undistributed queued tokens', async () => {
+    const { signers, accounts } = await getAccounts()
+    const dir = fse.mkdtempSync(path.join(os.tmpdir(), 'dashboard-'))
+    const ipfs = createLocalIPFS(dir)
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await setupToken(token, accounts)
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(1000),
+      toEther(10),
+    ])) as StrategyMock
+    const sdlPool = (await deploy('SDLPoolMock')) as SDLPoolMock
+    const pp = (await deployUpgradeable('PriorityPool', [
+      token.target,
+      stakingPool.target,
+      sdlPool.target,
+      toEther(100),
+      toEther(1000),
+    ])) as PriorityPool
+    const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+      token.target,
+      stakingPool.target,
+      pp.target,
+      toEther(10),
+      0,
+    ])) as WithdrawalPool
+
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(pp.target)
+    await stakingPool.setRebaseController(accounts[0])
+    await pp.setDistributionOracle(accounts[0])
+    await pp.setWithdrawalPool(withdrawalPool.target)
+    for (let i = 0; i < 4; i++) {
+      await token.connect(signers[i]).approve(pp.target, ethers.MaxUint256)
+    }
+    await pp.deposit(1000, false, ['0x'])
+    await pp.connect(signers[1]).deposit(toEther(500), true, ['0x'])
+    await pp.connect(signers[2]).deposit(toEther(1000), true, ['0x'])
+    await pp.connect(signers[3]).deposit(toEther(300), true, ['0x'])
+
+    const deployments: Deployments = {
+      LINK_PriorityPool: { address: pp.target as string, artifact: 'PriorityPool', history: [] },
+    }
+    const read = async () =>
+      (await readDashboard(deployments, 'localhost', 'latest', ipfs)).priorityPools[0]
+
+    // address(0) and accounts whose tokens were all deposited are not counted
+    assert.equal((await read()).queuedAccounts, 2)
+
+    // tokens deposited since the last distribution are still counted as queued
+    await strategy.setMaxDeposits(toEther(1600))
+    await pp.depositQueuedTokens(toEther(100), toEther(1000), ['0x'])
+    assert.equal((await read()).queuedAccounts, 2)
+
+    await pp.pauseForUpdate()
+    const { distribution, amountDistributed, sharesAmountDistributed } =
+      await buildDistributionFromPool(pp)
+    const { hash } = ipfs.publishJSON(distribution)
+    await pp.updateDistribution(
+      distribution.merkleRoot,
+      hash,
+      amountDistributed,
+      sharesAmountDistributed
+    )
+    assert.equal((await read()).queuedAccounts, 1)
+
+    // queued accounts can not be counted without the latest distribution
+    fse.removeSync(dir)
+    assert.equal((await read()).queuedAccounts, undefined)
+  })
+})
@@ -0,0 +1,79 @@
+import { assert } from 'chai'
+import {
+  getDeploymentAt,
+  getImplementationAt,
+  migrateDeployments,
+} from '../../scripts/utils/deployment'
+
+const proxy = '0x0000000000000000000000000000000000000001'
+const token = '0x0000000000000000000000000000000000000002'
+const impl1 = '0x0000000000000000000000000000000000000011'
+const impl2 = '0x0000000000000000000000000000000000000012'
+
+describe('Deployment', () => {
+  it('migrateDeployments should convert deployments without loss', async () => {
+    const legacy = {
+      LINKToken: { address: token, artifact: 'ERC677' },
+      LINK_StakingPool: { address: proxy, artifact: 'StakingPool' },
+    }
+    const deployments = migrateDeployments(legacy, [{ address: proxy, txHash: '0x01' }])
+
+    assert.deepEqual(deployments.LINKToken, {
+      address: token,
+      artifact: 'ERC677',
+      history: [{ type: 'deploy', address: token, artifact: 'ERC677' }],
+    })
+    assert.deepEqual(deployments.LINK_StakingPool, {
+      address: proxy,
+      artifact: 'StakingPool',
+      kind: 'proxy',
+      txHash: '0x01',
+      history: [{ type: 'deploy', address: proxy, artifact: 'StakingPool', txHash: '0x01' }],
+    })
+    assert.deepEqual(migrateDeployments(deployments), deployments)
+  })
+
+  it('getDeploymentAt/getImplementationAt should return state at a block', async () => {
+    const deployments = migrateDeployments({
+      LINK_StakingPool: {
+        address: proxy,
+        artifact: 'StakingPool',
+        kind: 'proxy',
+        implementation: impl2,
+        history: [
+          {
+            type: 'deploy',
+            address: proxy,
+            artifact: 'StakingPool',
+            implementation: impl1,
+            blockNumber: 100,
+          },
+          {
+            type: 'upgrade',
+            address: proxy,
+            artifact: 'StakingPool',
+            implementation: impl2,
+            blockNumber: 200,
+          },
+        ],
+      },
+      LINKToken: { address: token, artifact: 'ERC677' },
+    })
+
+    assert.equal(getDeploymentAt('LINK_StakingPool', 99, deployments), undefined)
+    assert.equal(getImplementationAt('LINK_StakingPool', 100, deployments), impl1)
+    assert.equal(getImplementationAt('LINK_StakingPool', 199, deployments), impl1)
+    assert.equal(getImplementationAt('LINK_StakingPool', 200, deployments), impl2)
+    assert.equal(getDeploymentAt('LINK_StakingPool', 500, deployments)?.type, 'upgrade')
+
+    try {
+      getDeploymentAt('LINKToken', 100, deployments)
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(
+        error.message,
+        'History of LINKToken is incomplete, backfill it from chain first'
+      )
+    }
+  })
+})
@@ -0,0 +1,287 @@
+import { assert, expect } from 'chai'
+import {
+  toEther,
+  deploy,
+  fromEther,
+  deployUpgradeable,
+  getAccounts,
+  setupToken,
+} from '../utils/helpers'
+import {
+  ERC677,
+  SDLPoolMock,
+  StakingPool,
+  PriorityPool,
+  StrategyMock,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  buildDistribution,
+  buildDistributionFromPool,
+  getDistributionTree,
+} from '../../scripts/utils/distribution'
+import { AddressInfo } from 'net'
+import {
+  createProofServer,
+  createProofService,
+  getClaimArgs,
+  getUnqueueArgs,
+} from '../../scripts/utils/distribution-proofs'
+
+describe('Distribution', () => {
+  async function deployFixture() {
+    const { accounts, signers } = await getAccounts()
+    const adrs: any = {}
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    adrs.token = await token.getAddress()
+    await setupToken(token, accounts, true)
+
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      adrs.token,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+    adrs.stakingPool = await stakingPool.getAddress()
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      adrs.token,
+      adrs.stakingPool,
+      toEther(1000),
+      toEther(100),
+    ])) as StrategyMock
+    adrs.strategy = await strategy.getAddress()
+
+    const sdlPool = (await deploy('SDLPoolMock')) as SDLPoolMock
+    adrs.sdlPool = await sdlPool.getAddress()
+
+    const pp = (await deployUpgradeable('PriorityPool', [
+      adrs.token,
+      adrs.stakingPool,
+      adrs.sdlPool,
+      toEther(100),
+      toEther(1000),
+    ])) as PriorityPool
+    adrs.pp = await pp.getAddress()
+
+    const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+      adrs.token,
+      adrs.stakingPool,
+      adrs.pp,
+      toEther(10),
+      0,
+    ])) as WithdrawalPool
+
+    await stakingPool.addStrategy(adrs.strategy)
+    await stakingPool.setPriorityPool(adrs.pp)
+    await stakingPool.setRebaseController(accounts[0])
+    await pp.setDistributionOracle(accounts[0])
+    await pp.setWithdrawalPool(await withdrawalPool.getAddress())
+
+    for (let i = 0; i < signers.length; i++) {
+      await token.connect(signers[i]).approve(adrs.pp, ethers.MaxUint256)
+    }
+
+    await pp.deposit(1000, false, ['0x'])
+
+    return { signers, accounts, adrs, token, stakingPool, strategy, sdlPool, pp }
+  }
+
+  it('buildDistribution should prioritize reSDL holders', async () => {
+    const accounts = [
+      ethers.ZeroAddress,
+      '0x11187eff852069a33d102476b2E8A9cc9167dAde',
+      '0x2228bdc8584595DfefA75597C96B13c00a2D88C2',
+      '0x33375555d73620FefD26cD083c425759a259FA18',
+    ]
+
+    const first = buildDistribution({
+      accounts,
+      reSDLBalances: [0n, toEther(100), toEther(300), 0n],
+      queuedBalances: [0n, toEther(500), toEther(100), toEther(500)],
+      amountToDistribute: toEther(400),
+      sharesToDistribute: toEther(200),
+    })
+
+    assert.equal(fromEther(first.amountDistributed), 400)
+    assert.equal(fromEther(first.sharesAmountDistributed), 200)
+    assert.deepEqual(
+      Object.values(first.distribution.data).map((d) => [
+        fromEther(BigInt(d.amount)),
+        fromEther(BigInt(d.sharesAmount)),
+      ]),
+      [
+        [0, 0],
+        [300, 150],
+        [100, 50],
+        [0, 0],
+      ]
+    )
+
+    const second = buildDistribution({
+      accounts,
+      reSDLBalances: [0n, toEther(100), toEther(300), 0n],
+      queuedBalances: [0n, toEther(500), toEther(100), toEther(500)],
+      amountToDistribute: toEther(1000),
+      sharesToDistribute: toEther(1000),
+      previous: first.distribution,
+    })
+
+    assert.equal(fromEther(second.amountDistributed), 700)
+    assert.deepEqual(
+      Object.values(second.distribution.data).map((d) => fromEther(BigInt(d.amount))),
+      [0, 500, 100, 500]
+    )
+    assert.equal(second.distribution.merkleRoot, getDistributionTree(second.distribution.data).root)
+  })
+
+  it('buildDistributionFromPool should produce a claimable tree', async () => {
+    const { signers, accounts, pp, sdlPool, strategy, stakingPool } = await loadFixture(
+      deployFixture
+    )
+
+    await pp.deposit(toEther(2000), true, ['0x'])
+    await pp.connect(signers[1]).deposit(toEther(500), true, ['0x'])
+    await pp.connect(signers[2]).deposit(toEther(500), true, ['0x'])
+    await sdlPool.setEffectiveBalance(accounts[2], toEther(100))
+    await strategy.setMaxDeposits(toEther(1500))
+    await pp.depositQueuedTokens(toEther(100), toEther(1000), ['0x'])
+
+    await pp.pauseForUpdate()
+    const { distribution, amountDistributed, sharesAmountDistributed } =
+      await buildDistributionFromPool(pp)
+    await pp.updateDistribution(
+      distribution.merkleRoot,
+      ethers.encodeBytes32String('ipfs'),
+      amountDistributed,
+      sharesAmountDistributed
+    )
+
+    assert.equal(fromEther(amountDistributed), 500)
+    assert.equal(fromEther(BigInt(distribution.data[accounts[2]].amount)), 500)
+
+    const tree = getDistributionTree(distribution.data)
+    const entry = distribution.data[accounts[2]]
+    await pp
+      .connect(signers[2])
+      .claimLSDTokens(
+        entry.amount,
+        entry.sharesAmount,
+        tree.getProof([accounts[2], entry.amount, entry.sharesAmount])
+      )
+    assert.equal(fromEther(await stakingPool.balanceOf(accounts[2])), 500)
+
+    const [depositsSinceLastUpdate] = await pp.getDepositsSinceLastUpdate()
+    assert.equal(fromEther(depositsSinceLastUpdate), 0)
+    await expect(
+      pp.claimLSDTokens(0, 0, tree.getProof([accounts[0], '0', '0']))
+    ).to.be.revertedWithCustomError(pp, 'NothingToClaim()')
+  })
+
+  it('createProofService should serve verified proofs', async () => {
+    const { signers, accounts, pp, strategy, token } = await loadFixture(deployFixture)
+
+    await pp.deposit(toEther(2000), true, ['0x'])
+    await pp.connect(signers[1]).deposit(toEther(500), true, ['0x'])
+    await strategy.setMaxDeposits(toEther(1500))
+    await pp.depositQueuedTokens(toEther(100), toEther(1000), ['0x'])
+
+    await pp.pauseForUpdate()
+    const { distribution, amountDistributed, sharesAmountDistributed } =
+      await buildDistributionFromPool(pp)
+
+    const proofService = createProofService(pp, distribution)
+    let error: any
+    try {
+      await proofService.getProof(accounts[0])
+    } catch (e) {
+      error = e
+    }
+    assert.match(error?.message, /Distribution is stale/)
+
+    await pp.updateDistribution(
+      distribution.merkleRoot,
+      ethers.encodeBytes32String('ipfs'),
+      amountDistributed,
+      sharesAmountDistributed
+    )
+
+    assert.deepEqual(
+      (await proofService.getUnclaimedAccounts()).map((a) => [a.account, fromEther(a.lsdTokens)]),
+      [[accounts[0], 500]]
+    )
+
+    const proof0 = await proofService.getProof(accounts[0])
+    await pp.claimLSDTokens(...getClaimArgs(proof0))
+    assert.deepEqual(await proofService.getUnclaimedAccounts(), [])
+
+    const proof1 = await proofService.getProof(accounts[1])
+    const balance = await token.balanceOf(accounts[1])
+    await pp.connect(signers[1]).unqueueTokens(...getUnqueueArgs(proof1, toEther(100)))
+    assert.equal(fromEther((await token.balanceOf(accounts[1])) - balance), 100)
+
+    const proof2 = await proofService.getProof(accounts[2])
+    assert.deepEqual(proof2.merkleProof, [])
+    assert.equal(proof2.amount, '0')
+  })
+
+  it('createProofServer should serve proofs over HTTP', async () => {
+    const { signers, accounts, pp, strategy } = await loadFixture(deployFixture)
+
+    await pp.deposit(toEther(2000), true, ['0x'])
+    await pp.connect(signers[1]).deposit(toEther(500), true, ['0x'])
+    await strategy.setMaxDeposits(toEther(1500))
+    await pp.depositQueuedTokens(toEther(100), toEther(1000), ['0x'])
+
+    await pp.pauseForUpdate()
+    const { distribution, amountDistributed, sharesAmountDistributed } =
+      await buildDistributionFromPool(pp)
+    await pp.updateDistribution(
+      distribution.merkleRoot,
+      ethers.encodeBytes32String('ipfs'),
+      amountDistributed,
+      sharesAmountDistributed
+    )
+
+    const proofService = createProofService(pp, distribution)
+    const server = createProofServer(proofService)
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    const url = `http://localhost:${(server.address() as AddressInfo).port}`
+
+    try {
+      let res = await fetch(`${url}/proof/${accounts[0]}`)
+      assert.equal(res.status, 200)
+      assert.deepEqual(await res.json(), await proofService.getProof(accounts[0]))
+
+      res = await fetch(`${url}/unclaimed`)
+      assert.equal(res.status, 200)
+      assert.deepEqual(await res.json(), [
+        {
+          account: accounts[0],
+          sharesAmount: distribution.data[accounts[0]].sharesAmount,
+          lsdTokens: toEther(500).toString(),
+        },
+      ])
+
+      res = await fetch(`${url}/proof/0x01`)
+      assert.equal(res.status, 400)
+      assert.deepEqual(await res.json(), { error: 'Invalid address' })
+
+      for (const path of ['/', '/proof', `/proof/${accounts[0]}/extra`, '/unknown']) {
+        res = await fetch(`${url}${path}`)
+        assert.equal(res.status, 404, path)
+        assert.deepEqual(await res.json(), { error: 'Not found' })
+      }
+    } finally {
+      server.close()
+    }
+  })
+})
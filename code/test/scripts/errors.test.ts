@@ -0,0 +1,84 @@
+import { assert } from 'chai'
+import { ethers } from 'hardhat'
+import { toEther, deploy, deployUpgradeable, getAccounts } from '../utils/helpers'
+import { ERC677, StakingPool } from '../../typechain-types'
+import { createErrorDecoder, getErrorDecoder } from '../../scripts/utils/errors'
+
+describe('Errors', () => {
+  it('createErrorDecoder should decode custom and builtin errors', async () => {
+    const decoder = createErrorDecoder([
+      {
+        contractName: 'A',
+        sourceName: 'contracts/A.sol',
+        abi: ['error InvalidValue(uint256 value)'],
+      },
+      {
+        contractName: 'B',
+        sourceName: 'contracts/B.sol',
+        abi: ['error InvalidValue(uint256 value)'],
+      },
+      { contractName: 'C', sourceName: 'contracts/C.sol', abi: ['error OnlyC(address account)'] },
+    ])
+    const iface = new ethers.Interface([
+      'error InvalidValue(uint256 value)',
+      'error OnlyC(address)',
+    ])
+    const coder = ethers.AbiCoder.defaultAbiCoder()
+
+    const invalidValue = iface.encodeErrorResult('InvalidValue', [5])
+    assert.equal(decoder.format(invalidValue), 'A|B.InvalidValue(5)')
+    assert.equal(decoder.format(invalidValue, 'B'), 'B.InvalidValue(5)')
+    assert.equal(decoder.format(invalidValue, 'contracts/B.sol:B'), 'B.InvalidValue(5)')
+    assert.deepEqual(decoder.decode(invalidValue, 'B')?.contracts, ['B', 'A'])
+    assert.equal(
+      decoder.format(iface.encodeErrorResult('OnlyC', [ethers.ZeroAddress])),
+      `C.OnlyC(${ethers.ZeroAddress})`
+    )
+
+    assert.equal(
+      decoder.format(ethers.concat(['0x08c379a0', coder.encode(['string'], ['not allowed'])])),
+      'Error(not allowed)'
+    )
+    assert.equal(
+      decoder.format(ethers.concat(['0x4e487b71', coder.encode(['uint256'], [0x11])])),
+      'Panic(arithmetic overflow or underflow)'
+    )
+    assert.equal(decoder.format('0x12345678'), 'unknown error 0x12345678')
+    assert.equal(decoder.format('0x'), 'reverted without data')
+  })
+
+  it('getErrorDecoder should decode errors thrown by protocol contracts', async () => {
+    const { accounts } = await getAccounts()
+    const decoder = await getErrorDecoder()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+
+    try {
+      await stakingPool.deposit(accounts[0], toEther(1), [])
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(decoder.formatError(error, 'StakingPool'), 'StakingPool.SenderNotAuthorized()')
+    }
+
+    const priorityPool = await ethers.getContractFactory('PriorityPool')
+    assert.equal(
+      decoder.format(
+        priorityPool.interface.encodeErrorResult('InsufficientDepositRoom'),
+        'PriorityPool'
+      ),
+      'PriorityPool.InsufficientDepositRoom()'
+    )
+    assert.equal(decoder.formatError(Error('timeout')), 'timeout')
+  })
+})
@@ -0,0 +1,273 @@
+import { assert } from 'chai'
+import os from 'os'
+import path from 'path'
+import fse from 'fs-extra'
+import { EventEmitter } from 'events'
+import { ethers } from 'hardhat'
+import { toEther, deploy, getAccounts } from '../utils/helpers'
+import {
+  CCIPOffRampMock,
+  ERC677,
+  PriorityPool,
+  Router,
+  SDLPoolCCIPControllerPrimary,
+  SDLPoolPrimary,
+} from '../../typechain-types'
+import { CreateLockEvent } from '../../typechain-types/contracts/core/sdlPool/base/SDLPool'
+import { loadFixture, mine } from '@nomicfoundation/hardhat-network-helpers'
+import { getContract, getDeployments, updateDeployments } from '../../scripts/utils/deployment'
+import { executeManifests } from '../../scripts/utils/manifest'
+import { createLocalIPFS } from '../../scripts/utils/ipfs'
+import { createIndexer, getIndexedSources } from '../../scripts/utils/indexer'
+import { setupTestEnv } from '../../scripts/test/setup-test-env'
+import { testContractsManifest } from '../../scripts/test/deploy/manifests/test-contracts'
+import { coreManifest } from '../../scripts/test/deploy/manifests/core'
+import { linkStakingManifest } from '../../scripts/test/deploy/manifests/link-staking'
+import { metisStakingManifest } from '../../scripts/test/deploy/manifests/metis-staking'
+
+const deploymentFiles = ['deployments/hardhat.json', 'deployments/hardhat.manifest.json']
+
+describe('Indexer', () => {
+  let ipfsDir: string
+
+  before(() => {
+    deploymentFiles.forEach((file) => fse.removeSync(file))
+    ipfsDir = fse.mkdtempSync(path.join(os.tmpdir(), 'indexer-'))
+  })
+  after(() => {
+    deploymentFiles.forEach((file) => fse.removeSync(file))
+    fse.removeSync(ipfsDir)
+  })
+
+  // deploys and populates the test environment, the environment has no CCIP controller so one is
+  // deployed for the primary SDL pool that receives an update from and responds to a secondary chain
+  async function deployFixture() {
+    const { signers, accounts } = await getAccounts()
+
+    await executeManifests(
+      [testContractsManifest, coreManifest, linkStakingManifest, metisStakingManifest],
+      false,
+      () => {}
+    )
+    await setupTestEnv(createLocalIPFS(ipfsDir))
+
+    const linkToken = (await getContract('LINKToken')) as ERC677
+    const sdlToken = (await getContract('SDLToken')) as ERC677
+    const sdlPool = (await getContract('SDLPool')) as SDLPoolPrimary
+
+    const armProxy = await deploy('CCIPArmProxyMock')
+    const router = (await deploy('Router', [accounts[0], armProxy.target])) as Router
+    const onRamp = await deploy('CCIPOnRampMock', [[], [], linkToken.target])
+    const offRamp = (await deploy('CCIPOffRampMock', [router.target, [], []])) as CCIPOffRampMock
+    await router.applyRampUpdates(
+      [{ destChainSelector: 77, onRamp: onRamp.target }],
+      [],
+      [{ sourceChainSelector: 77, offRamp: offRamp.target }]
+    )
+
+    const controller = (await deploy('SDLPoolCCIPControllerPrimary', [
+      router.target,
+      linkToken.target,
+      sdlToken.target,
+      sdlPool.target,
+      toEther(10),
+      accounts[0],
+    ])) as SDLPoolCCIPControllerPrimary
+    await linkToken.transfer(controller.target, toEther(100))
+    await sdlPool.setCCIPController(controller.target)
+    await controller.addWhitelistedChain(77, accounts[4])
+    updateDeployments(
+      { SDLPoolCCIPController: controller.target as string },
+      { SDLPoolCCIPController: 'SDLPoolCCIPControllerPrimary' }
+    )
+
+    await offRamp
+      .connect(signers[4])
+      .executeSingleMessage(
+        ethers.encodeBytes32String('messageId'),
+        77,
+        ethers.AbiCoder.defaultAbiCoder().encode(['uint256', 'int256'], [0, 0]),
+        controller.target,
+        []
+      )
+    await controller.executeQueuedUpdates([1])
+
+    const deployments = getDeployments()
+    return { signers, accounts, linkToken, sources: await getIndexedSources(deployments) }
+  }
+
+  it('getIndexedSources should only include indexed events', async () => {
+    const { sources } = await loadFixture(deployFixture)
+
+    assert.deepEqual(sources.map((source) => source.name).sort(), [
+      'LINK_PriorityPool',
+      'LINK_StakingPool',
+      'LINK_WithdrawalPool',
+      'METIS_PriorityPool',
+      'METIS_StakingPool',
+      'METIS_WithdrawalPool',
+      'SDLPool',
+      'SDLPoolCCIPController',
+    ])
+
+    const stakingPool = sources.find((source) => source.name == 'LINK_StakingPool')!
+    assert.deepEqual([...stakingPool.events.values()].map((fragment) => fragment.name).sort(), [
+      'Burn',
+      'DonateTokens',
+      'UpdateStrategyRewards',
+    ])
+  })
+
+  it('should index the test environment and answer typed queries', async () => {
+    const { accounts, sources } = await loadFixture(deployFixture)
+    const indexer = createIndexer({ file: ':memory:', provider: ethers.provider, sources })
+
+    const result = await indexer.sync()
+    assert.isAbove(result.events, 0)
+    assert.equal(indexer.getCursor(), await ethers.provider.getBlockNumber())
+
+    // removing strategies in the environment also updates rewards
+    assert.deepEqual(
+      indexer.getStrategyRewards().map((event) => event.contract),
+      [
+        'LINK_StakingPool',
+        'LINK_StakingPool',
+        'LINK_StakingPool',
+        'LINK_StakingPool',
+        'METIS_StakingPool',
+        'METIS_StakingPool',
+      ]
+    )
+    assert.deepEqual(indexer.getBurnsAndDonations(), [])
+
+    assert.deepEqual(
+      indexer
+        .getDeposits(accounts[4])
+        .map((event) => [event.contract, event.args.poolAmount, event.args.queueAmount]),
+      [
+        ['LINK_PriorityPool', toEther(400), toEther(100)],
+        ['METIS_PriorityPool', toEther(400), toEther(100)],
+      ]
+    )
+
+    const exits = [accounts[4], accounts[5], accounts[8]].map((account) =>
+      indexer.getPriorityPoolExits(account).map((event) => [event.contract, event.event])
+    )
+    assert.deepEqual(exits, [
+      [['LINK_PriorityPool', 'Withdraw']],
+      [['LINK_PriorityPool', 'ClaimLSDTokens']],
+      [['LINK_PriorityPool', 'UnqueueTokens']],
+    ])
+    assert.equal(indexer.getPriorityPoolExits(accounts[4])[0].args.amount, toEther(500))
+    assert.equal(indexer.getPriorityPoolExits(accounts[8])[0].args.amount, toEther(1000))
+
+    const distributions = indexer.getDistributions()
+    assert.deepEqual(
+      distributions.map((event) => event.contract),
+      ['LINK_PriorityPool', 'METIS_PriorityPool']
+    )
+    const linkPriorityPool = (await getContract('LINK_PriorityPool')) as PriorityPool
+    assert.equal(distributions[0].args.merkleRoot, await linkPriorityPool.merkleRoot())
+
+    assert.deepEqual(
+      indexer.getQueuedWithdrawals(accounts[4]).map((event) => [event.contract, event.args.amount]),
+      [['LINK_WithdrawalPool', toEther(300)]]
+    )
+    assert.deepEqual(indexer.getQueuedWithdrawals(accounts[5]), [])
+    assert.deepEqual(
+      indexer.getFinalizedWithdrawals().map((event) => [event.contract, event.args.amount]),
+      [['LINK_WithdrawalPool', toEther(100)]]
+    )
+
+    const lockEvents = indexer.getLockEvents({ account: accounts[5] })
+    assert.deepEqual(
+      lockEvents.map((event) => event.event),
+      ['CreateLock', 'Transfer']
+    )
+    assert.equal((lockEvents[0].args as CreateLockEvent.OutputObject).lockId, 1n)
+
+    const lockIdEvents = indexer.getLockEvents({ lockId: 2 })
+    assert.deepEqual(
+      lockIdEvents.map((event) => event.event),
+      ['CreateLock', 'Transfer']
+    )
+    assert.equal((lockIdEvents[0].args as CreateLockEvent.OutputObject).owner, accounts[6])
+    assert.deepEqual(indexer.getLockEvents({ account: accounts[5], lockId: 2 }), [])
+
+    assert.deepEqual(
+      indexer.getCCIPMessages().map((event) => [event.contract, event.event]),
+      [
+        ['SDLPoolCCIPController', 'MessageReceived'],
+        ['SDLPoolCCIPController', 'MessageSent'],
+      ]
+    )
+
+    assert.equal((await indexer.sync()).events, 0)
+    indexer.close()
+  })
+
+  it('should only roll back events after a reorg', async () => {
+    const { signers, accounts, linkToken, sources } = await loadFixture(deployFixture)
+    const indexer = createIndexer({ file: ':memory:', provider: ethers.provider, sources })
+    const deposit = (amount: bigint) =>
+      linkToken
+        .connect(signers[7])
+        .transferAndCall(
+          getDeployments().LINK_PriorityPool.address,
+          amount,
+          ethers.AbiCoder.defaultAbiCoder().encode(['bool', 'bytes[]'], [true, ['0x']])
+        )
+    const getDeposits = () =>
+      indexer
+        .getDeposits(accounts[7])
+        .map((event) => event.args.poolAmount + event.args.queueAmount)
+
+    const snapshot = await ethers.provider.send('evm_snapshot', [])
+    await deposit(toEther(10))
+    await mine(2)
+    const head = await ethers.provider.getBlockNumber()
+    await indexer.sync()
+    assert.deepEqual(getDeposits(), [toEther(100), toEther(10)])
+
+    // syncing to a block that was already indexed is not a reorg
+    let result = await indexer.sync(head - 5)
+    assert.equal(result.reorgedFrom, undefined)
+    assert.equal(result.events, 0)
+    assert.equal(indexer.getCursor(), head)
+    assert.deepEqual(getDeposits(), [toEther(100), toEther(10)])
+
+    await ethers.provider.send('evm_revert', [snapshot])
+    await mine(2)
+    await deposit(toEther(20))
+    await mine(1)
+
+    result = await indexer.sync()
+    assert.isDefined(result.reorgedFrom)
+    assert.deepEqual(getDeposits(), [toEther(100), toEther(20)])
+    indexer.close()
+  })
+
+  it('follow should log failed syncs without an error handler', async () => {
+    const provider: any = new EventEmitter()
+    provider.getNetwork = async () => {
+      throw Error('Network unavailable')
+    }
+    const indexer = createIndexer({ file: ':memory:', provider, sources: [] })
+
+    const errors: string[] = []
+    const consoleError = console.error
+    console.error = (message: string) => errors.push(message)
+    try {
+      const stop = indexer.follow()
+      provider.emit('block', 1)
+      await new Promise((resolve) => setImmediate(resolve))
+      stop()
+    } finally {
+      console.error = consoleError
+    }
+
+    assert.deepEqual(errors, ['Sync failed: Network unavailable'])
+    assert.equal(provider.listenerCount('block'), 0)
+    indexer.close()
+  })
+})
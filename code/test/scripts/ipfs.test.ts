@@ -0,0 +1,44 @@
+import { assert } from 'chai'
+import os from 'os'
+import path from 'path'
+import fse from 'fs-extra'
+import { bytes32ToCID, cidToBytes32, createLocalIPFS, getCIDv0 } from '../../scripts/utils/ipfs'
+
+describe('IPFS', () => {
+  it('getCIDv0 should match ipfs add', async () => {
+    assert.equal(getCIDv0(''), 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH')
+    assert.equal(getCIDv0('hello world\n'), 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o')
+    // 15MiB of zeros (60 chunks), from the interface-ipfs-core add tests run against go-ipfs
+    assert.equal(
+      getCIDv0(new Uint8Array(15 * 1024 * 1024)),
+      'QmcKEs7mbxbGPPc2zo77E6CPwgaSbY4SmD2MFh16AqaR9e'
+    )
+  })
+
+  it('cidToBytes32 and bytes32ToCID should work correctly', async () => {
+    const cid = 'QmV1N49KT7at9LpNxyyPnCNBLEztMFHvLXoHpdPRoUzGgz'
+    const hash = '0x6310f1189600f807fac771d10706b6665628b99797054447f58f4c8a05971b83'
+
+    assert.equal(cidToBytes32(cid), hash)
+    assert.equal(bytes32ToCID(hash), cid)
+  })
+
+  it('createLocalIPFS should publish and resolve content', async () => {
+    const dir = fse.mkdtempSync(path.join(os.tmpdir(), 'ipfs-'))
+    const ipfs = createLocalIPFS(dir)
+    const data = { merkleRoot: '0x00', data: {} }
+
+    const { cid, hash } = ipfs.publishJSON(data)
+
+    assert.equal(cid, getCIDv0(JSON.stringify(data)))
+    assert.equal(hash, cidToBytes32(cid))
+    assert.deepEqual(ipfs.resolveJSON(cid), data)
+    assert.deepEqual(ipfs.resolveJSON(hash), data)
+    assert.isFalse(ipfs.has(getCIDv0('other')))
+
+    fse.outputFileSync(path.join(dir, cid), 'tampered')
+    assert.throws(() => ipfs.resolve(cid), /Content does not match CID/)
+
+    fse.removeSync(dir)
+  })
+})
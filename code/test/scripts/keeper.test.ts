@@ -0,0 +1,254 @@
+import { assert } from 'chai'
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  toEther,
+  deploy,
+  deployUpgradeable,
+  getAccounts,
+  setupToken,
+  fromEther,
+} from '../utils/helpers'
+import {
+  ERC677,
+  LSTMock,
+  LSTRewardsSplitterController,
+  PriorityPool,
+  RebaseController,
+  SDLPoolMock,
+  StakingPool,
+  StrategyMock,
+  WithdrawalPool,
+} from '../../typechain-types'
+import { createKeeper, getKeeperTargets, KeeperTarget } from '../../scripts/utils/keeper'
+
+describe('Keeper', () => {
+  async function deployFixture() {
+    const { accounts, signers } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await setupToken(token, accounts)
+
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(1000),
+      toEther(0),
+    ])) as StrategyMock
+
+    const sdlPool = (await deploy('SDLPoolMock')) as SDLPoolMock
+
+    const priorityPool = (await deployUpgradeable('PriorityPool', [
+      token.target,
+      stakingPool.target,
+      sdlPool.target,
+      toEther(100),
+      toEther(1000),
+    ])) as PriorityPool
+
+    const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+      token.target,
+      stakingPool.target,
+      priorityPool.target,
+      toEther(10),
+      0,
+    ])) as WithdrawalPool
+
+    // the keeper (accounts[0]) is not the rebase bot so rebase controller upkeeps fail simulation
+    const rebaseController = (await deploy('RebaseController', [
+      stakingPool.target,
+      priorityPool.target,
+      accounts[0],
+      accounts[0],
+      accounts[1],
+      1000,
+    ])) as RebaseController
+
+    const lst = (await deploy('LSTMock', ['Staked Token', 'stTKN', 100000000])) as LSTMock
+    await setupToken(lst, accounts)
+    const splitterController = (await deploy('LSTRewardsSplitterController', [
+      lst.target,
+      toEther(100),
+    ])) as LSTRewardsSplitterController
+    await splitterController.addSplitter(accounts[0], [
+      { receiver: accounts[5], basisPoints: 1000 },
+    ])
+    const splitter = await splitterController.splitters(accounts[0])
+
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(priorityPool.target)
+    await stakingPool.setRebaseController(accounts[0])
+    await priorityPool.setWithdrawalPool(withdrawalPool.target)
+    await token.approve(priorityPool.target, ethers.MaxUint256)
+    await stakingPool.approve(priorityPool.target, ethers.MaxUint256)
+
+    const deployments = {
+      LINK_StakingPool: { address: stakingPool.target as string, artifact: 'StakingPool' },
+      LINK_PriorityPool: { address: priorityPool.target as string, artifact: 'PriorityPool' },
+      LINK_WithdrawalPool: { address: withdrawalPool.target as string, artifact: 'WithdrawalPool' },
+      LINK_RebaseController: {
+        address: rebaseController.target as string,
+        artifact: 'RebaseController',
+      },
+      LINK_LSTRewardsSplitterController: {
+        address: splitterController.target as string,
+        artifact: 'LSTRewardsSplitterController',
+      },
+    }
+    const targets = await getKeeperTargets(deployments, signers[0])
+    const getTarget = (name: string) =>
+      targets.find((target) => target.name == name) as KeeperTarget
+
+    return {
+      signers,
+      accounts,
+      token,
+      lst,
+      stakingPool,
+      strategy,
+      priorityPool,
+      withdrawalPool,
+      splitterController,
+      splitter,
+      targets,
+      getTarget,
+    }
+  }
+
+  it('getKeeperTargets should return targets and splitters', async () => {
+    const { signers, accounts, splitter, targets } = await loadFixture(deployFixture)
+
+    assert.deepEqual(
+      targets.map((target) => [target.name, target.artifact]),
+      [
+        ['LINK_PriorityPool', 'PriorityPool'],
+        ['LINK_WithdrawalPool', 'WithdrawalPool'],
+        ['LINK_RebaseController', 'RebaseController'],
+        ['LINK_LSTRewardsSplitterController', 'LSTRewardsSplitterController'],
+        [`LINK_LSTRewardsSplitterController_${accounts[0]}`, 'LSTRewardsSplitter'],
+      ]
+    )
+    assert.equal(targets[4].address, splitter)
+
+    const configured = await getKeeperTargets(
+      {
+        LINK_LSTRewardsSplitterController: {
+          address: targets[3].address,
+          artifact: 'LSTRewardsSplitterController',
+        },
+      },
+      signers[0],
+      {
+        defaults: { interval: 1000 },
+        targets: {
+          LINK_LSTRewardsSplitterController: { gasLimit: 100000 },
+          [`LINK_LSTRewardsSplitterController_${accounts[0]}`]: { enabled: false },
+        },
+      }
+    )
+    assert.deepEqual(
+      configured.map((target) => [target.name, target.interval, Number(target.gasLimit)]),
+      [['LINK_LSTRewardsSplitterController', 1000, 100000]]
+    )
+  })
+
+  it('runUpkeep should return idle when no upkeep is needed', async () => {
+    const { signers, targets } = await loadFixture(deployFixture)
+
+    const keeper = createKeeper(signers[0], targets)
+    for (const target of targets) {
+      assert.deepEqual(await keeper.runUpkeep(target), { status: 'idle' }, target.name)
+    }
+  })
+
+  it('runUpkeep should deposit queued tokens for the priority pool', async () => {
+    const { signers, strategy, priorityPool, getTarget } = await loadFixture(deployFixture)
+
+    await priorityPool.deposit(toEther(1500), true, ['0x'])
+    await strategy.setMaxDeposits(toEther(2000))
+    assert.equal(fromEther(await priorityPool.totalQueued()), 500)
+
+    const target = getTarget('LINK_PriorityPool')
+
+    const dryRun = await createKeeper(signers[0], [target], true).runUpkeep(target)
+    assert.equal(dryRun.status, 'dry-run')
+    assert.equal(
+      (dryRun as any).performData,
+      ethers.AbiCoder.defaultAbiCoder().encode(['bytes[]'], [['0x']])
+    )
+    assert.equal(fromEther(await priorityPool.totalQueued()), 500)
+
+    const result = await createKeeper(signers[0], [target]).runUpkeep(target)
+    assert.equal(result.status, 'performed')
+    assert.equal(fromEther(await priorityPool.totalQueued()), 0)
+    assert.equal(fromEther(await strategy.getTotalDeposits()), 1500)
+  })
+
+  it('runUpkeep should execute queued withdrawals for the withdrawal pool', async () => {
+    const { signers, stakingPool, priorityPool, withdrawalPool, getTarget } = await loadFixture(
+      deployFixture
+    )
+
+    await priorityPool.deposit(toEther(1000), false, ['0x'])
+    await priorityPool.withdraw(toEther(300), 0, 0, [], false, true)
+    assert.equal(fromEther(await withdrawalPool.getTotalQueuedWithdrawals()), 300)
+
+    const target = getTarget('LINK_WithdrawalPool')
+    const result = await createKeeper(signers[0], [target]).runUpkeep(target)
+
+    assert.equal(result.status, 'performed')
+    assert.equal(fromEther(await withdrawalPool.getTotalQueuedWithdrawals()), 0)
+    assert.equal(fromEther(await stakingPool.totalStaked()), 700)
+  })
+
+  it('runUpkeep should not submit upkeeps that fail simulation or exceed the gas limit', async () => {
+    const { signers, strategy, lst, priorityPool, splitterController, splitter, getTarget } =
+      await loadFixture(deployFixture)
+
+    await priorityPool.deposit(toEther(1000), false, ['0x'])
+    await strategy.simulateSlash(toEther(10))
+    const result = await createKeeper(signers[0], []).runUpkeep(getTarget('LINK_RebaseController'))
+    assert.equal(result.status, 'simulation-failed')
+    assert.include((result as any).error, 'SenderNotAuthorized')
+
+    await lst.transferAndCall(splitterController.target, toEther(100), '0x')
+    await lst.transfer(splitter, toEther(100))
+
+    const target = { ...getTarget('LINK_LSTRewardsSplitterController'), gasLimit: 1000n }
+    assert.equal(
+      (await createKeeper(signers[0], [target]).runUpkeep(target)).status,
+      'gas-limit-exceeded'
+    )
+  })
+
+  it('runUpkeep should perform upkeep for splitters', async () => {
+    const { signers, accounts, lst, splitterController, splitter, getTarget } = await loadFixture(
+      deployFixture
+    )
+
+    await lst.transferAndCall(splitterController.target, toEther(100), '0x')
+    await lst.transfer(splitter, toEther(100))
+
+    const target = getTarget(`LINK_LSTRewardsSplitterController_${accounts[0]}`)
+    const keeper = createKeeper(signers[0], [target])
+
+    assert.equal((await keeper.runUpkeep(target)).status, 'performed')
+    assert.equal(fromEther(await lst.balanceOf(accounts[5])), 10)
+    assert.deepEqual(await keeper.runUpkeep(target), { status: 'idle' })
+    assert.deepEqual(await keeper.runUpkeep(getTarget('LINK_LSTRewardsSplitterController')), {
+      status: 'idle',
+    })
+  })
+})
@@ -0,0 +1,235 @@
+import { assert } from 'chai'
+import fse from 'fs-extra'
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { getAccounts, fromEther, toEther } from '../utils/helpers'
+import { ERC677, StakingPool } from '../../typechain-types'
+import { getContract, getDeployments } from '../../scripts/utils/deployment'
+import {
+  account,
+  executeManifests,
+  getStepName,
+  Manifest,
+  ref,
+  resolveManifests,
+} from '../../scripts/utils/manifest'
+import { testContractsManifest } from '../../scripts/test/deploy/manifests/test-contracts'
+import { coreManifest } from '../../scripts/test/deploy/manifests/core'
+import { linkStakingManifest } from '../../scripts/test/deploy/manifests/link-staking'
+import { metisStakingManifest } from '../../scripts/test/deploy/manifests/metis-staking'
+
+const deploymentFiles = ['deployments/hardhat.json', 'deployments/hardhat.manifest.json']
+
+const tokenArtifact = 'contracts/core/tokens/base/ERC677.sol:ERC677'
+
+const getManifest = (transferAmount = toEther(100)): Manifest => ({
+  contracts: [
+    {
+      name: 'TEST_StrategyMock',
+      artifact: 'StrategyMock',
+      type: 'upgradeable',
+      args: [ref('TEST_Token'), ref('TEST_StakingPool'), toEther(1000), toEther(0)],
+    },
+    {
+      name: 'TEST_StakingPool',
+      artifact: 'StakingPool',
+      type: 'upgradeable',
+      args: [ref('TEST_Token'), 'Staked Token', 'stTKN', [], toEther(10000)],
+    },
+    { name: 'TEST_Token', artifact: tokenArtifact, args: ['Token', 'TKN', 1000000000] },
+  ],
+  steps: [
+    { contract: 'TEST_StakingPool', method: 'addStrategy', args: [ref('TEST_StrategyMock')] },
+    { contract: 'TEST_Token', method: 'transfer', args: [account(1), transferAmount] },
+  ],
+})
+
+describe('Manifest', () => {
+  // resets chain state and recorded deployments between tests
+  async function deployFixture() {
+    return getAccounts()
+  }
+
+  beforeEach(() => deploymentFiles.forEach((file) => fse.removeSync(file)))
+  after(() => deploymentFiles.forEach((file) => fse.removeSync(file)))
+
+  it('resolveManifests should order contracts by their references', async () => {
+    const { contracts, steps } = resolveManifests([getManifest()])
+
+    assert.deepEqual(
+      contracts.map((entry) => entry.name),
+      ['TEST_Token', 'TEST_StakingPool', 'TEST_StrategyMock']
+    )
+    assert.deepEqual(steps.map(getStepName), [
+      'TEST_StakingPool.addStrategy([{"ref":"TEST_StrategyMock"}])',
+      'TEST_Token.transfer([{"account":1},"100000000000000000000"])',
+    ])
+  })
+
+  it('resolveManifests should only include entries for the current network', async () => {
+    const manifest: Manifest = {
+      contracts: [
+        { name: 'TEST_Token', artifact: tokenArtifact, networks: ['hardhat'] },
+        {
+          name: 'TEST_Token',
+          artifact: 'IERC20',
+          addresses: { mainnet: '0x01' },
+          networks: ['mainnet'],
+        },
+        { name: 'TEST_Other', artifact: tokenArtifact, args: [ref('TEST_Token')] },
+      ],
+      steps: [{ contract: 'TEST_Token', method: 'transfer', args: [], networks: ['mainnet'] }],
+    }
+
+    const { contracts, steps } = resolveManifests([manifest])
+    assert.deepEqual(
+      contracts.map((entry) => [entry.name, entry.artifact]),
+      [
+        ['TEST_Token', tokenArtifact],
+        ['TEST_Other', tokenArtifact],
+      ]
+    )
+    assert.deepEqual(steps, [])
+  })
+
+  it('resolveManifests should resolve the deployment manifests', async () => {
+    const { contracts } = resolveManifests([
+      testContractsManifest,
+      coreManifest,
+      linkStakingManifest,
+      metisStakingManifest,
+    ])
+    const names = contracts.map((entry) => entry.name)
+
+    assert.isBelow(names.indexOf('LINK_OperatorStakingPool'), names.indexOf('LINK_OperatorVCS'))
+    assert.isBelow(names.indexOf('LINK_CommunityStakingPool'), names.indexOf('LINK_CommunityVCS'))
+    assert.equal(
+      contracts.find((entry) => entry.name == 'LINK_OperatorStakingPool')?.artifact,
+      'StakingMock'
+    )
+  })
+
+  it('resolveManifests should reject invalid manifests', async () => {
+    const contract = { artifact: tokenArtifact }
+    const invalid: [Manifest, string][] = [
+      [
+        {
+          contracts: [
+            { ...contract, name: 'A', args: [ref('B')] },
+            { ...contract, name: 'B', args: [[ref('C')]] },
+            { ...contract, name: 'C', args: [ref('A')] },
+          ],
+        },
+        'Circular reference to A',
+      ],
+      [
+        { contracts: [{ ...contract, name: 'A', args: [ref('B')] }] },
+        'A references unknown contract B',
+      ],
+      [
+        { contracts: [], steps: [{ contract: 'A', method: 'transfer' }] },
+        'A.transfer([]) references unknown contract A',
+      ],
+      [
+        {
+          contracts: [
+            { ...contract, name: 'A' },
+            { ...contract, name: 'A' },
+          ],
+        },
+        'Duplicate contract name in manifests',
+      ],
+    ]
+
+    for (const [manifest, message] of invalid) {
+      try {
+        resolveManifests([manifest])
+        assert.fail('should have thrown')
+      } catch (error: any) {
+        assert.equal(error.message, message)
+      }
+    }
+  })
+
+  it('executeManifests should deploy contracts, run steps and skip them on later runs', async () => {
+    const { accounts } = await loadFixture(deployFixture)
+
+    let result = await executeManifests([getManifest()], false, () => {})
+    assert.deepEqual(result, {
+      deployed: ['TEST_Token', 'TEST_StakingPool', 'TEST_StrategyMock'],
+      steps: resolveManifests([getManifest()]).steps.map(getStepName),
+    })
+
+    const deployments = getDeployments()
+    const stakingPool = (await getContract('TEST_StakingPool')) as StakingPool
+    const token = (await getContract('TEST_Token')) as ERC677
+    assert.deepEqual(await stakingPool.getStrategies(), [deployments.TEST_StrategyMock.address])
+    assert.equal(await stakingPool.token(), deployments.TEST_Token.address)
+    assert.equal(fromEther(await token.balanceOf(accounts[1])), 100)
+
+    result = await executeManifests([getManifest()], false, () => {})
+    assert.deepEqual(result, { deployed: [], steps: [] })
+    assert.deepEqual(getDeployments(), deployments)
+    assert.equal(fromEther(await token.balanceOf(accounts[1])), 100)
+
+    // steps are run again if their args change
+    result = await executeManifests([getManifest(toEther(50))], false, () => {})
+    assert.deepEqual(result, {
+      deployed: [],
+      steps: ['TEST_Token.transfer([{"account":1},"50000000000000000000"])'],
+    })
+    assert.equal(fromEther(await token.balanceOf(accounts[1])), 150)
+  })
+
+  it('executeManifests should resume an interrupted run', async () => {
+    const { accounts } = await loadFixture(deployFixture)
+
+    // transfer exceeds the token supply so the run fails on the last step
+    try {
+      await executeManifests([getManifest(toEther(2000000000))], false, () => {})
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.include(error.message, 'transfer amount exceeds balance')
+    }
+
+    const deployments = getDeployments()
+    assert.deepEqual(Object.keys(deployments), [
+      'TEST_Token',
+      'TEST_StakingPool',
+      'TEST_StrategyMock',
+    ])
+    assert.deepEqual(Object.keys(fse.readJSONSync(deploymentFiles[1]).steps), [
+      'TEST_StakingPool.addStrategy([{"ref":"TEST_StrategyMock"}])',
+    ])
+
+    const result = await executeManifests([getManifest()], false, () => {})
+    assert.deepEqual(result, {
+      deployed: [],
+      steps: ['TEST_Token.transfer([{"account":1},"100000000000000000000"])'],
+    })
+    assert.deepEqual(getDeployments(), deployments)
+
+    const stakingPool = (await getContract('TEST_StakingPool')) as StakingPool
+    const token = (await getContract('TEST_Token')) as ERC677
+    assert.deepEqual(await stakingPool.getStrategies(), [deployments.TEST_StrategyMock.address])
+    assert.equal(fromEther(await token.balanceOf(accounts[1])), 100)
+  })
+
+  it('executeManifests should redeploy recorded contracts without code on local networks', async () => {
+    await loadFixture(deployFixture)
+
+    await executeManifests([getManifest()], false, () => {})
+    const deployments = getDeployments()
+    fse.outputJSONSync(deploymentFiles[0], {
+      ...deployments,
+      TEST_StrategyMock: {
+        ...deployments.TEST_StrategyMock,
+        address: ethers.Wallet.createRandom().address,
+      },
+    })
+
+    const result = await executeManifests([getManifest()], false, () => {})
+    assert.deepEqual(result.deployed, ['TEST_StrategyMock'])
+    assert.deepEqual(result.steps, ['TEST_StakingPool.addStrategy([{"ref":"TEST_StrategyMock"}])'])
+  })
+})
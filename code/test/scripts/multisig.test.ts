@@ -0,0 +1,167 @@
+import { assert } from 'chai'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { toEther, deploy, deployUpgradeable, getAccounts, fromEther } from '../utils/helpers'
+import { ERC677, StakingPool } from '../../typechain-types'
+import {
+  createSafeBatch,
+  decodeCall,
+  deployLocalSafe,
+  executeBatchLocally,
+  fromTransactionBuilderJSON,
+  proposeBatch,
+  toTransactionBuilderJSON,
+} from '../../scripts/utils/multisig'
+
+// serves the Safe transaction service endpoints used by proposeBatch and records proposals
+const startTxService = async () => {
+  const proposals: any[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      const url = new URL(req.url || '', 'http://localhost')
+      res.setHeader('Content-Type', 'application/json')
+
+      if (req.method == 'POST' && url.pathname.endsWith('/multisig-transactions/')) {
+        proposals.push(JSON.parse(body))
+        res.writeHead(201).end('{}')
+      } else if (url.pathname.endsWith('/multisig-transactions/')) {
+        res.end(JSON.stringify({ count: proposals.length, results: proposals }))
+      } else if (/^\/v1\/safes\/0x[0-9a-fA-F]{40}\/$/.test(url.pathname)) {
+        res.end(JSON.stringify({ nonce: 0 }))
+      } else {
+        res.writeHead(404).end(JSON.stringify({ detail: 'Not found' }))
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, resolve))
+
+  return { url: `http://localhost:${(server.address() as AddressInfo).port}`, proposals, server }
+}
+
+describe('Multisig', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+
+    return { accounts, token }
+  }
+
+  it('should convert batches to and from Transaction Builder files', async () => {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+
+    const batch = createSafeBatch('Test batch', 'description', accounts[5])
+    await batch.add(token, 'transfer', [accounts[1], toEther(100)])
+    await batch.add(stakingPool, 'deposit', [accounts[2], toEther(5), ['0x', '0x1234']])
+    batch.addCall({ to: accounts[3], value: '1', data: '0x' })
+
+    const built = await batch.build()
+    const json = toTransactionBuilderJSON(built)
+
+    assert.equal(json.meta.createdFromSafeAddress, accounts[5])
+    assert.equal(json.transactions.length, 3)
+    assert.equal(json.transactions[0].contractMethod?.name, 'transfer')
+    assert.deepEqual(json.transactions[0].contractInputsValues, {
+      to: accounts[1],
+      amount: toEther(100).toString(),
+    })
+    assert.equal(json.transactions[1].contractInputsValues?._data, '["0x","0x1234"]')
+    assert.equal(json.transactions[2].data, '0x')
+
+    const parsed = fromTransactionBuilderJSON(JSON.parse(JSON.stringify(json)))
+    assert.equal(parsed.chainId, built.chainId)
+    assert.deepEqual(
+      parsed.calls.map((call) => call.data),
+      built.calls.map((call) => call.data)
+    )
+    assert.deepEqual(decodeCall(parsed.calls[0], token.interface), {
+      signature: 'transfer(address,uint256)',
+      args: [accounts[1], toEther(100)],
+    })
+  })
+
+  it('deployLocalSafe and executeBatchLocally should execute batches through a Safe', async () => {
+    const { accounts, token } = await loadFixture(deployFixture)
+
+    const safe = await deployLocalSafe([accounts[1], accounts[2], accounts[3]], 2)
+    assert.notEqual(await ethers.provider.getCode(safe), '0x')
+    await token.transfer(safe, toEther(1000))
+
+    const batch = createSafeBatch('Local batch', '', safe)
+    await batch.add(token, 'transfer', [accounts[4], toEther(100)])
+    await batch.add(token, 'transfer', [accounts[5], toEther(200)])
+    await executeBatchLocally(await batch.build())
+
+    assert.equal(fromEther(await token.balanceOf(safe)), 700)
+    assert.equal(fromEther(await token.balanceOf(accounts[4])), 100)
+    assert.equal(fromEther(await token.balanceOf(accounts[5])), 200)
+
+    // Safe contracts are only deployed once
+    const other = await deployLocalSafe([accounts[1]])
+    assert.notEqual(other, safe)
+    await token.transfer(other, toEther(10))
+
+    const otherBatch = createSafeBatch('Other batch', '', other)
+    await otherBatch.add(token, 'transfer', [accounts[6], toEther(10)])
+    await executeBatchLocally(await otherBatch.build())
+    assert.equal(fromEther(await token.balanceOf(accounts[6])), 10)
+  })
+
+  it('proposeBatch should propose signed batches to the transaction service', async () => {
+    const { accounts, token } = await loadFixture(deployFixture)
+    const { url, proposals, server } = await startTxService()
+    process.env.SAFE_TX_SERVICE_URL = url
+
+    try {
+      const safe = await deployLocalSafe([accounts[0]])
+      const batch = createSafeBatch('Proposed batch', '', safe)
+      await batch.add(token, 'transfer', [accounts[1], toEther(100)])
+      await batch.add(token, 'transfer', [accounts[2], toEther(200)])
+
+      const safeTxHash = await proposeBatch(await batch.build())
+
+      assert.equal(proposals.length, 1)
+      assert.equal(proposals[0].contractTransactionHash, safeTxHash)
+      assert.equal(proposals[0].sender, accounts[0])
+      assert.equal(proposals[0].origin, 'Proposed batch')
+      assert.equal(proposals[0].nonce, 0)
+      assert.equal(proposals[0].operation, 1) // delegatecall to MultiSend
+
+      // Safe adds 4 to v of eth_sign signatures
+      const signature = ethers.getBytes(proposals[0].signature)
+      signature[64] -= 4
+      assert.equal(
+        ethers.verifyMessage(ethers.getBytes(safeTxHash), ethers.hexlify(signature)),
+        accounts[0]
+      )
+
+      // proposals are queued after pending transactions
+      await proposeBatch(await batch.build())
+      assert.equal(proposals[1].nonce, 1)
+    } finally {
+      delete process.env.SAFE_TX_SERVICE_URL
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,171 @@
+import { assert } from 'chai'
+import os from 'os'
+import path from 'path'
+import fse from 'fs-extra'
+import {
+  toEther,
+  deploy,
+  fromEther,
+  deployUpgradeable,
+  getAccounts,
+  setupToken,
+} from '../utils/helpers'
+import {
+  ERC677,
+  SDLPoolMock,
+  StakingPool,
+  PriorityPool,
+  StrategyMock,
+  WithdrawalPool,
+  Operator,
+  DistributionOracle,
+} from '../../typechain-types'
+import { ethers } from 'hardhat'
+import { loadFixture, mine, mineUpTo } from '@nomicfoundation/hardhat-network-helpers'
+import { createLocalIPFS } from '../../scripts/utils/ipfs'
+import { createDistributionOracleNode } from '../../scripts/utils/oracle-node'
+
+describe('OracleNode', () => {
+  async function deployFixture() {
+    const { accounts, signers } = await getAccounts()
+    const adrs: any = {}
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    adrs.token = await token.getAddress()
+    await setupToken(token, accounts, true)
+
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      adrs.token,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+    adrs.stakingPool = await stakingPool.getAddress()
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      adrs.token,
+      adrs.stakingPool,
+      toEther(1000),
+      toEther(100),
+    ])) as StrategyMock
+    adrs.strategy = await strategy.getAddress()
+
+    const sdlPool = (await deploy('SDLPoolMock')) as SDLPoolMock
+    adrs.sdlPool = await sdlPool.getAddress()
+
+    const pp = (await deployUpgradeable('PriorityPool', [
+      adrs.token,
+      adrs.stakingPool,
+      adrs.sdlPool,
+      toEther(100),
+      toEther(1000),
+    ])) as PriorityPool
+    adrs.pp = await pp.getAddress()
+
+    const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+      adrs.token,
+      adrs.stakingPool,
+      adrs.pp,
+      toEther(10),
+      0,
+    ])) as WithdrawalPool
+
+    const opContract = (await deploy('Operator', [adrs.token, accounts[0]])) as Operator
+    adrs.opContract = await opContract.getAddress()
+
+    const oracle = (await deploy('DistributionOracle', [
+      adrs.token,
+      adrs.opContract,
+      '0x' + Buffer.from('64797f2053684fef80138a5be83281b1').toString('hex'),
+      toEther(1),
+      0,
+      toEther(100),
+      10,
+      adrs.pp,
+    ])) as DistributionOracle
+    adrs.oracle = await oracle.getAddress()
+
+    await stakingPool.addStrategy(adrs.strategy)
+    await stakingPool.setPriorityPool(adrs.pp)
+    await stakingPool.setRebaseController(accounts[0])
+    await pp.setDistributionOracle(adrs.oracle)
+    await pp.setWithdrawalPool(await withdrawalPool.getAddress())
+    await opContract.setAuthorizedSenders([accounts[0]])
+    await token.transfer(adrs.oracle, toEther(100))
+
+    for (let i = 0; i < signers.length; i++) {
+      await token.connect(signers[i]).approve(adrs.pp, ethers.MaxUint256)
+    }
+
+    await pp.deposit(1000, false, ['0x'])
+    await pp.deposit(toEther(2000), true, ['0x'])
+    await pp.connect(signers[1]).deposit(toEther(500), true, ['0x'])
+
+    return { signers, accounts, adrs, token, stakingPool, strategy, pp, opContract, oracle }
+  }
+
+  it('should fulfill requests end to end', async () => {
+    const { accounts, strategy, pp, opContract, oracle } = await loadFixture(deployFixture)
+
+    const dir = fse.mkdtempSync(path.join(os.tmpdir(), 'ipfs-'))
+    const ipfs = createLocalIPFS(dir)
+    const node = createDistributionOracleNode({
+      operator: opContract,
+      distributionOracle: oracle,
+      priorityPool: pp,
+      ipfs,
+      confirmations: 2,
+      log: () => {},
+    })
+
+    await strategy.setMaxDeposits(toEther(1500))
+    await pp.depositQueuedTokens(toEther(100), toEther(1000), ['0x'])
+
+    await oracle.pauseForUpdate()
+    let blockNumber = await ethers.provider.getBlockNumber()
+    await mineUpTo(blockNumber + 10)
+    await oracle.requestUpdate()
+
+    assert.deepEqual(await node.processRequests(), [])
+    assert.equal(node.getPendingRequests()[0].blockNumber, blockNumber)
+
+    await mine(2)
+    assert.equal((await node.processRequests()).length, 1)
+    assert.equal(Number(await oracle.awaitingManualVerification()), 1)
+
+    let updateData = await oracle.updateData()
+    let distribution = ipfs.resolveJSON(updateData.ipfsHash)
+    assert.equal(updateData.merkleRoot, distribution.merkleRoot)
+    assert.equal(fromEther(updateData.amountDistributed), 500)
+    assert.equal(fromEther(BigInt(distribution.data[accounts[0]].amount)), 500)
+
+    await oracle.executeManualVerification()
+    assert.equal(await pp.merkleRoot(), distribution.merkleRoot)
+    assert.equal(await pp.paused(), false)
+
+    await oracle.toggleManualVerification()
+    await strategy.setMaxDeposits(toEther(2000))
+    await pp.depositQueuedTokens(toEther(100), toEther(1000), ['0x'])
+
+    await oracle.pauseForUpdate()
+    blockNumber = await ethers.provider.getBlockNumber()
+    await mineUpTo(blockNumber + 10)
+    await oracle.requestUpdate()
+    await mine(2)
+
+    assert.equal((await node.processRequests()).length, 1)
+    assert.deepEqual(await node.processRequests(), [])
+
+    distribution = ipfs.resolveJSON(await pp.ipfsHash())
+    assert.equal(await pp.merkleRoot(), distribution.merkleRoot)
+    assert.equal(fromEther(BigInt(distribution.data[accounts[0]].amount)), 1000)
+    assert.equal(fromEther(BigInt(distribution.data[accounts[1]].amount)), 0)
+
+    fse.removeSync(dir)
+  })
+})
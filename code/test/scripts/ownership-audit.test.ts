@@ -0,0 +1,82 @@
+import { assert } from 'chai'
+import { toEther, deploy, deployUpgradeable, getAccounts } from '../utils/helpers'
+import { ERC677, GovernanceController, StakingPool } from '../../typechain-types'
+import { auditOwnership } from '../../scripts/utils/ownership-audit'
+import { Deployments } from '../../scripts/utils/deployment'
+
+describe('OwnershipAudit', () => {
+  it('auditOwnership should report control and flag EOAs', async () => {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const deployPool = async () =>
+      (await deployUpgradeable('StakingPool', [
+        token.target,
+        'Staked LINK',
+        'stLINK',
+        [],
+        toEther(10000),
+      ])) as StakingPool
+
+    const governanceController = (await deploy('GovernanceController')) as GovernanceController
+    const multisig = await deploy('StrategyMock')
+    const ownedByEOA = await deployPool()
+    const ownedByMultisig = await deployPool()
+    const ownedByController = await deployPool()
+
+    await ownedByEOA.setRebaseController(accounts[2])
+    await ownedByMultisig.transferOwnership(multisig.target)
+    await ownedByController.transferOwnership(governanceController.target)
+    await governanceController.addRole(
+      'Fees',
+      [accounts[1]],
+      [ownedByController.target],
+      [[ownedByController.interface.getFunction('addFee').selector]]
+    )
+    await governanceController.grantRole(0, accounts[3])
+    await governanceController.revokeRole(0, accounts[1])
+    await governanceController.transferOwnership(multisig.target)
+
+    const deployments = {
+      GovernanceController: {
+        address: governanceController.target,
+        artifact: 'GovernanceController',
+      },
+      PoolA: { address: ownedByEOA.target, artifact: 'StakingPool' },
+      PoolB: { address: ownedByMultisig.target, artifact: 'StakingPool' },
+      PoolC: { address: ownedByController.target, artifact: 'StakingPool' },
+    } as any as Deployments
+
+    const report = await auditOwnership(deployments, multisig.target as string)
+
+    const getEntry = (contract: string, role: string) =>
+      report.entries.find((entry) => entry.contract == contract && entry.role == role)
+
+    assert.equal(getEntry('PoolA', 'owner')?.holderType, 'eoa')
+    assert.equal(getEntry('PoolA', 'rebaseController')?.holder, accounts[2])
+    assert.equal(getEntry('PoolB', 'rebaseController')?.holderType, 'unset')
+    assert.equal(getEntry('PoolC', 'owner')?.holderName, 'GovernanceController')
+    assert.equal(getEntry('GovernanceController', 'role:Fees')?.holder, accounts[3])
+
+    assert.deepEqual(report.roles, [
+      {
+        controller: 'GovernanceController',
+        id: 0,
+        name: 'Fees',
+        members: [accounts[3]],
+        functions: ['PoolC.addFee'],
+      },
+    ])
+    assert.deepEqual(
+      report.findings.map(({ contract, flag }) => [contract, flag]),
+      [
+        ['PoolC', 'eoa-governance-role'],
+        ['PoolA', 'eoa-owner'],
+      ]
+    )
+  })
+})
@@ -0,0 +1,263 @@
+import { ethers } from 'hardhat'
+import { assert } from 'chai'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  toEther,
+  deploy,
+  deployUpgradeable,
+  deployImplementation,
+  getAccounts,
+  setupToken,
+  fromEther,
+} from '../utils/helpers'
+import {
+  CommunityVCS,
+  ERC677,
+  InsurancePool,
+  PriorityPool,
+  RebaseController,
+  RewardsPoolTimeBased,
+  SDLPoolCCIPControllerMock,
+  StakingMock,
+  StakingPool,
+  StrategyMock,
+  VaultControllerStrategy,
+} from '../../typechain-types'
+import {
+  buildLossClaimBatch,
+  getClaimAmount,
+  getRebaseLossStatus,
+  slashVaults,
+} from '../../scripts/utils/rebase-loss'
+import { decodeCall } from '../../scripts/utils/multisig'
+
+describe('RebaseLoss', () => {
+  const decode = (data: any) =>
+    ethers.AbiCoder.defaultAbiCoder().decode(['uint256[]', 'uint256'], data)
+  const encodeVaults = (vaults: number[]) =>
+    ethers.AbiCoder.defaultAbiCoder().encode(['uint64[]'], [vaults])
+
+  async function deployFixture() {
+    const { signers, accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await setupToken(token, accounts)
+
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [[accounts[4], 1000]],
+      toEther(10000),
+    ])) as StakingPool
+
+    const priorityPool = (await deployUpgradeable('PriorityPool', [
+      token.target,
+      stakingPool.target,
+      accounts[0],
+      toEther(100),
+      toEther(1000),
+    ])) as PriorityPool
+
+    const sdlPoolCCIPController = (await deploy('SDLPoolCCIPControllerMock', [
+      accounts[0],
+      accounts[0],
+    ])) as SDLPoolCCIPControllerMock
+
+    const insurancePool = (await deployUpgradeable('InsurancePool', [
+      token.target,
+      'name',
+      'symbol',
+      accounts[0],
+      3000,
+      10,
+      100,
+    ])) as InsurancePool
+    const rewardsPool = (await deploy('RewardsPoolTimeBased', [
+      insurancePool.target,
+      token.target,
+      100,
+      100000,
+    ])) as RewardsPoolTimeBased
+    await insurancePool.setRewardsPool(rewardsPool.target)
+
+    const rebaseController = (await deploy('RebaseController', [
+      stakingPool.target,
+      priorityPool.target,
+      sdlPoolCCIPController.target,
+      insurancePool.target,
+      accounts[0],
+      1000,
+    ])) as RebaseController
+
+    const strategy1 = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(500),
+      toEther(0),
+    ])) as StrategyMock
+
+    const stakingRewardsMock = await deploy('StakingRewardsMock', [token.target])
+    const stakingMock = (await deploy('StakingMock', [
+      token.target,
+      stakingRewardsMock.target,
+      toEther(10),
+      toEther(100),
+      toEther(10000),
+      28 * 86400,
+      7 * 86400,
+    ])) as StakingMock
+    const strategy2 = (await deployUpgradeable(
+      'CommunityVCS',
+      [
+        token.target,
+        stakingPool.target,
+        stakingMock.target,
+        await deployImplementation('CommunityVault'),
+        [],
+        9000,
+        toEther(100),
+        10,
+        20,
+        (await deploy('VaultDepositController')).target,
+      ],
+      { unsafeAllow: ['delegatecall'] }
+    )) as CommunityVCS
+
+    await stakingPool.addStrategy(strategy1.target)
+    await stakingPool.addStrategy(strategy2.target)
+    await stakingPool.setPriorityPool(accounts[0])
+    await stakingPool.setRebaseController(rebaseController.target)
+    await priorityPool.setRebaseController(rebaseController.target)
+    await insurancePool.setRebaseController(rebaseController.target)
+
+    await token.approve(stakingPool.target, ethers.MaxUint256)
+    await stakingPool.deposit(accounts[0], toEther(1500), ['0x', encodeVaults([])])
+    await token.approve(insurancePool.target, ethers.MaxUint256)
+    await insurancePool.deposit(toEther(300))
+
+    const deployments: any = {
+      LINK_StrategyMock: { address: strategy1.target, artifact: 'StrategyMock', history: [] },
+      LINK_CommunityVCS: { address: strategy2.target, artifact: 'CommunityVCS', history: [] },
+    }
+
+    return {
+      signers,
+      accounts,
+      token,
+      stakingPool,
+      priorityPool,
+      insurancePool,
+      rebaseController,
+      strategy1,
+      strategy2,
+      stakingMock,
+      deployments,
+    }
+  }
+
+  it('getRebaseLossStatus should report losses per strategy', async () => {
+    const { stakingPool, strategy1, strategy2, stakingMock, deployments } = await loadFixture(
+      deployFixture
+    )
+
+    let status = await getRebaseLossStatus(stakingPool, deployments)
+    assert.equal(status.totalLoss, 0n)
+    assert.deepEqual(status.strategyIdxs, [])
+    assert.equal(status.upkeepNeeded, false)
+    assert.equal(status.exceedsMaxRebaseLoss, false)
+
+    await strategy1.simulateSlash(toEther(10))
+    const slashed = await slashVaults(strategy2 as any as VaultControllerStrategy, toEther(150))
+    const vaults = await strategy2.getVaults()
+
+    assert.deepEqual(slashed, { [vaults[0]]: toEther(100), [vaults[1]]: toEther(50) })
+    assert.equal(fromEther(await stakingMock.getStakerPrincipal(vaults[1])), 50)
+
+    status = await getRebaseLossStatus(stakingPool, deployments)
+    assert.deepEqual(
+      status.strategies.map((s) => [s.index, s.name, fromEther(s.loss)]),
+      [
+        [0, 'LINK_StrategyMock', 10],
+        [1, 'LINK_CommunityVCS', 150],
+      ]
+    )
+    assert.deepEqual(status.strategyIdxs, [0, 1])
+    assert.equal(fromEther(status.totalLoss), 160)
+    assert.equal(status.lossBP, 1066)
+    assert.equal(status.maxRebaseLossBP, 1000)
+    assert.equal(status.exceedsMaxRebaseLoss, true)
+    assert.equal(status.upkeepNeeded, true)
+
+    const [strategyIdxs, totalDepositChange] = decode(status.performData)
+    assert.deepEqual(strategyIdxs.map(Number), [0, 1])
+    assert.equal(totalDepositChange, status.totalLoss)
+  })
+
+  it('buildLossClaimBatch should cap the claim and reopen the pool', async () => {
+    const {
+      signers,
+      accounts,
+      token,
+      stakingPool,
+      priorityPool,
+      insurancePool,
+      rebaseController,
+      strategy1,
+      strategy2,
+      deployments,
+    } = await loadFixture(deployFixture)
+
+    await strategy1.simulateSlash(toEther(10))
+    await slashVaults(strategy2 as any as VaultControllerStrategy, toEther(150))
+
+    let status = await getRebaseLossStatus(stakingPool, deployments)
+    try {
+      await buildLossClaimBatch(status, undefined, accounts[0])
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, 'Pool is not closed or no claim is in progress')
+    }
+
+    await rebaseController.performUpkeep(status.performData!)
+
+    status = await getRebaseLossStatus(stakingPool, deployments)
+    assert.equal(status.poolStatus, 2)
+    assert.equal(status.claimInProgress, true)
+    assert.equal(status.upkeepNeeded, false)
+    assert.equal(fromEther(status.totalLoss), 160)
+    assert.equal(fromEther(status.maxClaimAmount), 90)
+    assert.equal(fromEther(getClaimAmount(status)), 90)
+    assert.equal(fromEther(getClaimAmount(status, toEther(50))), 50)
+
+    const batch = await (await buildLossClaimBatch(status, undefined, accounts[0])).build()
+    assert.deepEqual(
+      batch.calls.map((call) => call.contractMethod?.name),
+      ['executeClaim', 'approve', 'donateTokens', 'reopenPool']
+    )
+    assert.deepEqual(decodeCall(batch.calls[0], insurancePool.interface)?.args, [toEther(90)])
+    assert.deepEqual(decodeCall(batch.calls[1], token.interface)?.args, [
+      stakingPool.target,
+      toEther(90),
+    ])
+    assert.deepEqual(
+      decodeCall(batch.calls[3], rebaseController.interface)?.args[0].map(Number),
+      [0, 1]
+    )
+
+    for (const call of batch.calls) {
+      await signers[0].sendTransaction({ to: call.to, data: call.data, value: call.value })
+    }
+
+    status = await getRebaseLossStatus(stakingPool, deployments)
+    assert.equal(Number(await priorityPool.poolStatus()), 0)
+    assert.equal(await insurancePool.claimInProgress(), false)
+    assert.equal(fromEther(await insurancePool.totalDeposits()), 210)
+    assert.equal(fromEther(await stakingPool.totalStaked()), 1430)
+    assert.equal(status.totalLoss, 0n)
+  })
+})
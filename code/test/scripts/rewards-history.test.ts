@@ -0,0 +1,155 @@
+import { assert } from 'chai'
+import { ethers } from 'hardhat'
+import { toEther, deploy, deployUpgradeable, getAccounts, fromEther } from '../utils/helpers'
+import { ERC677, RebaseController, StakingPool, StrategyMock } from '../../typechain-types'
+import { loadFixture, setBalance, time } from '@nomicfoundation/hardhat-network-helpers'
+import { Deployments } from '../../scripts/utils/deployment'
+import {
+  getRebaseHistory,
+  getYieldWindow,
+  splitWindows,
+  toCSV,
+} from '../../scripts/utils/rewards-history'
+
+describe('RewardsHistory', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [
+        [accounts[3], 1000],
+        [accounts[4], 500],
+      ],
+      toEther(10000),
+    ])) as StakingPool
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(10000),
+      toEther(10),
+    ])) as StrategyMock
+    const rebaseController = (await deploy('RebaseController', [
+      stakingPool.target,
+      accounts[0],
+      accounts[0],
+      accounts[0],
+      accounts[0],
+      300,
+    ])) as RebaseController
+
+    await strategy.setFeeBasisPoints(500)
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(accounts[0])
+    await stakingPool.setRebaseController(rebaseController.target)
+    await token.approve(stakingPool.target, ethers.MaxUint256)
+    await stakingPool.deposit(accounts[0], toEther(1000), ['0x'])
+
+    // rewards are updated by the rebase controller
+    await setBalance(rebaseController.target as string, toEther(10))
+    const rebaser = await ethers.getImpersonatedSigner(rebaseController.target as string)
+
+    const deployments: Deployments = {
+      SDLPool: { address: accounts[4], artifact: 'SDLPoolPrimary', history: [] },
+      LINK_StakingPool: {
+        address: stakingPool.target as string,
+        artifact: 'StakingPool',
+        history: [],
+      },
+    }
+
+    return { accounts, token, stakingPool, strategy, rebaser, deployments }
+  }
+
+  it('should split fees and flag negative rebases', async () => {
+    const { accounts, token, stakingPool, strategy, rebaser, deployments } = await loadFixture(
+      deployFixture
+    )
+    const fromBlock = await ethers.provider.getBlockNumber()
+
+    await token.transfer(strategy.target, toEther(100))
+    await stakingPool.connect(rebaser).updateStrategyRewards([0], '0x')
+    await strategy.simulateSlash(toEther(22))
+    await stakingPool.connect(rebaser).updateStrategyRewards([0], '0x')
+    await strategy.simulateSlash(toEther(50))
+    await stakingPool.connect(rebaser).updateStrategyRewards([0], '0x')
+
+    const rebases = await getRebaseHistory(
+      stakingPool,
+      deployments,
+      fromBlock,
+      await ethers.provider.getBlockNumber()
+    )
+    assert.equal(rebases.length, 3)
+
+    assert.equal(rebases[0].rewards, toEther(100))
+    assert.deepEqual(
+      rebases[0].fees.map((fee) => [
+        fee.receiver,
+        fee.name,
+        fee.type,
+        Math.round(fromEther(fee.amount)),
+      ]),
+      [
+        [accounts[0], undefined, 'strategy', 5],
+        [accounts[3], undefined, 'pool', 10],
+        [accounts[4], 'SDLPool', 'sdl-pool', 5],
+      ]
+    )
+    assert.isAbove(Number(rebases[0].sharePriceAfter), Number(rebases[0].sharePriceBefore))
+    assert.equal(rebases[0].hitMaxRebaseLoss, false)
+
+    assert.equal(rebases[1].rewards, -toEther(22))
+    assert.equal(rebases[1].lossBP, 200)
+    assert.equal(rebases[1].maxRebaseLossBP, 300)
+    assert.equal(rebases[1].hitMaxRebaseLoss, false)
+    assert.deepEqual(rebases[1].fees, [])
+
+    assert.equal(rebases[2].lossBP, 463)
+    assert.equal(rebases[2].hitMaxRebaseLoss, true)
+  })
+
+  it('should compute realized yield over windows', async () => {
+    const { token, stakingPool, strategy, rebaser, deployments } = await loadFixture(deployFixture)
+    const fromBlock = await ethers.provider.getBlockNumber()
+
+    // a block and a transaction every day so there are 10 real blocks before the rebase
+    for (let i = 0; i < 5; i++) {
+      await time.increase(86400)
+      await token.transfer(rebaser.address, 1)
+    }
+    await token.transfer(strategy.target, toEther(100))
+    await stakingPool.connect(rebaser).updateStrategyRewards([0], '0x')
+    const toBlock = await ethers.provider.getBlockNumber()
+
+    const rebases = await getRebaseHistory(stakingPool, deployments, fromBlock, toBlock)
+    const windows = splitWindows(fromBlock, toBlock, 6)
+    assert.deepEqual(windows, [
+      [fromBlock, fromBlock + 6],
+      [fromBlock + 6, toBlock],
+    ])
+
+    const first = await getYieldWindow(stakingPool, rebases, ...windows[0])
+    assert.equal(first.rebases, 0)
+    assert.equal(first.apr, 0)
+
+    const total = await getYieldWindow(stakingPool, rebases, fromBlock, toBlock)
+    const growth = Number(ethers.formatEther(total.sharePriceEnd)) - 1
+    assert.equal(total.rebases, 1)
+    assert.equal(total.grossRewards, toEther(100))
+    assert.closeTo(fromEther(total.netRewards), 80, 1e-9)
+    assert.closeTo(fromEther(total.fees['sdl-pool']), 5, 1e-9)
+    assert.closeTo(total.apr, (growth * 365 * 86400) / (total.toTime - total.fromTime), 1e-9)
+    assert.isAbove(total.apy, total.apr)
+
+    const csv = toCSV([{ a: 1n, b: 'x,y', c: { d: 2 } }, { a: 3n }])
+    assert.equal(csv, 'a,b,c.d\n1,"x,y",2\n3,,')
+  })
+})
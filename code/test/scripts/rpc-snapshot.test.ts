@@ -0,0 +1,159 @@
+import { assert } from 'chai'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import fse from 'fs-extra'
+import { AddressInfo } from 'net'
+import { ethers, network } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { toEther, deploy, getAccounts } from '../utils/helpers'
+import { ERC677 } from '../../typechain-types'
+import { startRpcSnapshotServer } from '../../scripts/utils/rpc-snapshot'
+
+// serves the in-process hardhat provider over HTTP and counts the requests it receives
+const startUpstream = async () => {
+  const upstream = { url: '', requests: 0, close: async () => {} }
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', async () => {
+      const { id, method, params } = JSON.parse(body)
+      upstream.requests++
+      try {
+        const result = await network.provider.request({ method, params })
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }))
+      } catch (error: any) {
+        res.end(
+          JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message: error.message } })
+        )
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  upstream.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  upstream.close = async () => {
+    await new Promise((resolve) => server.close(resolve))
+  }
+  return upstream
+}
+
+const send = async (url: string, body: any) => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return res.json()
+}
+
+describe('RpcSnapshot', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await token.transfer(accounts[1], toEther(100))
+
+    return { accounts, token }
+  }
+
+  let dir: string
+  let snapshotPath: string
+
+  beforeEach(() => {
+    dir = fse.mkdtempSync(path.join(os.tmpdir(), 'rpc-snapshot-'))
+    snapshotPath = path.join(dir, 'snapshot.json')
+  })
+  afterEach(() => fse.removeSync(dir))
+
+  it('should record responses from upstream and replay them without network access', async () => {
+    const { accounts, token } = await loadFixture(deployFixture)
+    const blockNumber = await ethers.provider.getBlockNumber()
+    const blockTag = ethers.toQuantity(blockNumber)
+    const requests = [
+      { jsonrpc: '2.0', id: 1, method: 'eth_getBalance', params: [accounts[1], blockTag] },
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'eth_call',
+        params: [
+          {
+            to: token.target,
+            data: token.interface.encodeFunctionData('balanceOf', [accounts[1]]),
+          },
+          blockTag,
+        ],
+      },
+      { jsonrpc: '2.0', id: 3, method: 'eth_getCode', params: [token.target, blockTag] },
+    ]
+
+    const upstream = await startUpstream()
+    const recorder = await startRpcSnapshotServer(snapshotPath, upstream.url, blockNumber)
+    const recorded = [
+      await send(recorder.url, requests[0]),
+      await send(recorder.url, requests.slice(1)),
+    ]
+    assert.equal(upstream.requests, 3)
+
+    // recorded requests are not fetched again
+    await send(recorder.url, requests[0])
+    assert.equal(upstream.requests, 3)
+    await recorder.close()
+
+    assert.equal(
+      recorded[0].result,
+      ethers.toQuantity(await ethers.provider.getBalance(accounts[1]))
+    )
+    assert.equal(BigInt(recorded[1][0].result), toEther(100))
+    assert.equal(recorded[1][1].result, await ethers.provider.getCode(token.target))
+    assert.equal(fse.readJSONSync(snapshotPath).blockNumber, blockNumber)
+
+    const replayer = await startRpcSnapshotServer(snapshotPath)
+    assert.equal(replayer.blockNumber, blockNumber)
+
+    // responses are matched without their id
+    assert.deepEqual(await send(replayer.url, { ...requests[0], id: 7 }), { ...recorded[0], id: 7 })
+    assert.deepEqual(await send(replayer.url, requests.slice(1)), recorded[1])
+
+    const missing = await send(replayer.url, {
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'eth_getBalance',
+      params: [accounts[2], blockTag],
+    })
+    assert.equal(missing.id, 4)
+    assert.match(missing.error.message, /^Request not in snapshot: \["eth_getBalance"/)
+
+    await replayer.close()
+    assert.equal(upstream.requests, 3)
+    await upstream.close()
+  })
+
+  it('should reject missing snapshots and snapshots recorded at another block', async () => {
+    try {
+      await startRpcSnapshotServer(snapshotPath)
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, `Snapshot ${snapshotPath} does not exist`)
+    }
+
+    try {
+      await startRpcSnapshotServer(snapshotPath, 'http://127.0.0.1:1')
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, 'Block number is required to record a snapshot')
+    }
+
+    fse.outputJSONSync(snapshotPath, { blockNumber: 10, responses: {} })
+    try {
+      await startRpcSnapshotServer(snapshotPath, 'http://127.0.0.1:1', 11)
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, `Snapshot ${snapshotPath} was recorded at block 10`)
+    }
+  })
+})
@@ -0,0 +1,61 @@
+import { assert } from 'chai'
+import { ethers } from 'hardhat'
+import { deploy, getAccounts, toEther } from '../utils/helpers'
+import { ERC677 } from '../../typechain-types'
+import {
+  checkSigner,
+  createMockHardwareSigner,
+  getSigner,
+  setSigner,
+} from '../../scripts/utils/signers'
+
+describe('Signers', () => {
+  it('checkSigner should refuse dev keys on production networks', async () => {
+    const { accounts } = await getAccounts()
+
+    checkSigner(accounts[0], 'localhost')
+    checkSigner(ethers.Wallet.createRandom().address, 'mainnet')
+
+    for (const networkName of ['mainnet', 'metis']) {
+      try {
+        checkSigner(accounts[1], networkName)
+        assert.fail('should have thrown')
+      } catch (error: any) {
+        assert.equal(error.message, `Refusing to use dev key ${accounts[1]} on ${networkName}`)
+      }
+    }
+  })
+
+  it('mock hardware signer should require approval for every signature', async () => {
+    const { signers } = await getAccounts()
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+
+    let approve = true
+    const signer = createMockHardwareSigner(ethers.Wallet.createRandom().privateKey, () => approve)
+    await signers[0].sendTransaction({ to: signer.address, value: toEther(1) })
+    await token.transfer(signer.address, toEther(100))
+
+    await setSigner(signer, 'ledger')
+    assert.equal(await getSigner(true), signer)
+
+    await (await token.connect(signer).transfer(signers[1].address, toEther(10))).wait()
+    assert.equal(signer.requests.length, 1)
+    assert.equal(signer.requests[0].request, 'signTransaction')
+
+    approve = false
+    try {
+      await token.connect(signer).transfer(signers[1].address, toEther(10))
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, 'Mock hardware signer: request denied by the user')
+    }
+    assert.equal(signer.requests.length, 2)
+    assert.equal(signer.requests[1].approved, false)
+
+    await setSigner(undefined, 'ledger')
+  })
+})
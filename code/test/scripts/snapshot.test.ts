@@ -0,0 +1,61 @@
+import { assert } from 'chai'
+import { ethers } from 'hardhat'
+import { diffSnapshots, normalize, ProtocolSnapshot } from '../../scripts/utils/snapshot'
+
+describe('Snapshot', () => {
+  const snapshot = (blockNumber: number, stakingPools: any): ProtocolSnapshot => ({
+    network: 'localhost',
+    chainId: '31337',
+    blockNumber,
+    timestamp: blockNumber * 12,
+    stakingPools,
+    priorityPools: {},
+    withdrawalPools: {},
+    sdlPools: {},
+    ccipControllers: {},
+  })
+
+  it('normalize should convert bigints, addresses and structs', async () => {
+    const address = ethers.Wallet.createRandom().address
+    const coder = ethers.AbiCoder.defaultAbiCoder()
+    const fees = coder.decode(
+      ['tuple(address receiver, uint256 basisPoints)[]'],
+      coder.encode(['tuple(address receiver, uint256 basisPoints)[]'], [[[address, 300n]]])
+    )[0]
+
+    assert.deepEqual(normalize({ fees, total: 10n, ids: [1n, 2n] }), {
+      fees: [{ receiver: address.toLowerCase(), basisPoints: '300' }],
+      total: '10',
+      ids: ['1', '2'],
+    })
+  })
+
+  it('diffSnapshots should return changed, added and removed values', async () => {
+    const before = snapshot(1, {
+      LINK_StakingPool: { totalStaked: '100', strategies: { a: { vaults: [{ rewards: '1' }] } } },
+    })
+    const after = snapshot(2, {
+      LINK_StakingPool: {
+        totalStaked: '150',
+        strategies: { a: { vaults: [{ rewards: '1' }, { rewards: '0' }] } },
+      },
+      METIS_StakingPool: { totalStaked: '0' },
+    })
+
+    assert.deepEqual(diffSnapshots(before, before), [])
+    assert.deepEqual(diffSnapshots(before, after), [
+      { path: 'stakingPools.LINK_StakingPool.totalStaked', before: '100', after: '150' },
+      {
+        path: 'stakingPools.LINK_StakingPool.strategies.a.vaults.1.rewards',
+        before: undefined,
+        after: '0',
+      },
+      { path: 'stakingPools.METIS_StakingPool.totalStaked', before: undefined, after: '0' },
+    ])
+    assert.deepEqual(diffSnapshots(after, before)[2], {
+      path: 'stakingPools.METIS_StakingPool.totalStaked',
+      before: '0',
+      after: undefined,
+    })
+  })
+})
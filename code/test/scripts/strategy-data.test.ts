@@ -0,0 +1,260 @@
+import { assert } from 'chai'
+import {
+  toEther,
+  deploy,
+  deployUpgradeable,
+  deployImplementation,
+  getAccounts,
+  setupToken,
+  fromEther,
+} from '../utils/helpers'
+import {
+  ERC677,
+  StakingMock,
+  StakingPool,
+  StrategyMock,
+  StakingRewardsMock,
+  PriorityPool,
+  SDLPoolMock,
+  WithdrawalPool,
+  FundFlowController,
+  OperatorVCS,
+  CommunityVCS,
+} from '../../typechain-types'
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  createDataPlanner,
+  decodeVaultIds,
+  encodePerformData,
+  encodeVaultIds,
+  estimateDepositGas,
+  estimateWithdrawalGas,
+} from '../../scripts/utils/strategy-data'
+
+const unbondingPeriod = 28 * 86400
+const claimPeriod = 7 * 86400
+
+describe('StrategyData', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await setupToken(token, accounts)
+
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+
+    const rewardsController = (await deploy('StakingRewardsMock', [
+      token.target,
+    ])) as StakingRewardsMock
+    const stakingController = (await deploy('StakingMock', [
+      token.target,
+      rewardsController.target,
+      toEther(10),
+      toEther(100),
+      toEther(10000),
+      unbondingPeriod,
+      claimPeriod,
+    ])) as StakingMock
+
+    const vaultDepositController = await deploy('VaultDepositController')
+
+    const opStrategy = (await deployUpgradeable(
+      'OperatorVCS',
+      [
+        token.target,
+        stakingPool.target,
+        stakingController.target,
+        await deployImplementation('OperatorVault'),
+        [],
+        9000,
+        toEther(100),
+        1000,
+        vaultDepositController.target,
+      ],
+      { unsafeAllow: ['delegatecall'] }
+    )) as OperatorVCS
+
+    const comStrategy = (await deployUpgradeable(
+      'CommunityVCS',
+      [
+        token.target,
+        stakingPool.target,
+        stakingController.target,
+        await deployImplementation('CommunityVault'),
+        [],
+        9000,
+        toEther(100),
+        10,
+        20,
+        vaultDepositController.target,
+      ],
+      { unsafeAllow: ['delegatecall'] }
+    )) as CommunityVCS
+
+    const fundFlowController = (await deployUpgradeable('FundFlowController', [
+      opStrategy.target,
+      comStrategy.target,
+      unbondingPeriod,
+      claimPeriod,
+      5,
+    ])) as FundFlowController
+    await opStrategy.setFundFlowController(fundFlowController.target)
+    await comStrategy.setFundFlowController(fundFlowController.target)
+
+    for (let i = 0; i < 5; i++) {
+      await opStrategy.addVault(accounts[0], accounts[0], accounts[0])
+    }
+
+    await stakingPool.addStrategy(opStrategy.target)
+    await stakingPool.addStrategy(comStrategy.target)
+    await stakingPool.setPriorityPool(accounts[0])
+    await stakingPool.setRebaseController(accounts[0])
+    await token.approve(stakingPool.target, ethers.MaxUint256)
+
+    return { accounts, token, stakingPool, opStrategy, comStrategy, fundFlowController }
+  }
+
+  it('encodeVaultIds/decodeVaultIds should work correctly', async () => {
+    assert.deepEqual(decodeVaultIds(encodeVaultIds([0, 5, 10])), [0, 5, 10])
+    assert.deepEqual(decodeVaultIds(encodeVaultIds([])), [])
+    assert.deepEqual(decodeVaultIds('0x'), [])
+  })
+
+  it('should build deposit plans that can be executed', async () => {
+    const { accounts, stakingPool, opStrategy, comStrategy, fundFlowController } =
+      await loadFixture(deployFixture)
+
+    const planner = createDataPlanner(stakingPool, fundFlowController)
+    const plan = await planner.planDeposit(toEther(300))
+    const depositData = await fundFlowController.getDepositData(toEther(300))
+
+    assert.equal(plan.type, 'deposit')
+    assert.deepEqual(plan.data, [depositData[0], depositData[1]])
+    assert.deepEqual(
+      plan.strategies.map((s) => s.strategy),
+      [opStrategy.target, comStrategy.target]
+    )
+    assert.deepEqual(plan.strategies[0].vaults, decodeVaultIds(depositData[0]))
+    assert.deepEqual(plan.strategies[1].vaults, decodeVaultIds(depositData[1]))
+
+    await stakingPool.deposit(accounts[0], toEther(300), plan.data)
+    assert.equal(fromEther(await stakingPool.totalStaked()), 300)
+
+    const decoded = await planner.decode('deposit', toEther(300), plan.data)
+    assert.deepEqual(decoded, plan)
+  })
+
+  it('should build plans for strategies not managed by the fund flow controller', async () => {
+    const { accounts, token, stakingPool, opStrategy, fundFlowController } = await loadFixture(
+      deployFixture
+    )
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(1000),
+      toEther(10),
+    ])) as StrategyMock
+    await stakingPool.addStrategy(strategy.target)
+
+    let plan = await createDataPlanner(stakingPool, fundFlowController).planWithdrawal(toEther(50))
+    assert.equal(plan.data.length, 3)
+    assert.equal(plan.strategies[2].data, '0x')
+    assert.equal(plan.strategies[2].vaults, undefined)
+    assert.deepEqual(plan.strategies[0].vaults, [])
+
+    plan = await createDataPlanner(stakingPool).planDeposit(toEther(50))
+    assert.deepEqual(plan.data, ['0x', '0x', '0x'])
+    assert.equal(plan.strategies[0].strategy, opStrategy.target)
+
+    try {
+      await createDataPlanner(stakingPool).decode('deposit', 0n, ['0x'])
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, 'Expected data for 3 strategies, got 1')
+    }
+  })
+
+  it('estimateDepositGas and estimateWithdrawalGas should estimate executable plans', async () => {
+    const { token, stakingPool } = await loadFixture(deployFixture)
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(1000),
+      toEther(0),
+    ])) as StrategyMock
+    const sdlPool = (await deploy('SDLPoolMock')) as SDLPoolMock
+    const priorityPool = (await deployUpgradeable('PriorityPool', [
+      token.target,
+      stakingPool.target,
+      sdlPool.target,
+      toEther(100),
+      toEther(1000),
+    ])) as PriorityPool
+    const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+      token.target,
+      stakingPool.target,
+      priorityPool.target,
+      toEther(10),
+      0,
+    ])) as WithdrawalPool
+
+    // replaces the vault controller strategies with a single mock strategy
+    await stakingPool.removeStrategy(0, '0x', '0x')
+    await stakingPool.removeStrategy(0, '0x', '0x')
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(priorityPool.target)
+    await priorityPool.setWithdrawalPool(withdrawalPool.target)
+    await token.approve(priorityPool.target, ethers.MaxUint256)
+    await stakingPool.approve(priorityPool.target, ethers.MaxUint256)
+
+    const planner = createDataPlanner(stakingPool)
+
+    await priorityPool.deposit(toEther(1500), true, ['0x'])
+    await strategy.setMaxDeposits(toEther(2000))
+
+    const depositPlan = await planner.planDeposit(toEther(500))
+    const depositGas = await estimateDepositGas(priorityPool, depositPlan)
+    await priorityPool.depositQueuedTokens(0, depositPlan.amount, depositPlan.data, {
+      gasLimit: depositGas,
+    })
+    assert.equal(fromEther(await priorityPool.totalQueued()), 0)
+    assert.equal(fromEther(await strategy.getTotalDeposits()), 1500)
+
+    await priorityPool.withdraw(toEther(300), 0, 0, [], false, true)
+    const withdrawalPlan = await planner.planWithdrawal(
+      await withdrawalPool.getTotalQueuedWithdrawals()
+    )
+    const withdrawalGas = await estimateWithdrawalGas(withdrawalPool, withdrawalPlan)
+    await withdrawalPool.performUpkeep(encodePerformData(withdrawalPlan), {
+      gasLimit: withdrawalGas,
+    })
+    assert.equal(fromEther(await withdrawalPool.getTotalQueuedWithdrawals()), 0)
+    assert.equal(fromEther(await strategy.getTotalDeposits()), 1200)
+
+    try {
+      await estimateDepositGas(priorityPool, withdrawalPlan)
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, 'Plan is not a deposit plan')
+    }
+    try {
+      await estimateWithdrawalGas(withdrawalPool, depositPlan)
+      assert.fail('should have thrown')
+    } catch (error: any) {
+      assert.equal(error.message, 'Plan is not a withdrawal plan')
+    }
+  })
+})
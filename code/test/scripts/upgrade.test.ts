@@ -0,0 +1,125 @@
+import { assert } from 'chai'
+import fse from 'fs-extra'
+import { ethers } from 'hardhat'
+import { toEther, deployUpgradeable, getAccounts } from '../utils/helpers'
+import { StrategyMock } from '../../typechain-types'
+import { updateDeployments, upgradeProxy } from '../../scripts/utils/deployment'
+import {
+  checkSmokeValues,
+  encodeUpgradeCall,
+  finalizeUpgrade,
+  readSmokeValues,
+  upgradeContract,
+} from '../../scripts/utils/upgrade'
+
+const recordFiles = [
+  'deployments/hardhat.json',
+  'deployments/hardhat.upgrades.json',
+  'batches/hardhat',
+]
+
+describe('Upgrade', () => {
+  beforeEach(() => recordFiles.forEach((file) => fse.removeSync(file)))
+  after(() => recordFiles.forEach((file) => fse.removeSync(file)))
+
+  it('encodeUpgradeCall should only use upgradeToAndCall with a call', async () => {
+    const iface = (await ethers.getContractFactory('StrategyMock')).interface
+    const implementation = ethers.Wallet.createRandom().address
+
+    assert.deepEqual(encodeUpgradeCall(iface, implementation), {
+      method: 'upgradeTo',
+      args: [implementation],
+    })
+    assert.deepEqual(
+      encodeUpgradeCall(iface, implementation, { fn: 'setFeeBasisPoints', args: [5] }),
+      {
+        method: 'upgradeToAndCall',
+        args: [implementation, iface.encodeFunctionData('setFeeBasisPoints', [5])],
+      }
+    )
+  })
+
+  it('checkSmokeValues should fail for getters that start reverting', async () => {
+    const before = { 'a()': '1', 'b()': 'reverted', 'c()': '3' }
+
+    assert.deepEqual(checkSmokeValues(before, { 'a()': '2', 'b()': 'reverted', 'c()': '3' }), {
+      passed: true,
+      reverted: [],
+      changed: [{ getter: 'a()', before: '1', after: '2' }],
+    })
+    assert.deepEqual(checkSmokeValues(before, { 'a()': '1', 'b()': '2', 'c()': 'reverted' }), {
+      passed: false,
+      reverted: ['c()'],
+      changed: [],
+    })
+    assert.deepEqual(checkSmokeValues(undefined, { 'a()': 'reverted' }), {
+      passed: true,
+      reverted: [],
+      changed: [],
+    })
+  })
+
+  it('upgradeProxy should upgrade and pass the smoke test', async () => {
+    const { accounts } = await getAccounts()
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      accounts[0],
+      accounts[0],
+      toEther(1000),
+      toEther(10),
+    ])) as StrategyMock
+    await strategy.setFeeBasisPoints(100)
+
+    const before = await readSmokeValues(strategy.target as string, 'StrategyMockV2')
+    assert.equal(before['contractVersion()'], 'reverted')
+
+    await upgradeProxy(strategy.target as string, 'StrategyMockV2')
+
+    const after = await readSmokeValues(strategy.target as string, 'StrategyMockV2')
+    const result = checkSmokeValues(before, after)
+    assert.equal(after['contractVersion()'], '2')
+    assert.equal(after['feeBasisPoints()'], '100')
+    assert.equal(result.passed, true)
+    assert.deepEqual(result.changed, [])
+  })
+
+  it('finalizeUpgrade should compare against values stored when the batch was submitted', async () => {
+    const { accounts } = await getAccounts()
+
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      accounts[0],
+      accounts[0],
+      toEther(1000),
+      toEther(10),
+    ])) as StrategyMock
+    await strategy.setFeeBasisPoints(100)
+    updateDeployments(
+      { Multisig: accounts[0], Strategy: strategy.target as string },
+      { Strategy: 'StrategyMock' }
+    )
+
+    const { implementation, smokeTest } = await upgradeContract(
+      'Strategy',
+      true,
+      { artifact: 'StrategyMockV2' },
+      false,
+      false,
+      () => {}
+    )
+    assert.equal(smokeTest, undefined)
+    assert.equal(
+      fse.readJSONSync('deployments/hardhat.upgrades.json').Strategy.implementation,
+      implementation
+    )
+
+    // the batch is executed by the multisig after state has changed
+    await strategy.setFeeBasisPoints(200)
+    await strategy.upgradeTo(implementation as string)
+
+    const result = await finalizeUpgrade('Strategy', 'StrategyMockV2')
+    assert.equal(result.passed, true)
+    assert.equal(result.implementation, implementation)
+    assert.deepEqual(result.changed, [{ getter: 'feeBasisPoints()', before: '100', after: '200' }])
+    assert.deepEqual(fse.readJSONSync('deployments/hardhat.upgrades.json'), {})
+  })
+})
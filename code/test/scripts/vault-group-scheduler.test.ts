@@ -0,0 +1,239 @@
+import { assert } from 'chai'
+import {
+  toEther,
+  deploy,
+  deployUpgradeable,
+  deployImplementation,
+  getAccounts,
+  setupToken,
+  fromEther,
+} from '../utils/helpers'
+import {
+  ERC677,
+  VCSMock,
+  StakingMock,
+  CommunityVault,
+  StakingRewardsMock,
+  FundFlowController,
+  OperatorVCS,
+} from '../../typechain-types'
+import { ethers } from 'hardhat'
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  createVaultGroupScheduler,
+  getNextUpdateTime,
+  getOperatorVaultGroupAccounting,
+  getVaultGroupState,
+} from '../../scripts/utils/vault-group-scheduler'
+
+const unbondingPeriod = 28 * 86400
+const claimPeriod = 7 * 86400
+
+function encodeVaults(vaults: number[]) {
+  return ethers.AbiCoder.defaultAbiCoder().encode(['uint64[]'], [vaults])
+}
+
+describe('VaultGroupScheduler', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await setupToken(token, accounts)
+
+    const rewardsController = (await deploy('StakingRewardsMock', [
+      token.target,
+    ])) as StakingRewardsMock
+    const stakingController = (await deploy('StakingMock', [
+      token.target,
+      rewardsController.target,
+      toEther(10),
+      toEther(100),
+      toEther(10000),
+      unbondingPeriod,
+      claimPeriod,
+    ])) as StakingMock
+
+    const vaultDepositController = await deploy('VaultDepositController')
+
+    const opStrategy = (await deployUpgradeable(
+      'OperatorVCS',
+      [
+        token.target,
+        accounts[0],
+        stakingController.target,
+        await deployImplementation('OperatorVault'),
+        [[accounts[4], 500]],
+        10000,
+        toEther(100),
+        1000,
+        vaultDepositController.target,
+      ],
+      { unsafeAllow: ['delegatecall'] }
+    )) as OperatorVCS
+
+    const comStrategy = (await deployUpgradeable(
+      'VCSMock',
+      [
+        token.target,
+        accounts[0],
+        stakingController.target,
+        await deployImplementation('CommunityVault'),
+        [[accounts[4], 500]],
+        toEther(100),
+        vaultDepositController.target,
+      ],
+      { unsafeAllow: ['delegatecall'] }
+    )) as VCSMock
+
+    const vaults = []
+    for (let i = 0; i < 10; i++) {
+      let vault = (await deployUpgradeable(
+        'CommunityVault',
+        [token.target, comStrategy.target, stakingController.target, rewardsController.target],
+        { unsafeAllow: ['delegatecall'] }
+      )) as CommunityVault
+      await vault.transferOwnership(comStrategy.target)
+      vaults.push(vault.target)
+    }
+    await comStrategy.addVaults(vaults)
+
+    for (let i = 0; i < 10; i++) {
+      await opStrategy.addVault(accounts[0], accounts[0], accounts[0])
+    }
+
+    await token.approve(comStrategy.target, ethers.MaxUint256)
+    await token.approve(opStrategy.target, ethers.MaxUint256)
+
+    const fundFlowController = (await deployUpgradeable('FundFlowController', [
+      opStrategy.target,
+      comStrategy.target,
+      unbondingPeriod,
+      claimPeriod,
+      5,
+    ])) as FundFlowController
+    await opStrategy.setFundFlowController(fundFlowController.target)
+    await comStrategy.setFundFlowController(fundFlowController.target)
+
+    await comStrategy.deposit(toEther(1000), encodeVaults([]))
+    await opStrategy.deposit(toEther(1000), encodeVaults([]))
+
+    const scheduler = createVaultGroupScheduler(
+      fundFlowController,
+      opStrategy,
+      comStrategy,
+      () => {}
+    )
+
+    return { accounts, stakingController, opStrategy, comStrategy, fundFlowController, scheduler }
+  }
+
+  it('getNextUpdateTime should work correctly', async () => {
+    const state = {
+      numVaultGroups: 5,
+      curUnbondedVaultGroup: 0,
+      nextUnbondedVaultGroup: 1,
+      unbondingPeriod,
+      claimPeriod,
+      timeOfLastUpdateByGroup: [0, 0, 0, 0, 0],
+      claimPeriodActive: false,
+    }
+
+    assert.equal(getNextUpdateTime(state), unbondingPeriod)
+    assert.equal(
+      getNextUpdateTime({
+        ...state,
+        curUnbondedVaultGroup: 1,
+        nextUnbondedVaultGroup: 2,
+        timeOfLastUpdateByGroup: [unbondingPeriod, 0, 0, 0, 0],
+      }),
+      unbondingPeriod + claimPeriod + 1
+    )
+    assert.equal(
+      getNextUpdateTime({
+        ...state,
+        curUnbondedVaultGroup: 4,
+        timeOfLastUpdateByGroup: [1000, 2000, 3000, 4000, 5000],
+      }),
+      5000 + unbondingPeriod + claimPeriod + 1
+    )
+    assert.equal(
+      getNextUpdateTime({
+        ...state,
+        timeOfLastUpdateByGroup: [1000, 1000 + claimPeriod, 0, 0, 0],
+      }),
+      1000 + unbondingPeriod + claimPeriod + 1
+    )
+  })
+
+  it('should rotate vault groups across several cycles', async () => {
+    const { fundFlowController, comStrategy, opStrategy, scheduler } = await loadFixture(
+      deployFixture
+    )
+
+    for (let i = 0; i < 12; i++) {
+      let status = await scheduler.getStatus()
+
+      if (status.nextUpdateTime > status.timestamp + 2) {
+        await time.increaseTo(status.nextUpdateTime - 2)
+        assert.equal((await scheduler.run()).updateVaultGroups, undefined)
+        assert.equal(
+          Number(await fundFlowController.curUnbondedVaultGroup()),
+          status.curUnbondedVaultGroup
+        )
+      }
+      if ((await time.latest()) < status.nextUpdateTime - 1) {
+        await time.increaseTo(status.nextUpdateTime - 1)
+      }
+
+      assert.notEqual((await scheduler.run()).updateVaultGroups, undefined)
+      assert.equal(
+        Number(await fundFlowController.curUnbondedVaultGroup()),
+        status.nextUnbondedVaultGroup
+      )
+    }
+
+    let state = await getVaultGroupState(fundFlowController)
+    assert.equal(state.curUnbondedVaultGroup, 2)
+    assert.equal(state.claimPeriodActive, true)
+    assert.equal(Number((await comStrategy.globalVaultState())[1]), 2)
+    assert.equal(Number((await opStrategy.globalVaultState())[1]), 2)
+    assert.equal(fromEther(await comStrategy.totalUnbonded()), 200)
+    assert.equal(fromEther(await opStrategy.totalUnbonded()), 200)
+  })
+
+  it('should correct operator vault group accounting', async () => {
+    const { fundFlowController, opStrategy, stakingController, scheduler } = await loadFixture(
+      deployFixture
+    )
+
+    for (let i = 0; i < 6; i++) {
+      let status = await scheduler.getStatus()
+      await time.increaseTo(Math.max(status.nextUpdateTime, status.timestamp + 1))
+      await scheduler.run()
+    }
+
+    let state = await getVaultGroupState(fundFlowController)
+    let accounting = await getOperatorVaultGroupAccounting(opStrategy, state)
+    assert.deepEqual(accounting.vaultGroups, [])
+
+    const vaults = await opStrategy.getVaults()
+    await stakingController.slashOperator(vaults[6], toEther(70))
+    await stakingController.slashOperator(vaults[2], toEther(30))
+
+    accounting = await getOperatorVaultGroupAccounting(opStrategy, state)
+    assert.deepEqual(accounting.vaultGroups, [1, 2])
+    assert.deepEqual(
+      accounting.totalDepositRoom.map((room) => fromEther(room)),
+      [70, 30]
+    )
+
+    assert.notEqual((await scheduler.run()).updateOperatorVaultGroupAccounting, undefined)
+    assert.equal(fromEther((await opStrategy.vaultGroups(1))[1]), 70)
+    assert.equal(fromEther((await opStrategy.vaultGroups(2))[1]), 30)
+    assert.deepEqual((await getOperatorVaultGroupAccounting(opStrategy, state)).vaultGroups, [])
+  })
+})
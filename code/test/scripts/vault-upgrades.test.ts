@@ -0,0 +1,113 @@
+import { assert } from 'chai'
+import {
+  toEther,
+  deploy,
+  deployUpgradeable,
+  deployImplementation,
+  getAccounts,
+} from '../utils/helpers'
+import { CommunityVCS, ERC677, VaultControllerStrategy__factory } from '../../typechain-types'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { decodeCall } from '../../scripts/utils/multisig'
+import {
+  buildVaultUpgradeBatches,
+  getVaultUpgradeStatus,
+  planVaultUpgrades,
+} from '../../scripts/utils/vault-upgrades'
+
+describe('VaultUpgrades', () => {
+  async function deployFixture() {
+    const { accounts } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    const rewardsController = await deploy('StakingRewardsMock', [token.target])
+    const stakingController = await deploy('StakingMock', [
+      token.target,
+      rewardsController.target,
+      toEther(10),
+      toEther(100),
+      toEther(10000),
+      28 * 86400,
+      7 * 86400,
+    ])
+
+    const strategy = (await deployUpgradeable(
+      'CommunityVCS',
+      [
+        token.target,
+        accounts[0],
+        stakingController.target,
+        await deployImplementation('CommunityVault'),
+        [],
+        9000,
+        toEther(100),
+        10,
+        20,
+        (await deploy('VaultDepositController')).target,
+      ],
+      { unsafeAllow: ['delegatecall'] }
+    )) as CommunityVCS
+
+    return {
+      accounts,
+      strategy: VaultControllerStrategy__factory.connect(
+        strategy.target as string,
+        strategy.runner
+      ),
+    }
+  }
+
+  it('should plan, batch and verify vault upgrades', async () => {
+    const { accounts, strategy } = await loadFixture(deployFixture)
+
+    let status = await getVaultUpgradeStatus(strategy)
+    assert.equal(status.vaults.length, 20)
+    assert.deepEqual(status.outdated, [])
+
+    // deployImplementation would return the recorded implementation
+    const newImplementation = (await deploy('CommunityVault')).target as string
+    await strategy.setVaultImplementation(newImplementation)
+
+    status = await getVaultUpgradeStatus(strategy)
+    assert.deepEqual(status.outdated, [...Array(20).keys()])
+
+    const single = await strategy.upgradeVaults.estimateGas([0], ['0x'])
+    const chunks = await planVaultUpgrades(strategy, status.outdated, single * 3n)
+
+    assert.isAbove(chunks.length, 1)
+    assert.deepEqual(
+      chunks.flatMap((chunk) => chunk.vaults),
+      status.outdated
+    )
+    for (const chunk of chunks) {
+      assert.isAtMost(Number(chunk.gas), Number(single * 3n))
+      assert.deepEqual(
+        chunk.data,
+        chunk.vaults.map(() => '0x')
+      )
+    }
+
+    const batches = await buildVaultUpgradeBatches(strategy, 'CommunityVCS', chunks, accounts[1])
+    assert.equal(batches.length, chunks.length)
+    assert.equal(batches[0].name, `Upgrade CommunityVCS vaults 1 of ${chunks.length}`)
+    const decoded = decodeCall(batches[0].calls[0], strategy.interface)
+    assert.equal(decoded?.signature, 'upgradeVaults(uint256[],bytes[])')
+    assert.deepEqual([...decoded?.args[0]].map(Number), chunks[0].vaults)
+    assert.deepEqual([...decoded?.args[1]], chunks[0].data)
+
+    for (const chunk of chunks.slice(0, -1)) {
+      await strategy.upgradeVaults(chunk.vaults, chunk.data)
+    }
+    status = await getVaultUpgradeStatus(strategy)
+    assert.deepEqual(status.outdated, chunks[chunks.length - 1].vaults)
+
+    await strategy.upgradeVaults(chunks[chunks.length - 1].vaults, chunks[chunks.length - 1].data)
+    status = await getVaultUpgradeStatus(strategy)
+    assert.deepEqual(status.outdated, [])
+    assert.equal(status.vaults[19].implementation, newImplementation)
+  })
+})
@@ -0,0 +1,126 @@
+import { assert } from 'chai'
+import { ethers } from 'hardhat'
+import {
+  toEther,
+  deploy,
+  fromEther,
+  deployUpgradeable,
+  getAccounts,
+  setupToken,
+} from '../utils/helpers'
+import { ERC677, StakingPool, StrategyMock, WithdrawalPool } from '../../typechain-types'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import {
+  buildWithdrawCalls,
+  getBatchIdCutoffStatus,
+  getFinalizedWithdrawals,
+} from '../../scripts/utils/withdrawals'
+
+describe('Withdrawals', () => {
+  async function deployFixture() {
+    const { accounts, signers } = await getAccounts()
+
+    const token = (await deploy('contracts/core/tokens/base/ERC677.sol:ERC677', [
+      'Chainlink',
+      'LINK',
+      1000000000,
+    ])) as ERC677
+    await setupToken(token, accounts, true)
+
+    const stakingPool = (await deployUpgradeable('StakingPool', [
+      token.target,
+      'Staked LINK',
+      'stLINK',
+      [],
+      toEther(10000),
+    ])) as StakingPool
+    const strategy = (await deployUpgradeable('StrategyMock', [
+      token.target,
+      stakingPool.target,
+      toEther(1000000000),
+      toEther(5000),
+    ])) as StrategyMock
+    const withdrawalPool = (await deployUpgradeable('WithdrawalPool', [
+      token.target,
+      stakingPool.target,
+      accounts[0],
+      toEther(10),
+      86400,
+    ])) as WithdrawalPool
+
+    await stakingPool.addStrategy(strategy.target)
+    await stakingPool.setPriorityPool(accounts[0])
+    await stakingPool.setRebaseController(accounts[0])
+    await token.approve(stakingPool.target, ethers.MaxUint256)
+    await token.approve(withdrawalPool.target, ethers.MaxUint256)
+    await stakingPool.approve(withdrawalPool.target, ethers.MaxUint256)
+    await stakingPool.deposit(accounts[0], toEther(100000), ['0x'])
+
+    await withdrawalPool.queueWithdrawal(accounts[0], toEther(1000))
+    await withdrawalPool.queueWithdrawal(accounts[1], toEther(250))
+    await withdrawalPool.queueWithdrawal(accounts[0], toEther(500))
+    await withdrawalPool.deposit(toEther(1200))
+
+    return { signers, accounts, token, withdrawalPool }
+  }
+
+  it('getFinalizedWithdrawals should resolve batch ids and payouts', async () => {
+    const { accounts, withdrawalPool } = await loadFixture(deployFixture)
+
+    assert.deepEqual(await getFinalizedWithdrawals(withdrawalPool, accounts[0]), [
+      { withdrawalId: 1n, batchId: 1n, amount: toEther(1000) },
+    ])
+    assert.deepEqual(await getFinalizedWithdrawals(withdrawalPool, accounts[1]), [
+      { withdrawalId: 2n, batchId: 0n, amount: toEther(200) },
+    ])
+
+    await withdrawalPool.deposit(toEther(550))
+
+    assert.deepEqual(await getFinalizedWithdrawals(withdrawalPool, accounts[0]), [
+      { withdrawalId: 1n, batchId: 1n, amount: toEther(1000) },
+      { withdrawalId: 3n, batchId: 2n, amount: toEther(500) },
+    ])
+    assert.deepEqual(await getFinalizedWithdrawals(withdrawalPool, accounts[2]), [])
+  })
+
+  it('buildWithdrawCalls should split withdrawals into valid calls', async () => {
+    const { accounts, token, withdrawalPool } = await loadFixture(deployFixture)
+    await withdrawalPool.deposit(toEther(550))
+
+    const withdrawals = await getFinalizedWithdrawals(withdrawalPool, accounts[0])
+    const calls = buildWithdrawCalls(withdrawals, 1)
+    assert.deepEqual(calls, [
+      { withdrawalIds: [1n], batchIds: [1n], amount: toEther(1000) },
+      { withdrawalIds: [3n], batchIds: [2n], amount: toEther(500) },
+    ])
+
+    const startingBalance = await token.balanceOf(accounts[0])
+    for (const call of calls) {
+      await withdrawalPool.withdraw(call.withdrawalIds, call.batchIds)
+    }
+    assert.equal(fromEther((await token.balanceOf(accounts[0])) - startingBalance), 1500)
+    assert.deepEqual(await getFinalizedWithdrawals(withdrawalPool, accounts[0]), [])
+  })
+
+  it('getBatchIdCutoffStatus should match updateWithdrawalBatchIdCutoff', async () => {
+    const { signers, accounts, withdrawalPool } = await loadFixture(deployFixture)
+    await withdrawalPool.deposit(toEther(550))
+
+    let status = await getBatchIdCutoffStatus(withdrawalPool, 2)
+    assert.equal(status.shouldUpdate, false)
+
+    await withdrawalPool.withdraw([1, 3], [1, 2])
+    await withdrawalPool.connect(signers[1]).withdraw([2], [2])
+
+    status = await getBatchIdCutoffStatus(withdrawalPool, 2)
+    assert.equal(status.withdrawalBatchIdCutoff, 0n)
+    assert.equal(status.batchesSkipped, 2)
+    assert.equal(status.shouldUpdate, true)
+
+    await withdrawalPool.updateWithdrawalBatchIdCutoff()
+    assert.equal(await withdrawalPool.withdrawalIdCutoff(), status.newWithdrawalIdCutoff)
+    assert.equal(await withdrawalPool.withdrawalBatchIdCutoff(), status.newWithdrawalBatchIdCutoff)
+    assert.equal((await getBatchIdCutoffStatus(withdrawalPool, 2)).batchesSkipped, 0)
+    assert.deepEqual(await getFinalizedWithdrawals(withdrawalPool, accounts[0]), [])
+  })
+})
@@ -0,0 +1,249 @@
+import { AssertionError } from 'chai'
+
+export interface Random {
+  next: () => number // uniform in [0, 1)
+  int: (max: number) => number // uniform in [0, max)
+  bool: (probability?: number) => boolean
+}
+
+export interface FuzzStep {
+  action: string
+  params: number[] // non-negative integers, shrunk towards 0
+}
+
+export interface FuzzAction<C> {
+  name: string
+  weight?: number // relative frequency (default: 1)
+  generate: (random: Random) => number[]
+  run: (context: C, params: number[]) => Promise<boolean | void> // returns false if the step was skipped
+}
+
+export interface FuzzInvariant<C> {
+  name: string
+  check: (context: C) => Promise<void> // should throw an AssertionError if violated
+}
+
+export interface FuzzConfig<C> {
+  setup: () => Promise<C> // must return a fresh context and chain state on every call (e.g. loadFixture)
+  actions: FuzzAction<C>[]
+  invariants: FuzzInvariant<C>[]
+  runs?: number // number of random sequences (default: FUZZ_RUNS or 10)
+  steps?: number // number of steps per sequence (default: FUZZ_STEPS or 30)
+  seed?: number // seed of first sequence (default: FUZZ_SEED or 1)
+  maxShrinks?: number // max number of sequences replayed while shrinking (default: 200)
+}
+
+export interface FuzzFailure {
+  label: string // failed invariant or action
+  error: Error
+  stepIndex: number // index of step after which the failure occurred
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32)
+ * @param seed seed
+ * @returns random number generator
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  return {
+    next,
+    int: (max: number) => Math.floor(next() * max),
+    bool: (probability = 0.5) => next() < probability,
+  }
+}
+
+/**
+ * Generates a random sequence of steps
+ * @param actions actions to pick from
+ * @param random random number generator
+ * @param length number of steps
+ * @returns list of steps
+ */
+export const generateSteps = <C>(actions: FuzzAction<C>[], random: Random, length: number) => {
+  const totalWeight = actions.reduce((sum, action) => sum + (action.weight ?? 1), 0)
+  const steps: FuzzStep[] = []
+
+  for (let i = 0; i < length; i++) {
+    let pick = random.next() * totalWeight
+    const action = actions.find((action) => (pick -= action.weight ?? 1) < 0) || actions[0]
+    steps.push({ action: action.name, params: action.generate(random) })
+  }
+
+  return steps
+}
+
+/**
+ * Runs a sequence of steps from a fresh context, checking all invariants after every step
+ * @dev errors thrown by actions other than AssertionErrors (e.g. reverts for steps that are invalid in
+ * the current state) are ignored so any sequence can be replayed
+ * @param config fuzz config
+ * @param steps steps to run
+ * @param executed number of steps executed by each action, steps that reverted or were skipped are
+ * not counted
+ * @returns the first failure or undefined if all invariants held
+ */
+export const runSteps = async <C>(
+  config: FuzzConfig<C>,
+  steps: FuzzStep[],
+  executed?: Map<string, number>
+): Promise<FuzzFailure | undefined> => {
+  const context = await config.setup()
+  const actions = new Map(config.actions.map((action) => [action.name, action]))
+
+  for (let i = 0; i < steps.length; i++) {
+    const action = actions.get(steps[i].action)
+    if (!action) throw Error(`Unknown action ${steps[i].action}`)
+
+    try {
+      if ((await action.run(context, steps[i].params)) !== false) {
+        executed?.set(action.name, (executed.get(action.name) || 0) + 1)
+      }
+    } catch (error: any) {
+      if (error instanceof AssertionError) return { label: action.name, error, stepIndex: i }
+    }
+
+    for (const invariant of config.invariants) {
+      try {
+        await invariant.check(context)
+      } catch (error: any) {
+        return { label: invariant.name, error, stepIndex: i }
+      }
+    }
+  }
+}
+
+/**
+ * Shrinks a failing sequence to a minimal reproduction
+ * @dev alternates between removing chunks of steps (halving the chunk size down to single steps) and
+ * lowering each param towards 0 until neither makes progress, a candidate is kept if it still fails
+ * with the same label
+ * @param config fuzz config
+ * @param steps failing steps
+ * @param failure failure of steps
+ * @returns shrunk steps and their failure
+ */
+export const shrinkSteps = async <C>(
+  config: FuzzConfig<C>,
+  steps: FuzzStep[],
+  failure: FuzzFailure
+) => {
+  let budget = config.maxShrinks ?? 200
+  let best = { steps: steps.slice(0, failure.stepIndex + 1), failure }
+
+  const attempt = async (candidate: FuzzStep[]) => {
+    if (budget-- <= 0) return false
+    const result = await runSteps(config, candidate)
+    if (!result || result.label != failure.label) return false
+    best = { steps: candidate.slice(0, result.stepIndex + 1), failure: result }
+    return true
+  }
+  const withParam = (i: number, j: number, value: number) =>
+    best.steps.map((step, k) =>
+      k == i ? { ...step, params: step.params.map((p, l) => (l == j ? value : p)) } : step
+    )
+
+  let improved = true
+  while (improved && budget > 0) {
+    improved = false
+
+    for (let chunk = Math.ceil(best.steps.length / 2); chunk >= 1; chunk = Math.floor(chunk / 2)) {
+      for (let start = 0; start < best.steps.length && budget > 0; ) {
+        const candidate = [...best.steps.slice(0, start), ...best.steps.slice(start + chunk)]
+        if (candidate.length && (await attempt(candidate))) {
+          improved = true
+        } else {
+          start += chunk
+        }
+      }
+    }
+
+    for (let i = 0; i < best.steps.length; i++) {
+      for (let j = 0; i < best.steps.length && j < best.steps[i].params.length; j++) {
+        let lowered = true
+        while (lowered && i < best.steps.length && budget > 0) {
+          lowered = false
+          // try 0 then values approaching the current value from below (value / 2, 3 * value / 4, ...)
+          const value = best.steps[i].params[j]
+          const candidates = [0]
+          for (let delta = Math.ceil(value / 2); delta >= 1; delta = Math.floor(delta / 2)) {
+            candidates.push(value - delta)
+          }
+          for (const lower of new Set(candidates)) {
+            if (lower >= value) continue
+            if (await attempt(withParam(i, j, lower))) {
+              lowered = improved = true
+              break
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Formats steps as a reproduction that can be passed back through FUZZ_REPLAY
+ * @param steps steps
+ * @returns reproduction
+ */
+export const formatSteps = (steps: FuzzStep[]) =>
+  steps.map((step) => `  ${step.action}(${step.params.join(', ')})`).join('\n') +
+  `\n\nFUZZ_REPLAY='${JSON.stringify(steps)}'`
+
+/**
+ * Runs random sequences of actions and checks invariants after every step
+ * @dev FUZZ_SEED, FUZZ_RUNS and FUZZ_STEPS override the config, FUZZ_REPLAY replays a single
+ * sequence (as printed on failure) instead of generating new ones, failing sequences are shrunk
+ * before they are reported
+ * @dev generated sequences also fail if an action never executed in any of them since its invariants
+ * were then never exercised
+ * @param config fuzz config
+ */
+export const fuzz = async <C>(config: FuzzConfig<C>) => {
+  const env = process.env
+  const runs = Number(env.FUZZ_RUNS || config.runs || 10)
+  const length = Number(env.FUZZ_STEPS || config.steps || 30)
+  const seed = Number(env.FUZZ_SEED || config.seed || 1)
+
+  const sequences: { seed?: number; steps: FuzzStep[] }[] = env.FUZZ_REPLAY
+    ? [{ steps: JSON.parse(env.FUZZ_REPLAY) }]
+    : [...Array(runs).keys()].map((i) => ({
+        seed: seed + i,
+        steps: generateSteps(config.actions, createRandom(seed + i), length),
+      }))
+
+  const executed = new Map<string, number>()
+  for (const sequence of sequences) {
+    const failure = await runSteps(config, sequence.steps, executed)
+    if (!failure) continue
+
+    const shrunk = await shrinkSteps(config, sequence.steps, failure)
+    throw new AssertionError(
+      `${shrunk.failure.label} failed after ${shrunk.steps.length} steps (seed ${
+        sequence.seed ?? 'replay'
+      }): ${shrunk.failure.error.message}\n\n${formatSteps(shrunk.steps)}`
+    )
+  }
+
+  const unexecuted = config.actions
+    .filter((action) => !executed.get(action.name))
+    .map((action) => action.name)
+  if (!env.FUZZ_REPLAY && unexecuted.length) {
+    throw new AssertionError(
+      `${unexecuted.join(', ')} never executed in ${runs} runs (seed ${seed}), every step ` +
+        'reverted or was skipped'
+    )
+  }
+}